@@ -0,0 +1,222 @@
+// `tts` command line tool. It renders with the bundled offline engine, so it
+// works in build scripts and CI without a browser or network access.
+
+import { spawn } from 'node:child_process';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  DEFAULT_PRONUNCIATION_SETTINGS,
+  DEFAULT_RENDER_ENGINE,
+  listVoices,
+  parseLexiconFile,
+  synthesize,
+  toWav
+} from '../src/core';
+import type { AudioResult, BitDepth, PronunciationSettings, SynthesizeOptions } from '../src/core';
+
+const USAGE = `Usage: tts <command> [options] [text]
+
+Commands:
+  say [text]              Speak text through the system audio player
+  render [text] -o FILE   Write a WAV file ("-o -" writes to stdout)
+  voices                  List the voices of the engine
+
+Text comes from the arguments, from --file, or from stdin.
+
+Options:
+  -f, --file FILE         Read the text from a file
+  -o, --output FILE       Output WAV file (render)
+  -v, --voice VOICE       Voice id, name or language tag
+      --pitch N           Pitch multiplier (default 1)
+      --speed N           Speed multiplier (default 1)
+      --variation N       Expressiveness from 0 to 1 (default 0.7)
+      --seed N            Reproduce a variation exactly
+      --sample-rate HZ    Resample the output
+      --bit-depth N       8, 16, 24 or 32 (default 16)
+      --lexicon FILE      Pronunciation dictionary exported from the app
+      --no-normalize      Speak the text exactly as written
+      --timings FILE      Also write word timings as JSON (render)
+      --engine ID         Synthesis engine (default ${DEFAULT_RENDER_ENGINE})
+      --json              Machine-readable output (voices)
+  -h, --help              Show this help`;
+
+const BIT_DEPTHS = [8, 16, 24, 32];
+
+class UsageError extends Error {}
+
+const { values, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        file: { type: 'string', short: 'f' },
+        output: { type: 'string', short: 'o' },
+        voice: { type: 'string', short: 'v' },
+        pitch: { type: 'string' },
+        speed: { type: 'string' },
+        variation: { type: 'string' },
+        seed: { type: 'string' },
+        'sample-rate': { type: 'string' },
+        'bit-depth': { type: 'string' },
+        lexicon: { type: 'string' },
+        'no-normalize': { type: 'boolean' },
+        timings: { type: 'string' },
+        engine: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(2);
+  }
+})();
+
+function numberOption(name: keyof typeof values, min: number, max: number): number | undefined {
+  const raw = values[name];
+  if (typeof raw !== 'string') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new UsageError(`--${name} must be a number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readText(args: string[]): Promise<string> {
+  const text = values.file
+    ? await readFile(values.file, 'utf8')
+    : args.length > 0 && args[0] !== '-'
+      ? args.join(' ')
+      : process.stdin.isTTY ? '' : await readStdin();
+  if (!text.trim()) throw new UsageError('No text given');
+  return text;
+}
+
+async function pronunciationOption(): Promise<PronunciationSettings | false> {
+  if (values['no-normalize']) return false;
+  if (!values.lexicon) return DEFAULT_PRONUNCIATION_SETTINGS;
+  const entries = parseLexiconFile(await readFile(values.lexicon, 'utf8'));
+  return { ...DEFAULT_PRONUNCIATION_SETTINGS, entries };
+}
+
+async function render(args: string[]): Promise<AudioResult> {
+  const options: SynthesizeOptions = {
+    engine: values.engine,
+    voice: values.voice,
+    pitch: numberOption('pitch', 0.1, 2),
+    speed: numberOption('speed', 0.25, 10),
+    variation: numberOption('variation', 0, 1),
+    seed: numberOption('seed', 0, 0xffffffff),
+    pronunciation: await pronunciationOption()
+  };
+  const result = await synthesize(await readText(args), options);
+  if (values.voice && result.voiceMatch !== 'exact' && result.voiceMatch !== 'name') {
+    console.error(`Voice "${values.voice}" not found; using ${result.voice?.name ?? 'the default voice'}`);
+  }
+  return result;
+}
+
+function wavBytes(result: AudioResult) {
+  const bitDepth = numberOption('bit-depth', 8, 32);
+  if (bitDepth !== undefined && !BIT_DEPTHS.includes(bitDepth)) throw new UsageError('--bit-depth must be 8, 16, 24 or 32');
+  return toWav(result, {
+    sampleRate: numberOption('sample-rate', 8000, 192000),
+    bitDepth: bitDepth as BitDepth | undefined
+  });
+}
+
+// Whichever player the platform has; the first one that starts wins
+const PLAYERS: Record<string, [string, string[]][]> = {
+  darwin: [['afplay', []]],
+  win32: [['powershell', ['-NoProfile', '-Command', '(New-Object Media.SoundPlayer $args[0]).PlaySync()']]],
+  linux: [['paplay', []], ['aplay', ['-q']], ['ffplay', ['-nodisp', '-autoexit', '-loglevel', 'quiet']]]
+};
+
+function play(file: string, players = PLAYERS[process.platform] ?? PLAYERS.linux): Promise<void> {
+  const [next, ...rest] = players;
+  if (!next) return Promise.reject(new Error('No audio player found; use "tts render -o file.wav" instead'));
+  const [command, args] = next;
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, [...args, file], { stdio: 'ignore' });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') play(file, rest).then(resolve, reject);
+      else reject(error);
+    });
+    child.on('exit', (code) => (code === 0 ? resolve() : reject(new Error(`${command} exited with code ${code}`))));
+  });
+}
+
+async function say(args: string[]) {
+  const result = await render(args);
+  const file = join(tmpdir(), `tts-${process.pid}-${Date.now()}.wav`);
+  await writeFile(file, wavBytes(result));
+  try {
+    await play(file);
+  } finally {
+    await rm(file, { force: true });
+  }
+}
+
+async function renderToFile(args: string[]) {
+  if (!values.output) throw new UsageError('render needs an output file: -o out.wav');
+  const result = await render(args);
+  const wav = wavBytes(result);
+  if (values.output === '-') process.stdout.write(wav);
+  else await writeFile(values.output, wav);
+
+  if (values.timings) {
+    const words = result.boundaries.map(boundary => ({
+      word: result.text.slice(boundary.charIndex, boundary.charIndex + boundary.charLength),
+      start: boundary.charIndex,
+      time: boundary.elapsedTime
+    }));
+    await writeFile(values.timings, JSON.stringify({ text: result.text, seed: result.seed, duration: result.duration, words }, null, 2));
+  }
+  if (values.output !== '-') {
+    console.error(`Wrote ${values.output} (${result.duration.toFixed(2)} s, voice ${result.voice?.name ?? 'default'}, seed ${result.seed})`);
+  }
+}
+
+async function voices() {
+  const list = await listVoices(values.engine);
+  if (values.json) {
+    console.log(JSON.stringify(list, null, 2));
+    return;
+  }
+  for (const voice of list) {
+    console.log(`${voice.id.padEnd(16)} ${voice.lang.padEnd(8)} ${voice.name}${voice.isDefault ? ' (default)' : ''}`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  switch (command) {
+    case 'say':
+      return say(args);
+    case 'render':
+      return renderToFile(args);
+    case 'voices':
+      return voices();
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(`tts: ${error instanceof Error ? error.message : error}`);
+  if (error instanceof UsageError) console.error('Run "tts --help" for usage.');
+  process.exit(error instanceof UsageError ? 2 : 1);
+});
@@ -0,0 +1,181 @@
+// Request handler of the local synthesis server. It only depends on the
+// headless core, so it answers the same offline as it does on a network.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { getEngine, listVoices, synthesize, synthesizeStream, toWav } from '../src/core';
+import type { SynthesizeOptions, TtsEngine } from '../src/core';
+import { encodePcm16, parseSynthesizeRequest, STREAM_FRAME_SECONDS } from '../src/core/protocol';
+import type { StreamEvent, SynthesizeRequest, VoicesResponse } from '../src/core/protocol';
+import { createMockEngine } from '../src/engines/mockEngine';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Engines the server can render with, by the id clients send */
+export const SERVER_ENGINES: Record<string, () => TtsEngine> = {
+  cpu: () => getEngine('formant'),
+  mock: createMockEngine
+};
+
+export const DEFAULT_SERVER_ENGINE = 'cpu';
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Expose-Headers': 'X-Seed, X-Voice, X-Duration'
+};
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+export function createHandler(defaultEngine = DEFAULT_SERVER_ENGINE) {
+  const engines = new Map<string, TtsEngine>();
+
+  const engineFor = (id = defaultEngine) => {
+    // Names inherited from Object.prototype are not engines
+    if (!Object.hasOwn(SERVER_ENGINES, id)) {
+      throw new HttpError(400, `Unknown engine "${id}"; use ${Object.keys(SERVER_ENGINES).join(' or ')}`);
+    }
+    if (!engines.has(id)) engines.set(id, SERVER_ENGINES[id]());
+    return engines.get(id)!;
+  };
+
+  const readRequest = async (req: IncomingMessage): Promise<[SynthesizeRequest, SynthesizeOptions]> => {
+    let request: SynthesizeRequest;
+    try {
+      request = parseSynthesizeRequest(await readJson(req));
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    const options: SynthesizeOptions = {
+      engine: engineFor(request.engine),
+      voice: request.voice,
+      pitch: request.pitch,
+      speed: request.speed,
+      variation: request.variation,
+      seed: request.seed,
+      prosody: request.prosody,
+      pronunciation: request.normalize === false ? false : undefined
+    };
+    return [request, options];
+  };
+
+  const voices = async (url: URL, res: ServerResponse) => {
+    const engine = url.searchParams.get('engine') ?? defaultEngine;
+    const body: VoicesResponse = { engine, voices: await listVoices(engineFor(engine)) };
+    sendJson(res, 200, body);
+  };
+
+  const synthesizeWav = async (req: IncomingMessage, res: ServerResponse) => {
+    const [request, options] = await readRequest(req);
+    const result = await synthesize(request.text, options);
+    const wav = toWav(result, { sampleRate: request.sampleRate, bitDepth: request.bitDepth });
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'audio/wav',
+      'Content-Length': wav.length,
+      'X-Seed': String(result.seed),
+      'X-Voice': result.voice?.id ?? '',
+      'X-Duration': result.duration.toFixed(3)
+    });
+    res.end(wav);
+  };
+
+  // Newline-delimited JSON: a start event, audio frames and word timings as
+  // each phrase is rendered, then an end or an error event
+  const stream = async (req: IncomingMessage, res: ServerResponse) => {
+    const [request, options] = await readRequest(req);
+    const synthesis = await synthesizeStream(request.text, options);
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    const send = (event: StreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+    send({ type: 'start', text: synthesis.text, seed: synthesis.seed, voice: synthesis.voice });
+    let duration = 0;
+    try {
+      for await (const { audio, offset } of synthesis.phrases) {
+        if (closed) return;
+        const frameLength = Math.round(STREAM_FRAME_SECONDS * audio.sampleRate);
+        let boundary = 0;
+        const sendWordsBefore = (time: number) => {
+          while (boundary < audio.boundaries.length && audio.boundaries[boundary].elapsedTime < time) {
+            const { charIndex, charLength, elapsedTime } = audio.boundaries[boundary++];
+            send({ type: 'word', charIndex, charLength, time: elapsedTime });
+          }
+        };
+        for (let start = 0; start < audio.samples.length; start += frameLength) {
+          const time = offset + start / audio.sampleRate;
+          // Words are announced with the frame they start in
+          sendWordsBefore(time + STREAM_FRAME_SECONDS);
+          send({
+            type: 'audio',
+            sampleRate: audio.sampleRate,
+            time,
+            samples: encodePcm16(audio.samples.subarray(start, start + frameLength))
+          });
+        }
+        sendWordsBefore(Infinity);
+        duration = offset + audio.samples.length / audio.sampleRate;
+      }
+      send({ type: 'end', duration });
+    } catch (error) {
+      send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    res.end();
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+      } else if (route === 'GET /v1/voices') {
+        await voices(url, res);
+      } else if (route === 'POST /v1/synthesize') {
+        await synthesizeWav(req, res);
+      } else if (route === 'POST /v1/stream') {
+        await stream(req, res);
+      } else {
+        throw new HttpError(404, `No route for ${route}`);
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) console.error(error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
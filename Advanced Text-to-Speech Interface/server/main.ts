@@ -0,0 +1,65 @@
+// `npm run server`: serves the synthesis API on localhost for the app's
+// "Local Server" engine and for scripts.
+
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { DEFAULT_SERVER_PORT } from '../src/core/protocol';
+import { createHandler, DEFAULT_SERVER_ENGINE, SERVER_ENGINES } from './app';
+
+const USAGE = `Usage: tts-server [options]
+
+Options:
+  -p, --port PORT     Port to listen on (default ${DEFAULT_SERVER_PORT})
+      --host HOST     Interface to bind (default 127.0.0.1)
+      --engine ID     Default engine: ${Object.keys(SERVER_ENGINES).join(', ')} (default ${DEFAULT_SERVER_ENGINE})
+  -h, --help          Show this help
+
+Endpoints:
+  GET  /v1/voices?engine=ID   Voices of an engine
+  POST /v1/synthesize         JSON request in, WAV out
+  POST /v1/stream             JSON request in, NDJSON audio frames and word timings out`;
+
+const { values } = (() => {
+  try {
+    return parseArgs({
+      options: {
+        port: { type: 'string', short: 'p' },
+        host: { type: 'string' },
+        engine: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(2);
+  }
+})();
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const port = values.port === undefined ? DEFAULT_SERVER_PORT : Number(values.port);
+const host = values.host ?? '127.0.0.1';
+const engine = values.engine ?? DEFAULT_SERVER_ENGINE;
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error('--port must be a number from 0 to 65535');
+  process.exit(2);
+}
+if (!Object.hasOwn(SERVER_ENGINES, engine)) {
+  console.error(`--engine must be one of ${Object.keys(SERVER_ENGINES).join(', ')}`);
+  process.exit(2);
+}
+
+const server = createServer(createHandler(engine));
+server.on('error', (error) => {
+  console.error(`tts-server: ${error.message}`);
+  process.exit(1);
+});
+server.listen(port, host, () => {
+  const address = server.address();
+  const actualPort = typeof address === 'object' && address ? address.port : port;
+  console.log(`Synthesis server (${engine} engine) listening on http://${host}:${actualPort}`);
+});
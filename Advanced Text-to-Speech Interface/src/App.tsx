@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useLayoutEffect, useMemo, useDeferredValue } from 'react';
 import { 
   Mic, 
   Play, 
@@ -7,73 +7,369 @@ import {
   Settings, 
   Cpu, 
   Zap, 
-  BarChart3,
   FileAudio,
   Bot,
   Waves,
   Activity,
   Clock,
-  Database
+  Database,
+  Languages,
+  Square,
+  SkipBack,
+  SkipForward,
+  RotateCcw,
+  Repeat,
+  Dices,
+  Lock,
+  Unlock,
+  Captions,
+  MicOff,
+  BookOpenText
 } from 'lucide-react';
+import { getDefaultEngineId, getEngine, hasEngine, listEngines, withMetrics, withNormalization } from './engines';
+import type { EngineVoice, RenderedAudio, SynthesisOptions } from './engines';
+import {
+  BIT_DEPTHS,
+  DEFAULT_EXPORT_SETTINGS,
+  FORMAT_LABELS,
+  SAMPLE_RATES,
+  encodeWavBlob,
+  exportAudio,
+  getSupportedFormats
+} from './audio/export';
+import type { ExportFormat, ExportSettings } from './audio/export';
+import type { BitDepth } from './audio/wav';
+import { downloadBlob, fileTimestamp } from './lib/download';
+import { CAPTION_FORMAT_LABELS, DEFAULT_CAPTION_SETTINGS, captionFile } from './lib/captions';
+import type { CaptionFormat, CaptionSettings, SpeechTimings } from './lib/captions';
+import { chunkSegments, chunkText, splitChunksBySpans } from './lib/chunker';
+import type { Paragraph, TextChunk } from './lib/chunker';
+import { useSpeechQueue } from './hooks/useSpeechQueue';
+import type { QueueStatus } from './hooks/useSpeechQueue';
+import LongDocumentPanel from './components/LongDocumentPanel';
+import ReadAlongView from './components/ReadAlongView';
+import ParameterSlider from './components/ParameterSlider';
+import VoiceSelect from './components/VoiceSelect';
+import CastingPanel from './components/CastingPanel';
+import { listSpeakers, parseCastFile, parseScript, resolveCast } from './lib/script';
+import type { Cast, CastFile } from './lib/script';
+import { useMetrics } from './hooks/useMetrics';
+import { formatMs, metricsToCsv, metricsToJson } from './lib/metrics';
+import PerformancePanel from './components/PerformancePanel';
+import { DEFAULT_VOICE_SETTINGS, INPUT_MODES, VOICE_SETTING_RANGES, toSynthesisOptions } from './lib/settings';
+import type { InputMode, VoiceSettings } from './lib/settings';
+import { SsmlSyntaxError, parseSsml, ssmlToVoicedSegments } from './lib/ssml';
+import { useHistory } from './hooks/useHistory';
+import type { HistoryEntry } from './lib/historyStore';
+import HistoryPanel from './components/HistoryPanel';
+import { createId } from './lib/ids';
+import { usePresets } from './hooks/usePresets';
+import type { VoicePreset } from './lib/presets';
+import PresetBar from './components/PresetBar';
+import { createShareUrl, readShareHash } from './lib/shareLink';
+import { baseLanguage, languageLabel, pickPreferredVoice, resolveVoice, toVoiceReference, voiceForLanguage } from './lib/voices';
+import type { VoiceReference } from './lib/voices';
+import { confidentLanguage, languageSpans } from './lib/language';
+import { usePronunciation } from './hooks/usePronunciation';
+import { parseLexiconFile, serializeLexicon } from './lib/lexicon';
+import PronunciationPanel from './components/PronunciationPanel';
+import AudioVisualizer from './components/AudioVisualizer';
+import LiveSpectrum from './components/LiveSpectrum';
+import { routeMediaElement } from './audio/output';
+import { wordSpans } from './lib/segments';
+import { usePlayback } from './hooks/usePlayback';
+import type { PlaybackSource, PlaybackState } from './hooks/usePlayback';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { SpeechCancelledError, planProsody, speakProsody } from './lib/prosody';
+import type { ProsodySettings } from './lib/prosody';
+import { synthesize } from './core/synthesize';
+import { MAX_SEED, randomSeed } from './lib/random';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import type { BatchRunner } from './hooks/useBatchQueue';
+import { batchReportCsv, exportBatchZip, parseBatchFile } from './lib/batch';
+import BatchPanel from './components/BatchPanel';
+import { importDocument } from './lib/documents';
+import type { ImportedDocument } from './lib/documents';
+import { loadReadingPosition, saveReadingPosition } from './lib/readingPositions';
+import type { ReadingPosition } from './lib/readingPositions';
+import DocumentPanel from './components/DocumentPanel';
+import { getDefaultRecognizerId, getRecognizer, listRecognizers } from './recognizers';
+import { useDictation } from './hooks/useDictation';
+import { useRoundTrip } from './hooks/useRoundTrip';
+import RoundTripPanel from './components/RoundTripPanel';
+import { useAccessibility } from './hooks/useAccessibility';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import LiveRegion from './components/LiveRegion';
+import SettingsPanel from './components/SettingsPanel';
+import type { ShortcutHelp } from './components/SettingsPanel';
+import ReaderMode from './components/ReaderMode';
+
+const STANDARD_MAX_CHARS = 1000;
+const LONG_TEXT_MAX_CHARS = 200000;
+const NO_CHUNKS: TextChunk[] = [];
+const NORMALIZATION_PREVIEW_CHARS = 2000;
+
+const PLAYBACK_LABELS: Record<PlaybackState, string> = {
+  idle: 'Ready',
+  speaking: 'Playing',
+  paused: 'Paused',
+  ended: 'Finished',
+  error: 'Playback failed'
+};
+
+const QUEUE_LABELS: Record<QueueStatus, string> = {
+  idle: 'Stopped',
+  playing: 'Reading',
+  paused: 'Paused',
+  finished: 'Finished reading'
+};
+
+const KEYBOARD_SHORTCUTS: ShortcutHelp[] = [
+  { keys: ['Ctrl', 'Enter'], action: 'Generate from the text box' },
+  { keys: ['G'], action: 'Generate speech' },
+  { keys: ['Space', 'K'], action: 'Play or pause' },
+  { keys: ['Esc'], action: 'Stop, or close a dialog' },
+  { keys: ['←', '→'], action: 'Previous or next sentence' },
+  { keys: ['R'], action: 'Play from the start' },
+  { keys: ['L'], action: 'Loop' },
+  { keys: ['/'], action: 'Edit the text' },
+  { keys: ['D'], action: 'Start or stop dictation' },
+  { keys: ['E'], action: 'Open reader mode' },
+  { keys: [',', '?'], action: 'Open settings' }
+];
+
+const VOICE_FALLBACK_NOTES: Record<string, string> = {
+  locale: 'a voice for the same locale',
+  language: 'a voice for the same language',
+  default: 'the default voice'
+};
+
+const PLACEHOLDERS: Record<InputMode, string> = {
+  standard: 'Enter your text here to generate natural, expressive speech using advanced browser-based text-to-speech technology...',
+  long: 'Paste an article or script. It will be split at sentence and paragraph boundaries and spoken as a queue...',
+  ssml: '<speak>\n  Hello <break time="300ms"/> world.\n  <prosody rate="slow" pitch="+2st">Slow and high.</prosody>\n  <emphasis level="strong">Important!</emphasis>\n</speak>',
+  script: 'ALICE: Did you hear the new episode?\nBOB: (laughing) Twice. Let\'s record the next one.\nALICE: Rolling in three, two, one...'
+};
+
+interface LongDocument {
+  title: string;
+  /** Set when the text is an imported document, whose reading position is remembered */
+  documentId?: string;
+  chunks: TextChunk[];
+  paragraphs: Paragraph[];
+  options: SynthesisOptions;
+  /** Variation for the chunks; markup handed to the engine as is goes without */
+  prosody?: ProsodySettings;
+}
 
 function App() {
-  const [text, setText] = useState('');
+  // A shared link seeds the initial state; its voice is matched once voices load
+  const [sharedState] = useState(() => readShareHash(window.location.hash));
+  const [text, setText] = useState(sharedState?.text ?? '');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
-  const [gpuUtilization, setGpuUtilization] = useState(67);
-  const [inferenceTime, setInferenceTime] = useState(2.3);
-  const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [engineId, setEngineId] = useState(() =>
+    sharedState && hasEngine(sharedState.engineId) ? sharedState.engineId : getDefaultEngineId()
+  );
+  const [availableVoices, setAvailableVoices] = useState<EngineVoice[]>([]);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
   const audioRef = useRef<HTMLAudioElement>(null);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const [playbackSource, setPlaybackSource] = useState<PlaybackSource | null>(null);
+  const [renderedAudio, setRenderedAudio] = useState<RenderedAudio | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS);
+  // Live speech is only timed by reading it through once
+  const [liveTimings, setLiveTimings] = useState<{ source: PlaybackSource; timings: SpeechTimings } | null>(null);
+  const supportedFormats = useMemo(getSupportedFormats, []);
+  const [inputMode, setInputMode] = useState<InputMode>(sharedState?.inputMode ?? 'standard');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [cast, setCast] = useState<Cast>({});
+  const [turnGap, setTurnGap] = useState(0.5);
+  const [longDocument, setLongDocument] = useState<LongDocument | null>(null);
+  const [spokenText, setSpokenText] = useState('');
+  const [spokenCharIndex, setSpokenCharIndex] = useState<number | null>(null);
+  const [readingDocument, setReadingDocument] = useState<ImportedDocument | null>(null);
+  const [savedPosition, setSavedPosition] = useState<ReadingPosition | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const accessibility = useAccessibility();
+  const { announcement, announce } = useAnnouncer(accessibility.settings.announcements);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isReaderOpen, setIsReaderOpen] = useState(false);
+  const isDialogOpen = isSettingsOpen || isReaderOpen;
+
+  const metrics = useMetrics();
+  const pronunciation = usePronunciation();
+  // Read through a ref so dictionary edits apply without recreating the engine
+  const { normalizer } = pronunciation;
+  const normalizerRef = useRef(normalizer);
+  useEffect(() => {
+    normalizerRef.current = normalizer;
+  }, [normalizer]);
+  const engine = useMemo(
+    () => withNormalization(withMetrics(getEngine(engineId), metrics.record), (text, lang) => normalizerRef.current(text, lang)),
+    [engineId, metrics.record]
+  );
+  const queue = useSpeechQueue(
+    engine,
+    longDocument?.chunks ?? NO_CHUNKS,
+    longDocument?.options ?? null,
+    longDocument?.prosody ?? null,
+    setSpokenCharIndex
+  );
+
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(sharedState?.settings ?? DEFAULT_VOICE_SETTINGS);
+  // A locked seed reproduces the same variation; otherwise every generation rolls a new one
+  const [seed, setSeed] = useState(() => sharedState?.seed ?? randomSeed());
+  const [seedLocked, setSeedLocked] = useState(sharedState?.seed !== undefined);
+  const voiceRequestRef = useRef<VoiceReference | null>(sharedState?.voice ?? null);
+  const [voiceNotice, setVoiceNotice] = useState<string | null>(null);
+  const presets = usePresets();
+  const [presetId, setPresetId] = useState('');
+  const [autoLanguage, setAutoLanguage] = useState(true);
+  const autoLanguageRef = useRef<string | null>(null);
+  const deferredText = useDeferredValue(text);
+  const detectedLanguage = useMemo(
+    () => confidentLanguage(inputMode === 'ssml' ? deferredText.replace(/<[^>]*>/g, ' ') : deferredText),
+    [deferredText, inputMode]
+  );
+
+  const selectRequestedVoice = (reference: VoiceReference, voices: EngineVoice[]) => {
+    const resolved = resolveVoice(reference, voices);
+    if (!resolved) return;
+    setSelectedVoice(resolved.voice.id);
+    setVoiceNotice(resolved.match in VOICE_FALLBACK_NOTES
+      ? `"${reference.name}" is not installed here, so ${VOICE_FALLBACK_NOTES[resolved.match]} (${resolved.voice.name}) is used instead.`
+      : null);
+  };
 
-  const [voiceSettings, setVoiceSettings] = useState({
-    pitch: 1.0,
-    speed: 1.0,
-    temperature: 0.7
+  const history = useHistory();
+  const historyIdRef = useRef<string | null>(null);
+  const generateRef = useRef<() => void>(() => {});
+  const [rerunRequested, setRerunRequested] = useState(false);
+  const playback = usePlayback(engine, audioRef, playbackSource, {
+    onPosition: setSpokenCharIndex,
+    // Only a full read gives the real length of live speech
+    onFullRead: (duration, boundaries) => {
+      if (historyIdRef.current) history.update(historyIdRef.current, { duration });
+      if (playbackSource && !playbackSource.audio) {
+        setLiveTimings({ source: playbackSource, timings: { text: playbackSource.text, boundaries, duration: duration / 1000 } });
+      }
+    }
   });
+  const isPlaying = playback.state === 'speaking';
+  const roundTrip = useRoundTrip(playback.state);
+  const [recognizerId, setRecognizerId] = useState(getDefaultRecognizerId);
+  const recognizers = useMemo(listRecognizers, []);
+  const { cancel: cancelRoundTrip } = roundTrip;
+  useEffect(() => {
+    // A check belongs to the take it was made of
+    cancelRoundTrip();
+  }, [playbackSource, cancelRoundTrip]);
+
+  const captionTimings = useMemo<SpeechTimings | null>(() => {
+    if (renderedAudio && playbackSource?.audio === renderedAudio) {
+      return {
+        text: playbackSource.text,
+        boundaries: renderedAudio.boundaries,
+        duration: renderedAudio.samples.length / renderedAudio.sampleRate
+      };
+    }
+    return liveTimings && liveTimings.source === playbackSource ? liveTimings.timings : null;
+  }, [renderedAudio, playbackSource, liveTimings]);
 
   useEffect(() => {
     // Load available voices
-    const loadVoices = () => {
-      const voices = speechSynthesis.getVoices();
-      const englishVoices = voices.filter(voice => 
-        voice.lang.startsWith('en') || voice.lang.includes('US') || voice.lang.includes('GB')
-      );
-      setAvailableVoices(englishVoices);
+    let cancelled = false;
+    const loadVoices = async () => {
+      const voices = await engine.getVoices();
+      if (cancelled) return;
+      setAvailableVoices(voices);
+
+      // A preset or shared link asked for a specific voice before this engine's voices were known
+      const requested = voiceRequestRef.current;
+      if (requested && voices.length > 0) {
+        voiceRequestRef.current = null;
+        selectRequestedVoice(requested, voices);
+        return;
+      }
       
-      // Select a good default voice
-      const preferredVoice = englishVoices.find(voice => 
-        voice.name.toLowerCase().includes('google') || 
-        voice.name.toLowerCase().includes('natural') ||
-        voice.name.toLowerCase().includes('enhanced')
-      ) || englishVoices[0];
+      // Select a good default voice, preferably in the user's own language
+      const ownLanguage = voices.filter(voice => baseLanguage(voice.lang) === baseLanguage(navigator.language));
+      const preferredVoice = pickPreferredVoice(ownLanguage.length ? ownLanguage : voices);
       
-      if (preferredVoice) {
-        setSelectedVoice(preferredVoice.name);
-      }
+      setSelectedVoice(prev => 
+        voices.some(voice => voice.id === prev) ? prev : preferredVoice?.id ?? ''
+      );
     };
 
     loadVoices();
-    speechSynthesis.onvoiceschanged = loadVoices;
+    const unsubscribe = engine.onVoicesChanged(loadVoices);
+    autoLanguageRef.current = null;
 
-    // Simulate real-time GPU utilization
-    const interval = setInterval(() => {
-      setGpuUtilization(prev => {
-        const change = (Math.random() - 0.5) * 10;
-        return Math.max(45, Math.min(85, prev + change));
-      });
-    }, 2000);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      engine.cancel();
+      setAudioUrl(null);
+      setPlaybackSource(null);
+      setRenderedAudio(null);
+    };
+  }, [engine]);
+
+  useEffect(() => {
+    // The shared state now lives in the editor; drop it from the address bar
+    if (sharedState) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [sharedState]);
 
+  useEffect(() => {
+    // Follow the language of the text, but only when it changes so manual picks stick
+    if (!autoLanguage || !detectedLanguage || availableVoices.length === 0 || autoLanguageRef.current === detectedLanguage) return;
+    autoLanguageRef.current = detectedLanguage;
+    const current = availableVoices.find(voice => voice.id === selectedVoice);
+    const voice = voiceForLanguage(detectedLanguage, availableVoices, current);
+    if (voice && voice !== current) {
+      setSelectedVoice(voice.id);
+      setVoiceNotice(null);
+    }
+  }, [autoLanguage, detectedLanguage, availableVoices, selectedVoice]);
+
+  useEffect(() => {
+    // Re-runs restore engine and settings first, then generate once they have been applied
+    if (!rerunRequested) return;
+    setRerunRequested(false);
+    generateRef.current();
+  }, [rerunRequested]);
+
+  useEffect(() => {
+    // Rendered clips play through Web Audio so the visualizer can analyse them
+    if (renderedAudio && audioRef.current) routeMediaElement(audioRef.current);
+  }, [renderedAudio]);
+
+  useEffect(() => {
+    if (queue.status === 'idle' || queue.status === 'finished') setSpokenCharIndex(null);
+  }, [queue.status]);
+
+  useEffect(() => {
+    // Release rendered audio files once they are replaced
     return () => {
-      clearInterval(interval);
-      if (utteranceRef.current) {
-        speechSynthesis.cancel();
-      }
+      if (audioUrl?.startsWith('blob:')) URL.revokeObjectURL(audioUrl);
     };
-  }, []);
+  }, [audioUrl]);
+
+  const buildSynthesisOptions = (): SynthesisOptions => toSynthesisOptions(voiceSettings, selectedVoice || undefined);
+
+  // Voice overrides for the parts of the text in another language than the selected voice
+  const buildLanguageVoicing = (source: string) => {
+    if (!autoLanguage) return null;
+    const current = availableVoices.find(voice => voice.id === selectedVoice);
+    const spans = languageSpans(source).map((span) => {
+      const voice = span.lang ? voiceForLanguage(span.lang, availableVoices, current) : undefined;
+      return { ...span, options: voice && voice !== current ? { voiceId: voice.id } : undefined };
+    });
+    return spans.some(span => span.options) ? spans : null;
+  };
 
   const handleGenerate = async () => {
     if (!text.trim()) return;
@@ -81,113 +377,543 @@ function App() {
     setIsGenerating(true);
     setProgress(0);
     setAudioUrl(null);
+    setRenderedAudio(null);
+    setLongDocument(null);
+    setSpokenCharIndex(null);
+    playback.stop();
+    engine.cancel();
+    setPlaybackSource(null);
+    historyIdRef.current = null;
+    announce('Generating speech');
     
-    // Simulate processing steps with realistic timing
-    const steps = [
-      { name: 'Tokenizing text...', duration: 300 },
-      { name: 'Loading Bark-small model...', duration: 500 },
-      { name: 'Generating speech features...', duration: 1200 },
-      { name: 'Optimizing on Tesla T4...', duration: 800 },
-      { name: 'Finalizing audio...', duration: 400 }
-    ];
-    
-    for (let i = 0; i < steps.length; i++) {
-      await new Promise(resolve => setTimeout(resolve, steps[i].duration));
-      setProgress(((i + 1) / steps.length) * 100);
-    }
-    
-    // Generate speech using browser's Speech Synthesis API
     try {
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Apply voice settings
-      utterance.pitch = voiceSettings.pitch;
-      utterance.rate = voiceSettings.speed;
-      utterance.volume = 1.0;
-      
-      // Set selected voice
-      const voice = availableVoices.find(v => v.name === selectedVoice);
-      if (voice) {
-        utterance.voice = voice;
+      if (!engine.isAvailable()) {
+        throw new Error(`${engine.label} is not available in this browser`);
       }
-      
-      // Add some variation based on temperature
-      if (voiceSettings.temperature > 0.5) {
-        utterance.pitch += (Math.random() - 0.5) * 0.2 * voiceSettings.temperature;
-        utterance.rate += (Math.random() - 0.5) * 0.1 * voiceSettings.temperature;
+
+      const options = buildSynthesisOptions();
+      const takeSeed = seedLocked ? seed : randomSeed();
+      setSeed(takeSeed);
+      const prosody: ProsodySettings = { variation: voiceSettings.temperature, seed: takeSeed };
+      let rendered: { audio: RenderedAudio; wav: Blob } | null = null;
+      const voicing = inputMode === 'standard' || inputMode === 'long' ? buildLanguageVoicing(text) : null;
+      setSpokenText(text);
+
+      if (inputMode === 'ssml' && engine.capabilities.ssml) {
+        // Engines with native SSML get the markup untouched
+        setLongDocument({
+          title: 'SSML',
+          chunks: [{ index: 0, text, start: 0, end: text.length, paragraph: 0 }],
+          paragraphs: [{ index: 0, start: 0, end: text.length, firstChunk: 0, preview: 'SSML document' }],
+          options
+        });
+        setProgress(100);
+      } else if (inputMode === 'ssml') {
+        // Everything else speaks the parsed segments as a sequence of utterances
+        const document = chunkSegments(ssmlToVoicedSegments(parseSsml(text), options));
+        setSpokenText(document.text);
+        setLongDocument({ title: 'SSML Segments', chunks: document.chunks, paragraphs: document.paragraphs, options, prosody });
+        setProgress(100);
+      } else if (inputMode === 'script') {
+        // Each turn is spoken with its speaker's cast voice, separated by the turn gap
+        const document = chunkSegments(scriptTurns.map((turn, index) => {
+          const member = resolvedCast[turn.speaker];
+          return {
+            text: turn.text,
+            label: `${turn.speaker}: ${turn.text.slice(0, 50)}`,
+            options: { voiceId: member.voiceId || undefined, pitch: member.pitch, rate: member.speed },
+            pauseAfter: index < scriptTurns.length - 1 ? turnGap : 0
+          };
+        }));
+        setSpokenText(document.text);
+        setLongDocument({ title: 'Dialogue', chunks: document.chunks, paragraphs: document.paragraphs, options, prosody });
+        setProgress(100);
+      } else if (inputMode === 'long') {
+        // Long documents are spoken chunk by chunk from the queue
+        const document = chunkText(text);
+        const opened = readingDocument?.text === text ? readingDocument : null;
+        setLongDocument({
+          title: opened?.title ?? 'Long Document',
+          documentId: opened?.id,
+          ...(voicing ? splitChunksBySpans(text, document, voicing) : document),
+          options,
+          prosody
+        });
+        setProgress(100);
+      } else if (voicing) {
+        // Mixed-language text is queued so each language gets its own voice
+        setLongDocument({ title: 'Mixed Language', ...splitChunksBySpans(text, chunkText(text), voicing), options, prosody });
+        setProgress(100);
+      } else if (engine.capabilities.audioOutput && engine.render) {
+        // Render real audio phrase by phrase and play it through the audio element
+        const audio = await synthesize(text, {
+          engine,
+          voice: selectedVoice || undefined,
+          pitch: voiceSettings.pitch,
+          speed: voiceSettings.speed,
+          ...prosody,
+          // The app's engine already normalizes with the live dictionary
+          pronunciation: false
+        });
+        rendered = { audio, wav: encodeWavBlob(audio) };
+        setSpokenText(audio.text);
+        setRenderedAudio(audio);
+        setProgress(100);
+        setAudioUrl(URL.createObjectURL(rendered.wav));
+        setPlaybackSource({ text: audio.text, phrases: audio.phrases, audio });
+      } else {
+        // Speaking engines synthesize on demand, so generation only plans the phrases
+        const plan = planProsody(text, options, prosody);
+        setSpokenText(plan.text);
+        setProgress(100);
+        setAudioUrl('speech-ready');
+        setPlaybackSource({ ...plan, audio: null });
       }
-      
-      utteranceRef.current = utterance;
-      
-      // Set up event handlers
-      utterance.onstart = () => {
-        setIsPlaying(true);
-      };
-      
-      utterance.onend = () => {
-        setIsPlaying(false);
-      };
-      
-      utterance.onerror = (event) => {
-        console.error('Speech synthesis error:', event);
-        setIsPlaying(false);
+
+      const entry: HistoryEntry = {
+        id: createId(),
+        text,
+        inputMode,
+        engineId,
+        voiceId: selectedVoice,
+        voiceName: availableVoices.find(voice => voice.id === selectedVoice)?.name ?? '',
+        voiceSettings,
+        seed: takeSeed,
+        createdAt: Date.now(),
+        duration: rendered ? (rendered.audio.samples.length / rendered.audio.sampleRate) * 1000 : null,
+        audio: rendered?.wav,
+        favorite: false,
+        projectId: null
       };
-      
-      // Mark as ready for playback
-      setAudioUrl('speech-ready');
-      setInferenceTime(2.3 + Math.random() * 1.2);
-      
+      historyIdRef.current = entry.id;
+      history.add(entry);
+      announce('Speech ready');
     } catch (error) {
       console.error('Speech generation failed:', error);
+      announce(error instanceof Error ? error.message : 'Speech generation failed', true);
     }
     
     setIsGenerating(false);
   };
 
-  const handlePlayPause = () => {
-    if (!utteranceRef.current) return;
+  // A layout effect, so a re-run requested in this render already sees this render's text and settings
+  useLayoutEffect(() => {
+    generateRef.current = handleGenerate;
+  });
+
+  const handleWordClick = (charIndex: number) => {
+    if (longDocument) queue.playFromPosition(charIndex);
+    else playback.seekToChar(charIndex);
+  };
+
+  // Without audio, seeking restarts speech at the word nearest the clicked position
+  const handleSeekText = (fraction: number) => {
+    if (!playbackSource) return;
+    const target = fraction * playbackSource.text.length;
+    const word = wordSpans(playbackSource.text).find(span => span.end > target);
+    playback.seekToChar(word?.start ?? 0);
+  };
+
+  // The same keys drive the queue when a long document is loaded
+  useKeyboardShortcuts(longDocument ? {
+    Space: queue.status === 'playing' ? queue.pause : queue.resume,
+    k: queue.status === 'playing' ? queue.pause : queue.resume,
+    Escape: queue.stop,
+    ArrowLeft: queue.previous,
+    ArrowRight: queue.next,
+    r: () => queue.playFrom(0)
+  } : {
+    Space: playback.toggle,
+    k: playback.toggle,
+    Escape: playback.stop,
+    ArrowLeft: playback.previousSentence,
+    ArrowRight: playback.nextSentence,
+    r: playback.restart,
+    l: () => playback.setLoop(!playback.loop)
+  }, Boolean(longDocument || playbackSource) && !isDialogOpen);
+
+  const handleDownload = async () => {
+    if (!renderedAudio) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await exportAudio(renderedAudio, exportSettings);
+      downloadBlob(blob, `speech-${fileTimestamp()}.${exportSettings.format}`);
+    } catch (error) {
+      console.error('Audio export failed:', error);
+      alert(error instanceof Error ? error.message : 'Audio export failed');
+    }
+    setIsExporting(false);
+  };
+
+  const handleDownloadCaptions = () => {
+    if (!captionTimings) return;
+    try {
+      downloadBlob(captionFile(captionTimings, captionSettings), `speech-${fileTimestamp()}.${captionSettings.format}`);
+    } catch (error) {
+      console.error('Caption export failed:', error);
+      alert(error instanceof Error ? error.message : 'Caption export failed');
+    }
+  };
+
+  const handleRerun = (entry: HistoryEntry) => {
+    if (hasEngine(entry.engineId)) setEngineId(entry.engineId);
+    setInputMode(entry.inputMode);
+    setText(entry.text);
+    setSelectedVoice(entry.voiceId);
+    setVoiceSettings(entry.voiceSettings);
+    if (entry.seed !== undefined) {
+      setSeed(entry.seed);
+      setSeedLocked(true);
+    }
+    setRerunRequested(true);
+  };
+
+  // Batch items go through the same engine, options and prosody as a single generation
+  const runBatchItem: BatchRunner = async (item, signal) => {
+    if (!engine.isAvailable()) throw new Error(`${engine.label} is not available in this browser`);
+    const base = buildSynthesisOptions();
+    let voiceId = base.voiceId;
+    let note: string | undefined;
+    if (item.voice) {
+      const resolved = resolveVoice({ id: item.voice, name: item.voice, lang: item.voice }, availableVoices);
+      if (resolved && resolved.match !== 'default') voiceId = resolved.voice.id;
+      else note = `Voice "${item.voice}" was not found, so the selected voice was used`;
+    }
+
+    const options = { ...base, voiceId, pitch: item.pitch ?? base.pitch, rate: item.speed ?? base.rate };
+    if (engine.capabilities.audioOutput && engine.render) {
+      const audio = await synthesize(item.text, {
+        engine,
+        voice: voiceId,
+        pitch: options.pitch,
+        speed: options.rate,
+        variation: voiceSettings.temperature,
+        seed,
+        pronunciation: false
+      });
+      signal.throwIfAborted();
+      return { audio: encodeWavBlob(audio), duration: audio.duration * 1000, note };
+    }
+
+    const plan = planProsody(item.text, options, { variation: voiceSettings.temperature, seed });
+
+    // Speech-only engines read each item aloud, taking the engine over from the player
+    playback.stop();
+    queue.stop();
+    try {
+      await speakProsody(engine, plan, signal);
+    } catch (error) {
+      // Whatever took the engine over keeps it; the item is read again when the batch is resumed
+      if (error instanceof SpeechCancelledError) batch.pause();
+      throw error;
+    }
+    return { note };
+  };
+  const batch = useBatchQueue(runBatchItem);
+
+  const handleImportBatch = async (file: File) => {
+    try {
+      batch.load(parseBatchFile(file.name, await file.text()));
+    } catch (error) {
+      console.error('Batch import failed:', error);
+      alert(error instanceof Error ? error.message : 'Batch import failed');
+    }
+  };
+
+  const handleDownloadBatchZip = async () => {
+    try {
+      downloadBlob(await exportBatchZip(batch.jobs), `tts-batch-${fileTimestamp()}.zip`);
+    } catch (error) {
+      console.error('Batch export failed:', error);
+      alert(error instanceof Error ? error.message : 'Batch export failed');
+    }
+  };
+
+  const handleDownloadBatchReport = () => {
+    downloadBlob(new Blob([batchReportCsv(batch.jobs)], { type: 'text/csv' }), `tts-batch-report-${fileTimestamp()}.csv`);
+  };
+
+  const openDocument = (document: ImportedDocument) => {
+    setReadingDocument(document);
+    setSavedPosition(loadReadingPosition(document.id));
+    setInputMode('long');
+    setText(document.text);
+    setRerunRequested(true);
+  };
+
+  const handleImportDocument = async (file: File) => {
+    setIsImporting(true);
+    try {
+      openDocument(await importDocument(file, LONG_TEXT_MAX_CHARS));
+    } catch (error) {
+      console.error('Document import failed:', error);
+      alert(error instanceof Error ? error.message : 'Document import failed');
+    }
+    setIsImporting(false);
+  };
+
+  const isDocumentOpen = Boolean(readingDocument && longDocument?.documentId === readingDocument.id);
+  const isQueueActive = queue.status === 'playing' || queue.status === 'paused';
+  const readingChunk = isDocumentOpen && isQueueActive ? longDocument?.chunks[queue.currentIndex] : undefined;
+
+  useEffect(() => {
+    // Remember how far the open document has been read; finishing it starts the next read from the top
+    if (!readingDocument || !isDocumentOpen || (!readingChunk && queue.status !== 'finished')) return;
+    const position = {
+      title: readingDocument.title,
+      position: readingChunk?.start ?? 0,
+      length: readingDocument.text.length
+    };
+    saveReadingPosition(readingDocument.id, position);
+    setSavedPosition({ ...position, updatedAt: Date.now() });
+  }, [readingDocument, isDocumentOpen, readingChunk, queue.status]);
+
+  const handleExportLibrary = async (format: 'zip' | 'json') => {
+    try {
+      const blob = await history.exportBundle(format);
+      downloadBlob(blob, `tts-library-${fileTimestamp()}.${format}`);
+    } catch (error) {
+      console.error('Library export failed:', error);
+      alert(error instanceof Error ? error.message : 'Library export failed');
+    }
+  };
+
+  const handleImportLibrary = async (file: File) => {
+    try {
+      await history.importBundle(file);
+    } catch (error) {
+      console.error('Library import failed:', error);
+      alert(error instanceof Error ? error.message : 'Library import failed');
+    }
+  };
 
-    if (isPlaying) {
-      speechSynthesis.cancel();
-      setIsPlaying(false);
+  const handleApplyPreset = (preset: VoicePreset) => {
+    setPresetId(preset.id);
+    setVoiceSettings(preset.settings);
+    setVoiceNotice(null);
+    if (!preset.voice) return;
+    if (hasEngine(preset.engineId) && preset.engineId !== engineId) {
+      // Resolved against the new engine's voices once they load
+      voiceRequestRef.current = preset.voice;
+      setEngineId(preset.engineId);
+    } else if (availableVoices.length === 0) {
+      voiceRequestRef.current = preset.voice;
     } else {
-      // Ensure we have a fresh utterance
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.pitch = voiceSettings.pitch;
-      utterance.rate = voiceSettings.speed;
-      utterance.volume = 1.0;
-      
-      const voice = availableVoices.find(v => v.name === selectedVoice);
-      if (voice) {
-        utterance.voice = voice;
-      }
-      
-      // Add temperature variation
-      if (voiceSettings.temperature > 0.5) {
-        utterance.pitch += (Math.random() - 0.5) * 0.2 * voiceSettings.temperature;
-        utterance.rate += (Math.random() - 0.5) * 0.1 * voiceSettings.temperature;
+      selectRequestedVoice(preset.voice, availableVoices);
+    }
+  };
+
+  const handleSavePreset = (name: string) => {
+    const voice = availableVoices.find(candidate => candidate.id === selectedVoice);
+    const saved = presets.save({ name, engineId, voice: voice ? toVoiceReference(voice) : null, settings: voiceSettings });
+    setPresetId(saved.id);
+  };
+
+  const handleShare = async () => {
+    const voice = availableVoices.find(candidate => candidate.id === selectedVoice);
+    try {
+      const url = createShareUrl({
+        text,
+        inputMode,
+        engineId,
+        voice: voice ? toVoiceReference(voice) : null,
+        settings: voiceSettings,
+        seed
+      });
+      try {
+        await navigator.clipboard.writeText(url);
+      } catch {
+        prompt('Copy this link', url);
+        return false;
       }
-      
-      utterance.onstart = () => setIsPlaying(true);
-      utterance.onend = () => setIsPlaying(false);
-      utterance.onerror = () => setIsPlaying(false);
-      
-      speechSynthesis.speak(utterance);
-      utteranceRef.current = utterance;
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not create a share link');
+      return false;
     }
   };
 
-  const handleDownload = () => {
-    // For speech synthesis, we can't directly download the audio
-    // But we can provide instructions or alternative methods
-    alert('Speech synthesis audio cannot be directly downloaded. Consider using the browser\'s built-in recording features or a screen recorder to capture the audio.');
+  const normalizationPreview = useMemo(() => {
+    if (!deferredText.trim() || inputMode === 'ssml') return null;
+    return normalizer(deferredText.slice(0, NORMALIZATION_PREVIEW_CHARS));
+  }, [deferredText, inputMode, normalizer]);
+
+  const handleExportLexicon = () => {
+    downloadBlob(
+      new Blob([serializeLexicon(pronunciation.settings.entries)], { type: 'application/json' }),
+      `pronunciation-${fileTimestamp()}.json`
+    );
+  };
+
+  const handleImportLexicon = async (file: File) => {
+    try {
+      pronunciation.importEntries(parseLexiconFile(await file.text()));
+    } catch (error) {
+      console.error('Dictionary import failed:', error);
+      alert(error instanceof Error ? error.message : 'Dictionary import failed');
+    }
   };
 
-  const maxChars = 1000;
+  const voiceLanguageCount = useMemo(
+    () => new Set(availableVoices.map(voice => baseLanguage(voice.lang))).size,
+    [availableVoices]
+  );
+
+  const lastMeasurement = metrics.measurements[metrics.measurements.length - 1];
+  const maxChars = inputMode === 'standard' ? STANDARD_MAX_CHARS : LONG_TEXT_MAX_CHARS;
   const charCount = text.length;
 
+  // Dictated phrases go in at the cursor, spaced from the text around them
+  const insertDictation = (spoken: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? text.length;
+    const end = textarea?.selectionEnd ?? start;
+    setText((prev) => {
+      const before = prev.slice(0, Math.min(start, prev.length));
+      const after = prev.slice(Math.min(end, prev.length));
+      const inserted = `${before && !/\s$/.test(before) ? ' ' : ''}${spoken}${after && !/^\s/.test(after) ? ' ' : ''}`;
+      return (before + inserted + after).slice(0, maxChars);
+    });
+  };
+  const dictationRecognizer = useMemo(
+    () => recognizers.find(recognizer => recognizer.capabilities.microphone && recognizer.isAvailable()) ?? null,
+    [recognizers]
+  );
+  const dictation = useDictation(dictationRecognizer, insertDictation);
+
+  const handleVerify = () => {
+    if (!playbackSource) return;
+    // A looping take never ends, so the check would never finish
+    playback.setLoop(false);
+    roundTrip.start(getRecognizer(recognizerId), {
+      source: playbackSource.text,
+      spokenText: normalizer(playbackSource.text).text,
+      lang: availableVoices.find(voice => voice.id === selectedVoice)?.lang
+    }, playback.restart);
+  };
+
+  const handleCancelVerify = () => {
+    roundTrip.cancel();
+    playback.stop();
+  };
+
+  const hasPronunciationFix = (word: string) => pronunciation.settings.entries.some(
+    entry => entry.match === 'word' && entry.pattern.trim().toLowerCase() === word.toLowerCase()
+  );
+
+  const ssmlError = useMemo(() => {
+    if (inputMode !== 'ssml' || !text.trim()) return null;
+    try {
+      parseSsml(text);
+      return null;
+    } catch (error) {
+      return error instanceof SsmlSyntaxError ? error : null;
+    }
+  }, [inputMode, text]);
+
+  const scriptTurns = useMemo(() => inputMode === 'script' ? parseScript(text) : [], [inputMode, text]);
+  const speakers = useMemo(() => listSpeakers(scriptTurns), [scriptTurns]);
+  const resolvedCast = useMemo(() => resolveCast(speakers, cast, availableVoices), [speakers, cast, availableVoices]);
+  const turnCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    scriptTurns.forEach(turn => { counts[turn.speaker] = (counts[turn.speaker] ?? 0) + 1; });
+    return counts;
+  }, [scriptTurns]);
+
+  const handlePreviewSpeaker = (speaker: string) => {
+    const member = resolvedCast[speaker];
+    const line = scriptTurns.find(turn => turn.speaker === speaker)?.text ?? `This is ${speaker}.`;
+    engine.cancel();
+    engine.speak(line, { voiceId: member.voiceId || undefined, pitch: member.pitch, rate: member.speed, volume: 1.0 });
+  };
+
+  const handleExportCast = () => {
+    const file: CastFile = { version: 1, turnGap, cast: resolvedCast };
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `cast-${fileTimestamp()}.json`);
+  };
+
+  const handleImportCast = async (file: File) => {
+    try {
+      const imported = parseCastFile(await file.text());
+      setCast(prev => ({ ...prev, ...imported.cast }));
+      setTurnGap(imported.turnGap);
+    } catch (error) {
+      console.error('Cast import failed:', error);
+      alert(error instanceof Error ? error.message : 'Cast import failed');
+    }
+  };
+
+  const showSsmlError = () => {
+    if (!ssmlError || !textareaRef.current) return;
+    textareaRef.current.focus();
+    textareaRef.current.setSelectionRange(ssmlError.offset, ssmlError.offset + 1);
+  };
+
+  const canGenerate = Boolean(text.trim()) && charCount <= maxChars && !ssmlError && !isGenerating;
+
+  // The reader takes the engine over, like the batch runner does
+  const openReader = () => {
+    playback.stop();
+    queue.stop();
+    setIsSettingsOpen(false);
+    setIsReaderOpen(true);
+  };
+
+  useKeyboardShortcuts({
+    g: () => {
+      if (canGenerate) handleGenerate();
+    },
+    '/': () => textareaRef.current?.focus(),
+    d: () => {
+      if (!dictationRecognizer) return;
+      if (dictation.isListening) dictation.stop();
+      else dictation.start(navigator.language);
+    },
+    e: openReader,
+    ',': () => setIsSettingsOpen(true),
+    '?': () => setIsSettingsOpen(true)
+  }, !isDialogOpen);
+
+  // Changes are announced, the state the page loads in is not
+  const announcedRef = useRef({ playback: playback.state, queue: queue.status, dictation: dictation.isListening });
+  useEffect(() => {
+    if (announcedRef.current.playback === playback.state) return;
+    announcedRef.current.playback = playback.state;
+    const label = PLAYBACK_LABELS[playback.state];
+    if (playback.state === 'error') announce(playback.error ? `${label}: ${playback.error}` : label, true);
+    else announce(label);
+  }, [playback.state, playback.error, announce]);
+
+  useEffect(() => {
+    if (announcedRef.current.queue === queue.status) return;
+    announcedRef.current.queue = queue.status;
+    announce(QUEUE_LABELS[queue.status]);
+  }, [queue.status, announce]);
+
+  useEffect(() => {
+    if (announcedRef.current.dictation === dictation.isListening) return;
+    announcedRef.current.dictation = dictation.isListening;
+    announce(dictation.isListening ? 'Dictation on' : 'Dictation off');
+  }, [dictation.isListening, announce]);
+
+  useEffect(() => {
+    if (dictation.error) announce(dictation.error, true);
+  }, [dictation.error, announce]);
+
+  useEffect(() => {
+    const report = roundTrip.report;
+    if (report) announce(`Round-trip check: ${Math.round(report.accuracy * 100)}% of words recognized, ${report.flagged.length} flagged`);
+  }, [roundTrip.report, announce]);
+
+  useEffect(() => {
+    if (roundTrip.error) announce(roundTrip.error, true);
+  }, [roundTrip.error, announce]);
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900">
+    <div className="min-h-screen bg-gradient-to-br from-surface via-surface-accent to-surface">
+      <LiveRegion announcement={announcement} />
+
       {/* Header */}
       <div className="bg-white/5 backdrop-blur-sm border-b border-white/10">
         <div className="max-w-7xl mx-auto px-6 py-4">
@@ -198,15 +924,32 @@ function App() {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-white">Advanced TTS</h1>
-                <p className="text-sm text-blue-200">Browser Speech Synthesis • Real-time Processing</p>
+                <p className="text-sm text-blue-200">{engine.label} • Real-time Processing</p>
               </div>
             </div>
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2 text-sm">
                 <Activity className="w-4 h-4 text-green-400" />
-                <span className="text-white">GPU: {gpuUtilization.toFixed(0)}%</span>
+                <span className="text-white" title="Average time to first audio this session">
+                  TTFA: {formatMs(metrics.summary.averageTimeToFirstAudio)}
+                </span>
               </div>
-              <button className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+              <button
+                onClick={openReader}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                aria-label="Reader mode"
+                aria-haspopup="dialog"
+                title="Reader mode (E)"
+              >
+                <BookOpenText className="w-5 h-5 text-gray-300" />
+              </button>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                aria-label="Settings"
+                aria-haspopup="dialog"
+                title="Settings (,)"
+              >
                 <Settings className="w-5 h-5 text-gray-300" />
               </button>
             </div>
@@ -225,18 +968,73 @@ function App() {
                   <FileAudio className="w-5 h-5 mr-2 text-blue-400" />
                   Text Input
                 </h2>
-                <span className={`text-sm ${charCount > maxChars * 0.9 ? 'text-orange-400' : 'text-gray-400'}`}>
-                  {charCount}/{maxChars}
-                </span>
+                <div className="flex items-center space-x-4">
+                  <button
+                    onClick={dictation.isListening ? dictation.stop : () => dictation.start(navigator.language)}
+                    disabled={!dictationRecognizer}
+                    className={`p-2 rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      dictation.isListening
+                        ? 'bg-red-500/20 border-red-400/50 text-red-200 animate-pulse'
+                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                    }`}
+                    aria-pressed={dictation.isListening}
+                    title={!dictationRecognizer
+                      ? 'Speech recognition is not supported in this browser'
+                      : dictation.isListening ? 'Stop dictation (D)' : 'Dictate into the text (D)'}
+                  >
+                    {dictation.isListening ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                  </button>
+                  <div className="flex bg-white/5 rounded-lg p-1 border border-white/10">
+                    {INPUT_MODES.map((mode) => (
+                      <button
+                        key={mode.id}
+                        onClick={() => setInputMode(mode.id)}
+                        className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                          inputMode === mode.id ? 'bg-blue-500 text-white' : 'text-gray-300 hover:bg-white/10'
+                        }`}
+                      >
+                        {mode.label}
+                      </button>
+                    ))}
+                  </div>
+                  <span className={`text-sm ${charCount > maxChars * 0.9 ? 'text-orange-400' : 'text-gray-400'}`}>
+                    {charCount.toLocaleString()}/{maxChars.toLocaleString()}
+                  </span>
+                </div>
               </div>
               
               <textarea
+                ref={textareaRef}
                 value={text}
                 onChange={(e) => setText(e.target.value.slice(0, maxChars))}
-                placeholder="Enter your text here to generate natural, expressive speech using advanced browser-based text-to-speech technology..."
-                className="w-full h-32 bg-white/5 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter' || !(e.ctrlKey || e.metaKey)) return;
+                  e.preventDefault();
+                  if (canGenerate) handleGenerate();
+                }}
+                aria-label="Text to speak"
+                placeholder={PLACEHOLDERS[inputMode]}
+                spellCheck={inputMode !== 'ssml'}
+                className={`w-full ${inputMode === 'standard' ? 'h-32' : 'h-72'} ${inputMode === 'ssml' ? 'font-mono text-sm' : ''} bg-white/5 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all`}
                 maxLength={maxChars}
               />
+
+              {(dictation.interim || dictation.error) && (
+                <p className={`mt-2 text-sm ${dictation.error ? 'text-red-300' : 'text-gray-400 italic'}`}>
+                  {dictation.error ?? dictation.interim}
+                </p>
+              )}
+
+              {ssmlError && (
+                <div className="mt-2 flex items-center justify-between text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">
+                  <span>
+                    Line {ssmlError.line}, column {ssmlError.column}: {ssmlError.message}
+                  </span>
+                  <button onClick={showSsmlError} className="text-xs underline hover:text-red-200">
+                    Show
+                  </button>
+                </div>
+              )}
               
               <div className="flex items-center justify-between mt-4">
                 <div className="flex items-center space-x-4 text-sm text-gray-400">
@@ -248,11 +1046,25 @@ function App() {
                     <Cpu className="w-4 h-4 mr-1 text-green-400" />
                     Browser optimized
                   </span>
+                  <button
+                    onClick={() => {
+                      autoLanguageRef.current = null;
+                      setAutoLanguage(prev => !prev);
+                    }}
+                    className={`flex items-center hover:text-white transition-colors ${autoLanguage ? '' : 'line-through opacity-60'}`}
+                    title={autoLanguage
+                      ? 'Voices follow the detected language. Click to turn off.'
+                      : 'Automatic language detection is off. Click to turn on.'}
+                  >
+                    <Languages className="w-4 h-4 mr-1 text-blue-400" />
+                    {detectedLanguage ? languageLabel(detectedLanguage) : 'Auto language'}
+                  </button>
                 </div>
                 
                 <button
                   onClick={handleGenerate}
-                  disabled={!text.trim() || isGenerating}
+                  disabled={!canGenerate}
+                  title="Generate speech (G or Ctrl+Enter)"
                   className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl font-medium hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center space-x-2"
                 >
                   {isGenerating ? (
@@ -270,6 +1082,35 @@ function App() {
               </div>
             </div>
 
+            {/* Documents */}
+            <DocumentPanel
+              document={readingDocument}
+              isImporting={isImporting}
+              isOpen={isDocumentOpen}
+              position={readingChunk ? spokenCharIndex ?? readingChunk.start : null}
+              saved={savedPosition}
+              onImport={handleImportDocument}
+              onOpen={() => readingDocument && openDocument(readingDocument)}
+              onJump={queue.playFromPosition}
+              onClose={() => setReadingDocument(null)}
+            />
+
+            {/* Dialogue Casting */}
+            {inputMode === 'script' && (
+              <CastingPanel
+                speakers={speakers}
+                cast={resolvedCast}
+                voices={availableVoices}
+                turnCounts={turnCounts}
+                turnGap={turnGap}
+                onCastChange={(speaker, member) => setCast(prev => ({ ...prev, [speaker]: member }))}
+                onTurnGapChange={setTurnGap}
+                onPreview={handlePreviewSpeaker}
+                onExport={handleExportCast}
+                onImport={handleImportCast}
+              />
+            )}
+
             {/* Progress Bar */}
             {isGenerating && (
               <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
@@ -277,7 +1118,14 @@ function App() {
                   <span className="text-sm text-white">Processing speech synthesis...</span>
                   <span className="text-sm text-blue-400">{progress.toFixed(0)}%</span>
                 </div>
-                <div className="w-full bg-white/20 rounded-full h-2">
+                <div
+                  className="w-full bg-white/20 rounded-full h-2"
+                  role="progressbar"
+                  aria-label="Speech synthesis"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(progress)}
+                >
                   <div 
                     className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
                     style={{ width: `${progress}%` }}
@@ -286,6 +1134,17 @@ function App() {
               </div>
             )}
 
+            {/* Long Document Queue */}
+            {longDocument && (
+              <LongDocumentPanel
+                title={longDocument.title}
+                chunks={longDocument.chunks}
+                paragraphs={longDocument.paragraphs}
+                queue={queue}
+                liveAudio={engine.capabilities.audioOutput}
+              />
+            )}
+
             {/* Audio Player */}
             {audioUrl && (
               <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
@@ -296,46 +1155,267 @@ function App() {
                   </h3>
                   <div className="flex items-center space-x-2 text-sm text-gray-400">
                     <Clock className="w-4 h-4" />
-                    <span>{inferenceTime.toFixed(1)}s</span>
+                    <span title="Time to first audio of the last request">{formatMs(lastMeasurement?.timeToFirstAudio ?? null)}</span>
                   </div>
                 </div>
                 
                 <div className="flex items-center space-x-4">
                   <button
-                    onClick={handlePlayPause}
+                    onClick={playback.toggle}
                     className="p-3 bg-gradient-to-r from-purple-500 to-pink-600 text-white rounded-full hover:from-purple-600 hover:to-pink-700 transition-all"
+                    title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
                   >
                     {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
                   </button>
                   
-                  <div className="flex-1 h-12 bg-white/10 rounded-lg flex items-center px-4">
-                    <div className="flex-1 flex items-center space-x-1">
-                      {Array.from({ length: 40 }).map((_, i) => (
-                        <div
-                          key={i}
-                          className={`w-1 bg-gradient-to-t from-purple-500 to-blue-400 rounded-full transition-all duration-150 ${
-                            isPlaying ? 'animate-pulse' : ''
-                          }`}
-                          style={{
-                            height: `${Math.random() * 20 + 10}px`,
-                            animationDelay: `${i * 50}ms`
-                          }}
-                        />
-                      ))}
-                    </div>
-                  </div>
+                  <AudioVisualizer
+                    audio={renderedAudio}
+                    mediaRef={audioRef}
+                    isPlaying={isPlaying}
+                    textProgress={spokenText && spokenCharIndex !== null ? spokenCharIndex / spokenText.length : null}
+                    onSeekTime={playback.seekToTime}
+                    onSeekText={handleSeekText}
+                  />
                   
                   <button 
                     onClick={handleDownload}
-                    className="p-3 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20"
-                    title="Download not available for browser speech synthesis"
+                    disabled={!renderedAudio || isExporting}
+                    className="p-3 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={renderedAudio
+                      ? `Download ${FORMAT_LABELS[exportSettings.format]}`
+                      : 'Switch to an engine with audio export to download'}
+                  >
+                    {isExporting ? (
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    ) : (
+                      <Download className="w-5 h-5" />
+                    )}
+                  </button>
+
+                  <button
+                    onClick={handleDownloadCaptions}
+                    disabled={!captionTimings}
+                    className="p-3 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={captionTimings
+                      ? `Download ${CAPTION_FORMAT_LABELS[captionSettings.format]} captions`
+                      : 'Play the speech through once to time the captions'}
+                  >
+                    <Captions className="w-5 h-5" />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <button
+                    onClick={playback.previousSentence}
+                    className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20"
+                    title="Previous sentence (←)"
+                  >
+                    <SkipBack className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={playback.stop}
+                    disabled={playback.state === 'idle'}
+                    className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20 disabled:opacity-50"
+                    title="Stop (Esc)"
+                  >
+                    <Square className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={playback.nextSentence}
+                    className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20"
+                    title="Next sentence (→)"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={playback.restart}
+                    className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20"
+                    title="Restart (R)"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => playback.setLoop(!playback.loop)}
+                    aria-pressed={playback.loop}
+                    className={`p-2 rounded-full transition-colors border ${
+                      playback.loop ? 'bg-blue-500/30 border-blue-400/50 text-blue-200' : 'bg-white/10 hover:bg-white/20 border-white/20 text-white'
+                    }`}
+                    title="Loop (L)"
                   >
-                    <Download className="w-5 h-5" />
+                    <Repeat className="w-4 h-4" />
                   </button>
+                  <span
+                    className={`ml-auto text-xs ${playback.state === 'error' ? 'text-red-300' : 'text-gray-400'}`}
+                    title={playback.error ?? undefined}
+                  >
+                    {PLAYBACK_LABELS[playback.state]}{playback.error ? `: ${playback.error}` : ''}
+                  </span>
+                </div>
+
+                <audio
+                  ref={audioRef}
+                  src={renderedAudio ? audioUrl : undefined}
+                  className="hidden"
+                />
+
+                <LiveSpectrum active={isPlaying} available={engine.capabilities.audioOutput} />
+
+                {/* Export Settings */}
+                {renderedAudio && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                    <div>
+                      <label htmlFor="export-format" className="block text-xs font-medium text-gray-300 mb-1">Format</label>
+                      <select
+                        id="export-format"
+                        value={exportSettings.format}
+                        onChange={(e) => setExportSettings(prev => ({ ...prev, format: e.target.value as ExportFormat }))}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {supportedFormats.map((format) => (
+                          <option key={format} value={format} className="bg-slate-800">
+                            {FORMAT_LABELS[format]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="export-sample-rate" className="block text-xs font-medium text-gray-300 mb-1">Sample Rate</label>
+                      <select
+                        id="export-sample-rate"
+                        value={exportSettings.sampleRate}
+                        onChange={(e) => setExportSettings(prev => ({ ...prev, sampleRate: Number(e.target.value) }))}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {SAMPLE_RATES.map((rate) => (
+                          <option key={rate} value={rate} className="bg-slate-800">
+                            {(rate / 1000).toFixed(rate % 1000 ? 2 : 0)} kHz
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="export-bit-depth" className="block text-xs font-medium text-gray-300 mb-1">Bit Depth</label>
+                      <select
+                        id="export-bit-depth"
+                        value={exportSettings.bitDepth}
+                        onChange={(e) => setExportSettings(prev => ({ ...prev, bitDepth: Number(e.target.value) as BitDepth }))}
+                        disabled={exportSettings.format !== 'wav'}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      >
+                        {BIT_DEPTHS.map((depth) => (
+                          <option key={depth} value={depth} className="bg-slate-800">
+                            {depth}-bit{depth === 32 ? ' float' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+
+                {/* Caption Settings */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                  <div>
+                    <label htmlFor="caption-format" className="block text-xs font-medium text-gray-300 mb-1">Captions</label>
+                    <select
+                      id="caption-format"
+                      value={captionSettings.format}
+                      onChange={(e) => setCaptionSettings(prev => ({ ...prev, format: e.target.value as CaptionFormat }))}
+                      className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(CAPTION_FORMAT_LABELS) as CaptionFormat[]).map((format) => (
+                        <option key={format} value={format} className="bg-slate-800">
+                          {CAPTION_FORMAT_LABELS[format]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="caption-max-cue" className="block text-xs font-medium text-gray-300 mb-1">Max Cue (s)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={20}
+                      step={0.5}
+                      id="caption-max-cue"
+                      value={captionSettings.maxCueDuration}
+                      onChange={(e) => setCaptionSettings(prev => ({ ...prev, maxCueDuration: Math.max(1, Number(e.target.value) || 1) }))}
+                      className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="caption-line-length" className="block text-xs font-medium text-gray-300 mb-1">Line Length</label>
+                    <input
+                      type="number"
+                      min={10}
+                      max={80}
+                      id="caption-line-length"
+                      value={captionSettings.maxLineLength}
+                      onChange={(e) => setCaptionSettings(prev => ({ ...prev, maxLineLength: Math.max(10, Number(e.target.value) || 10) }))}
+                      className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="caption-lines" className="block text-xs font-medium text-gray-300 mb-1">Lines per Cue</label>
+                    <select
+                      id="caption-lines"
+                      value={captionSettings.maxLines}
+                      onChange={(e) => setCaptionSettings(prev => ({ ...prev, maxLines: Number(e.target.value) }))}
+                      className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {[1, 2, 3].map((lines) => (
+                        <option key={lines} value={lines} className="bg-slate-800">{lines}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <label className="col-span-2 md:col-span-4 flex items-center space-x-2 text-xs text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={captionSettings.wordTimings}
+                      onChange={(e) => setCaptionSettings(prev => ({ ...prev, wordTimings: e.target.checked }))}
+                      disabled={captionSettings.format === 'srt'}
+                      className="accent-blue-500"
+                    />
+                    <span>Word-level timings (WebVTT and JSON)</span>
+                  </label>
                 </div>
               </div>
             )}
 
+            {/* Round-trip Check */}
+            {playbackSource && (
+              <RoundTripPanel
+                recognizers={recognizers}
+                recognizerId={recognizerId}
+                status={roundTrip.status}
+                report={roundTrip.report}
+                error={roundTrip.error}
+                onRecognizerChange={setRecognizerId}
+                onVerify={handleVerify}
+                onCancel={handleCancelVerify}
+                onPlayWord={playback.seekToChar}
+                hasFix={hasPronunciationFix}
+                onAddFix={(word, replacement) => pronunciation.addEntry({ pattern: word, replacement })}
+              />
+            )}
+
+            {/* Read Along */}
+            {spokenText && (audioUrl || longDocument) && (
+              <ReadAlongView
+                text={spokenText}
+                activeCharIndex={spokenCharIndex}
+                onWordClick={handleWordClick}
+              />
+            )}
+
+            {/* Batch */}
+            <BatchPanel
+              batch={batch}
+              rendersAudio={engine.capabilities.audioOutput}
+              onImport={handleImportBatch}
+              onDownloadZip={handleDownloadBatchZip}
+              onDownloadReport={handleDownloadBatchReport}
+            />
+
             {/* Voice Settings */}
             <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
               <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
@@ -343,68 +1423,116 @@ function App() {
                 Voice Parameters
               </h3>
               
+              <PresetBar
+                presets={presets.presets}
+                selectedId={presetId}
+                onApply={handleApplyPreset}
+                onSave={handleSavePreset}
+                onDelete={presets.remove}
+                onShare={handleShare}
+              />
+
               {/* Voice Selection */}
               {availableVoices.length > 0 && (
                 <div className="mb-6">
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Voice</label>
-                  <select
+                  <label htmlFor="voice-select" className="block text-sm font-medium text-gray-300 mb-2">Voice</label>
+                  <VoiceSelect
+                    id="voice-select"
+                    voices={availableVoices}
                     value={selectedVoice}
-                    onChange={(e) => setSelectedVoice(e.target.value)}
-                    className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    {availableVoices.map((voice) => (
-                      <option key={voice.name} value={voice.name} className="bg-slate-800">
-                        {voice.name} ({voice.lang})
-                      </option>
-                    ))}
-                  </select>
+                    onChange={(voiceId) => {
+                      setSelectedVoice(voiceId);
+                      setVoiceNotice(null);
+                    }}
+                  />
+                  {voiceNotice && <p className="text-xs text-orange-300 mt-2">{voiceNotice}</p>}
                 </div>
               )}
               
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Pitch</label>
-                  <input
-                    type="range"
-                    min="0.5"
-                    max="2.0"
-                    step="0.1"
-                    value={voiceSettings.pitch}
-                    onChange={(e) => setVoiceSettings(prev => ({ ...prev, pitch: parseFloat(e.target.value) }))}
-                    className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer slider"
-                  />
-                  <span className="text-xs text-gray-400">{voiceSettings.pitch.toFixed(1)}</span>
-                </div>
-                
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Speed</label>
-                  <input
-                    type="range"
-                    min="0.5"
-                    max="2.0"
-                    step="0.1"
-                    value={voiceSettings.speed}
-                    onChange={(e) => setVoiceSettings(prev => ({ ...prev, speed: parseFloat(e.target.value) }))}
-                    className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer slider"
-                  />
-                  <span className="text-xs text-gray-400">{voiceSettings.speed.toFixed(1)}</span>
-                </div>
-                
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Variation</label>
+                <ParameterSlider
+                  label="Pitch"
+                  min={VOICE_SETTING_RANGES.pitch.min}
+                  max={VOICE_SETTING_RANGES.pitch.max}
+                  step={0.1}
+                  value={voiceSettings.pitch}
+                  onChange={(pitch) => setVoiceSettings(prev => ({ ...prev, pitch }))}
+                />
+                <ParameterSlider
+                  label="Speed"
+                  min={VOICE_SETTING_RANGES.speed.min}
+                  max={VOICE_SETTING_RANGES.speed.max}
+                  step={0.1}
+                  value={voiceSettings.speed}
+                  onChange={(speed) => setVoiceSettings(prev => ({ ...prev, speed }))}
+                />
+                <ParameterSlider
+                  label="Variation"
+                  min={VOICE_SETTING_RANGES.temperature.min}
+                  max={VOICE_SETTING_RANGES.temperature.max}
+                  step={0.1}
+                  value={voiceSettings.temperature}
+                  onChange={(temperature) => setVoiceSettings(prev => ({ ...prev, temperature }))}
+                />
+              </div>
+
+              <div className="mt-6">
+                <label htmlFor="variation-seed" className="block text-sm font-medium text-gray-300 mb-2">Variation seed</label>
+                <div className="flex items-center space-x-2">
                   <input
-                    type="range"
-                    min="0.1"
-                    max="1.0"
-                    step="0.1"
-                    value={voiceSettings.temperature}
-                    onChange={(e) => setVoiceSettings(prev => ({ ...prev, temperature: parseFloat(e.target.value) }))}
-                    className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer slider"
+                    type="number"
+                    min={0}
+                    id="variation-seed"
+                    max={MAX_SEED}
+                    value={seed}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (!Number.isInteger(value) || value < 0 || value > MAX_SEED) return;
+                      setSeed(value);
+                      setSeedLocked(true);
+                    }}
+                    className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
-                  <span className="text-xs text-gray-400">{voiceSettings.temperature.toFixed(1)}</span>
+                  <button
+                    onClick={() => setSeedLocked(prev => !prev)}
+                    aria-pressed={seedLocked}
+                    className={`p-2 rounded-lg transition-colors ${seedLocked ? 'text-blue-300 bg-blue-500/20' : 'text-gray-400 hover:bg-white/10'}`}
+                    title={seedLocked ? 'Seed locked: every generation uses this variation' : 'Seed unlocked: every generation rolls a new variation'}
+                  >
+                    {seedLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setSeed(randomSeed());
+                      setSeedLocked(true);
+                    }}
+                    className="p-2 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Roll a new seed"
+                  >
+                    <Dices className="w-4 h-4" />
+                  </button>
                 </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  Variation shapes pitch and speed phrase by phrase, with rising questions and lively exclamations.
+                  Mark words as *important* to stress them.
+                </p>
               </div>
             </div>
+
+            {/* Pronunciation */}
+            <PronunciationPanel
+              settings={pronunciation.settings}
+              preview={normalizationPreview}
+              previewSource={deferredText}
+              previewTruncated={deferredText.length > NORMALIZATION_PREVIEW_CHARS}
+              onEnabledChange={pronunciation.setEnabled}
+              onToggleBuiltIn={pronunciation.toggleBuiltIn}
+              onAddEntry={() => pronunciation.addEntry()}
+              onUpdateEntry={pronunciation.updateEntry}
+              onRemoveEntry={pronunciation.removeEntry}
+              onExport={handleExportLexicon}
+              onImport={handleImportLexicon}
+            />
           </div>
 
           {/* Sidebar - Model Info & Stats */}
@@ -417,72 +1545,73 @@ function App() {
               </h3>
               
               <div className="space-y-4">
+                <div>
+                  <label htmlFor="engine-select" className="block text-sm font-medium text-gray-300 mb-2">Engine</label>
+                  <select
+                    id="engine-select"
+                    value={engineId}
+                    onChange={(e) => setEngineId(e.target.value)}
+                    className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {listEngines().map((option) => (
+                      <option key={option.id} value={option.id} disabled={!option.isAvailable()} className="bg-slate-800">
+                        {option.label}{option.isAvailable() ? '' : ' (unavailable)'}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-400 mt-2">{engine.description}</p>
+                </div>
                 <div className="flex justify-between items-center py-2 border-b border-white/10">
-                  <span className="text-gray-300">Technology</span>
-                  <span className="text-white font-medium">Speech Synthesis</span>
+                  <span className="text-gray-300">Voices</span>
+                  <span className="text-white font-medium">{availableVoices.length} Available</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-white/10">
-                  <span className="text-gray-300">Platform</span>
-                  <span className="text-white font-medium">Browser Native</span>
+                  <span className="text-gray-300">Languages</span>
+                  <span className="text-white font-medium">{voiceLanguageCount}</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-white/10">
-                  <span className="text-gray-300">Voices</span>
-                  <span className="text-white font-medium">{availableVoices.length} Available</span>
+                  <span className="text-gray-300">Pause/Resume</span>
+                  <span className="text-white font-medium">{engine.capabilities.pauseResume ? 'Yes' : 'No'}</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-white/10">
-                  <span className="text-gray-300">Quality</span>
-                  <span className="text-white font-medium">High Fidelity</span>
+                  <span className="text-gray-300">Audio Export</span>
+                  <span className="text-white font-medium">{engine.capabilities.audioOutput ? 'Yes' : 'No'}</span>
                 </div>
                 <div className="flex justify-between items-center py-2">
-                  <span className="text-gray-300">Latency</span>
-                  <span className="text-white font-medium">Real-time</span>
+                  <span className="text-gray-300">Offline</span>
+                  <span className="text-white font-medium">{engine.capabilities.offline ? 'Yes' : 'No'}</span>
                 </div>
               </div>
             </div>
 
             {/* Performance Metrics */}
-            <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
-              <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
-                <BarChart3 className="w-5 h-5 mr-2 text-green-400" />
-                Performance
-              </h3>
-              
-              <div className="space-y-4">
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-gray-300">Processing Load</span>
-                    <span className="text-white font-medium">{gpuUtilization.toFixed(0)}%</span>
-                  </div>
-                  <div className="w-full bg-white/20 rounded-full h-2">
-                    <div 
-                      className="bg-gradient-to-r from-green-500 to-emerald-400 h-2 rounded-full transition-all duration-1000"
-                      style={{ width: `${gpuUtilization}%` }}
-                    />
-                  </div>
-                </div>
-                
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-gray-300">Memory Usage</span>
-                    <span className="text-white font-medium">Low</span>
-                  </div>
-                  <div className="w-full bg-white/20 rounded-full h-2">
-                    <div className="bg-gradient-to-r from-blue-500 to-cyan-400 h-2 rounded-full w-[25%]" />
-                  </div>
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4 pt-2">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-white">{inferenceTime.toFixed(1)}s</div>
-                    <div className="text-xs text-gray-400">Processing Time</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-white">99.5%</div>
-                    <div className="text-xs text-gray-400">Reliability</div>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <PerformancePanel
+              measurements={metrics.measurements}
+              summary={metrics.summary}
+              onExportJson={() => downloadBlob(
+                new Blob([metricsToJson(metrics.measurements)], { type: 'application/json' }),
+                `tts-metrics-${fileTimestamp()}.json`
+              )}
+              onExportCsv={() => downloadBlob(
+                new Blob([metricsToCsv(metrics.measurements)], { type: 'text/csv' }),
+                `tts-metrics-${fileTimestamp()}.csv`
+              )}
+              onClear={metrics.clear}
+            />
+
+            {/* History */}
+            <HistoryPanel
+              entries={history.entries}
+              projects={history.projects}
+              isAvailable={history.isAvailable}
+              onRerun={handleRerun}
+              onUpdate={history.update}
+              onDelete={history.remove}
+              onCreateProject={history.createProject}
+              onDeleteProject={history.removeProject}
+              onExport={handleExportLibrary}
+              onImport={handleImportLibrary}
+            />
 
             {/* Features */}
             <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
@@ -507,13 +1636,33 @@ function App() {
                 </div>
                 <div className="flex items-center space-x-3">
                   <div className="w-2 h-2 bg-pink-400 rounded-full" />
-                  <span className="text-gray-300 text-sm">Zero latency playback</span>
+                  <span className="text-gray-300 text-sm">Measured latency telemetry</span>
                 </div>
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={accessibility.settings}
+          shortcuts={KEYBOARD_SHORTCUTS}
+          onChange={accessibility.update}
+          onOpenReader={openReader}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isReaderOpen && (
+        <ReaderMode
+          engine={engine}
+          options={buildSynthesisOptions()}
+          variation={voiceSettings.temperature}
+          seed={seed}
+          onClose={() => setIsReaderOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,92 @@
+import type { RenderedAudio } from '../engines';
+import { encodeWav, resample } from './wav';
+import type { BitDepth } from './wav';
+
+export type ExportFormat = 'wav' | 'mp3' | 'ogg' | 'webm';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  sampleRate: number;
+  /** Only used by WAV; compressed formats pick their own sample format */
+  bitDepth: BitDepth;
+}
+
+export const SAMPLE_RATES = [8000, 16000, 22050, 44100, 48000];
+export const BIT_DEPTHS: BitDepth[] = [8, 16, 24, 32];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  sampleRate: 44100,
+  bitDepth: 16
+};
+
+// Compressed formats are encoded by the browser's MediaRecorder
+const RECORDER_MIME_TYPES: Record<Exclude<ExportFormat, 'wav'>, string[]> = {
+  mp3: ['audio/mpeg'],
+  ogg: ['audio/ogg;codecs=opus', 'audio/ogg'],
+  webm: ['audio/webm;codecs=opus', 'audio/webm']
+};
+
+export const FORMAT_LABELS: Record<ExportFormat, string> = {
+  wav: 'WAV (uncompressed)',
+  mp3: 'MP3',
+  ogg: 'OGG Opus',
+  webm: 'WebM Opus'
+};
+
+const recorderMimeType = (format: Exclude<ExportFormat, 'wav'>) => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return RECORDER_MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type));
+};
+
+/** Formats this browser can produce, WAV always first */
+export function getSupportedFormats(): ExportFormat[] {
+  const compressed = (['mp3', 'ogg', 'webm'] as const).filter(format => recorderMimeType(format));
+  return ['wav', ...compressed];
+}
+
+export function encodeWavBlob(audio: RenderedAudio, sampleRate = audio.sampleRate, bitDepth: BitDepth = 16): Blob {
+  const samples = resample(audio.samples, audio.sampleRate, sampleRate);
+  return new Blob([encodeWav(samples, sampleRate, bitDepth)], { type: 'audio/wav' });
+}
+
+// MediaRecorder encodes in real time, so this takes as long as the clip
+async function encodeWithRecorder(audio: RenderedAudio, sampleRate: number, mimeType: string): Promise<Blob> {
+  const context = new AudioContext({ sampleRate });
+  try {
+    const buffer = context.createBuffer(1, audio.samples.length, audio.sampleRate);
+    buffer.copyToChannel(audio.samples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+
+    const finished = new Promise<Blob>((resolve, reject) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType }));
+      recorder.onerror = () => reject(new Error(`Encoding to ${mimeType} failed`));
+    });
+    source.onended = () => recorder.stop();
+
+    recorder.start();
+    source.start();
+    return await finished;
+  } finally {
+    context.close();
+  }
+}
+
+export async function exportAudio(audio: RenderedAudio, settings: ExportSettings): Promise<Blob> {
+  if (settings.format === 'wav') {
+    return encodeWavBlob(audio, settings.sampleRate, settings.bitDepth);
+  }
+
+  const mimeType = recorderMimeType(settings.format);
+  if (!mimeType) {
+    throw new Error(`${FORMAT_LABELS[settings.format]} export is not supported in this browser`);
+  }
+  return encodeWithRecorder(audio, settings.sampleRate, mimeType);
+}
@@ -0,0 +1,40 @@
+// Shared Web Audio output. Everything the app plays through Web Audio goes
+// through one AnalyserNode, so visualizers can follow whatever is sounding.
+
+let context: AudioContext | null = null;
+let analyser: AnalyserNode | null = null;
+const mediaSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+export function getAudioContext(): AudioContext {
+  context = context ?? new AudioContext();
+  return context;
+}
+
+/** The node sources should connect to instead of the destination */
+export function getOutputNode(): AnalyserNode {
+  if (!analyser) {
+    const ctx = getAudioContext();
+    analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    analyser.smoothingTimeConstant = 0.75;
+    analyser.connect(ctx.destination);
+  }
+  return analyser;
+}
+
+/** The analyser, if anything has been routed through Web Audio yet */
+export const getOutputAnalyser = () => analyser;
+
+/**
+ * Route a media element through the shared output. An element can only be
+ * captured once, so repeat calls are no-ops.
+ */
+export function routeMediaElement(element: HTMLMediaElement) {
+  if (mediaSources.has(element)) return;
+  const ctx = getAudioContext();
+  const source = ctx.createMediaElementSource(element);
+  source.connect(getOutputNode());
+  mediaSources.set(element, source);
+  // A suspended context would silence the element
+  element.addEventListener('play', () => { ctx.resume(); });
+}
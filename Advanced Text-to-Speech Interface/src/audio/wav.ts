@@ -0,0 +1,85 @@
+// PCM helpers that only depend on typed arrays, so they run anywhere.
+
+export type BitDepth = 8 | 16 | 24 | 32;
+
+/**
+ * Resample mono PCM with linear interpolation. When downsampling, each output
+ * sample averages the input window it covers to limit aliasing.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const length = Math.max(1, Math.round(samples.length / ratio));
+  const output = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(samples.length, Math.floor(position + ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += samples[j];
+      output[i] = end > start ? sum / (end - start) : 0;
+    } else {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = samples[index] ?? 0;
+      const b = samples[index + 1] ?? a;
+      output[i] = a + (b - a) * fraction;
+    }
+  }
+
+  return output;
+}
+
+/** Encode mono samples as a RIFF/WAVE file; 32-bit output is IEEE float, the rest integer PCM */
+export function encodeWav(samples: Float32Array, sampleRate: number, bitDepth: BitDepth = 16): ArrayBuffer {
+  const bytesPerSample = bitDepth / 8;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += bytesPerSample) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    switch (bitDepth) {
+      case 8:
+        view.setUint8(offset, Math.round((sample + 1) * 127.5));
+        break;
+      case 16:
+        view.setInt16(offset, Math.round(sample * 0x7fff), true);
+        break;
+      case 24: {
+        const value = Math.round(sample * 0x7fffff);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+        break;
+      }
+      case 32:
+        view.setFloat32(offset, sample, true);
+        break;
+    }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,24 @@
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/** Min/max sample per bucket, enough to draw a waveform at any width */
+export function computePeaks(samples: Float32Array, buckets: number): WaveformPeaks {
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const size = samples.length / buckets;
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor(bucket * size);
+    const end = Math.max(start + 1, Math.floor((bucket + 1) * size));
+    let low = 0;
+    let high = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      if (samples[i] < low) low = samples[i];
+      if (samples[i] > high) high = samples[i];
+    }
+    min[bucket] = low;
+    max[bucket] = high;
+  }
+  return { min, max };
+}
@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, MouseEvent, RefObject } from 'react';
+import type { RenderedAudio } from '../engines';
+import { computePeaks } from '../audio/waveform';
+
+interface AudioVisualizerProps {
+  /** Rendered clip, or null when the engine speaks without exposing audio */
+  audio: RenderedAudio | null;
+  mediaRef: RefObject<HTMLAudioElement>;
+  isPlaying: boolean;
+  /** Position within the spoken text (0–1), used when there is no clip */
+  textProgress: number | null;
+  onSeekTime: (seconds: number) => void;
+  onSeekText: (fraction: number) => void;
+}
+
+const PEAK_BUCKETS = 1200;
+const KEYBOARD_STEP_SECONDS = 1;
+
+const fractionFromClick = (event: MouseEvent<HTMLElement>) => {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+function AudioVisualizer({ audio, mediaRef, isPlaying, textProgress, onSeekTime, onSeekText }: AudioVisualizerProps) {
+  if (!audio) {
+    return <TextProgress progress={textProgress} isPlaying={isPlaying} onSeek={onSeekText} />;
+  }
+  return <Waveform audio={audio} mediaRef={mediaRef} isPlaying={isPlaying} onSeek={onSeekTime} />;
+}
+
+interface WaveformProps {
+  audio: RenderedAudio;
+  mediaRef: RefObject<HTMLAudioElement>;
+  isPlaying: boolean;
+  onSeek: (seconds: number) => void;
+}
+
+function Waveform({ audio, mediaRef, isPlaying, onSeek }: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playedRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const duration = audio.samples.length / audio.sampleRate;
+  const peaks = useMemo(() => computePeaks(audio.samples, PEAK_BUCKETS), [audio]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The full clip is drawn once per size; playback only moves the overlay
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(48 * ratio);
+    const mid = canvas.height / 2;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#a78bfa';
+    for (let x = 0; x < canvas.width; x++) {
+      const bucket = Math.floor((x / canvas.width) * PEAK_BUCKETS);
+      const top = mid - peaks.max[bucket] * mid;
+      const bottom = mid - peaks.min[bucket] * mid;
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [peaks, width]);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+    let frame = 0;
+    const update = () => {
+      const fraction = duration ? Math.min(1, media.currentTime / duration) : 0;
+      if (playedRef.current) playedRef.current.style.width = `${fraction * 100}%`;
+      // Tenths are plenty for the readout and keep re-renders rare
+      setCurrentTime(Math.floor(media.currentTime * 10) / 10);
+    };
+    const follow = () => {
+      update();
+      frame = requestAnimationFrame(follow);
+    };
+    if (isPlaying) follow();
+    else update();
+    media.addEventListener('seeked', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      media.removeEventListener('seeked', update);
+    };
+  }, [mediaRef, isPlaying, duration]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const step = event.key === 'ArrowRight' ? KEYBOARD_STEP_SECONDS : event.key === 'ArrowLeft' ? -KEYBOARD_STEP_SECONDS : 0;
+    if (event.key === 'Home') onSeek(0);
+    else if (event.key === 'End') onSeek(duration);
+    else if (step) onSeek(Math.min(duration, Math.max(0, currentTime + step)));
+    else return;
+    event.preventDefault();
+  };
+
+  return (
+    <div className="flex-1 flex items-center space-x-3 min-w-0">
+      <div
+        ref={containerRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Playback position"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        aria-valuetext={`${formatTime(currentTime)} of ${formatTime(duration)}`}
+        onClick={(event) => onSeek(fractionFromClick(event) * duration)}
+        onKeyDown={handleKeyDown}
+        className="relative flex-1 h-12 bg-white/10 rounded-lg overflow-hidden cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        <div ref={playedRef} className="absolute inset-y-0 left-0 bg-purple-500/25 border-r-2 border-pink-400 pointer-events-none" style={{ width: 0 }} />
+      </div>
+      <span className="text-xs text-gray-400 tabular-nums whitespace-nowrap">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+    </div>
+  );
+}
+
+interface TextProgressProps {
+  progress: number | null;
+  isPlaying: boolean;
+  onSeek: (fraction: number) => void;
+}
+
+// Browser speech never exposes its audio, so the best we can show is where in the text it is
+function TextProgress({ progress, isPlaying, onSeek }: TextProgressProps) {
+  const percent = Math.round((progress ?? 0) * 100);
+  return (
+    <div className="flex-1 min-w-0">
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Position in text"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        onClick={(event) => onSeek(fractionFromClick(event))}
+        onKeyDown={(event) => {
+          if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+          event.preventDefault();
+          onSeek(Math.min(1, Math.max(0, (progress ?? 0) + (event.key === 'ArrowRight' ? 0.05 : -0.05))));
+        }}
+        className="relative h-12 bg-white/10 rounded-lg overflow-hidden cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <div
+          className={`absolute inset-y-0 left-0 bg-purple-500/25 border-r-2 border-pink-400 transition-[width] duration-200 ${isPlaying ? '' : 'opacity-60'}`}
+          style={{ width: `${percent}%` }}
+        />
+        <span className="absolute inset-0 flex items-center justify-center text-xs text-gray-400 pointer-events-none">
+          {isPlaying ? `Speaking… ${percent}% of text` : 'Click to speak from a position in the text'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default AudioVisualizer;
@@ -0,0 +1,191 @@
+import { useRef } from 'react';
+import { Ban, CheckCircle2, Clock, Download, FileText, Layers, Pause, Play, RotateCcw, Square, Trash2, Upload, XCircle } from 'lucide-react';
+import type { BatchQueue } from '../hooks/useBatchQueue';
+import { BATCH_FILE_TYPES, summarizeBatch } from '../lib/batch';
+import type { BatchJob } from '../lib/batch';
+import { formatMs } from '../lib/metrics';
+
+interface BatchPanelProps {
+  batch: BatchQueue;
+  /** Whether the engine renders audio files, or only speaks items aloud */
+  rendersAudio: boolean;
+  onImport: (file: File) => void;
+  onDownloadZip: () => void;
+  onDownloadReport: () => void;
+}
+
+function StatusIcon({ job }: { job: BatchJob }) {
+  switch (job.status) {
+    case 'running':
+      return <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-gray-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-gray-400" />;
+  }
+}
+
+function BatchPanel({ batch, rendersAudio, onImport, onDownloadZip, onDownloadReport }: BatchPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { jobs, status } = batch;
+  const summary = summarizeBatch(jobs);
+  const isRunning = status === 'running';
+  const settled = summary.done + summary.failed + summary.cancelled;
+  const hasAudio = jobs.some(job => job.audio);
+  const canRetry = summary.failed + summary.cancelled > 0;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <Layers className="w-5 h-5 mr-2 text-purple-400" />
+          Batch
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+          >
+            <Upload className="w-3 h-3" />
+            <span>Import file</span>
+          </button>
+          {jobs.length > 0 && (
+            <button
+              onClick={batch.clear}
+              disabled={isRunning}
+              className="p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+              title="Clear batch"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={BATCH_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Voice many prompts at once: import a CSV with <code className="text-gray-300">id, text, voice, pitch, speed</code> columns,
+          a text file with one prompt per line, or a Markdown document.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {isRunning ? (
+              <button
+                onClick={batch.pause}
+                className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg border border-white/20 transition-colors"
+              >
+                <Pause className="w-4 h-4" />
+                <span>Pause</span>
+              </button>
+            ) : (
+              <button
+                onClick={batch.start}
+                disabled={summary.pending === 0}
+                className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm rounded-lg hover:from-purple-600 hover:to-pink-700 transition-all disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                <span>{status === 'paused' ? 'Resume' : 'Start'}</span>
+              </button>
+            )}
+            <button
+              onClick={batch.cancel}
+              disabled={summary.pending === 0}
+              className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+              title="Cancel remaining items"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+            <button
+              onClick={batch.retryFailed}
+              disabled={!canRetry}
+              className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+              title="Retry failed and cancelled items"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <div className="flex-1" />
+            <button
+              onClick={onDownloadReport}
+              className="flex items-center space-x-1 px-3 py-2 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors"
+              title="Download the status of every item as CSV"
+            >
+              <FileText className="w-3 h-3" />
+              <span>Report</span>
+            </button>
+            <button
+              onClick={onDownloadZip}
+              disabled={!hasAudio || isRunning}
+              className="flex items-center space-x-1 px-3 py-2 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+              title={rendersAudio ? 'Download audio files named by id' : 'Switch to an engine with audio export to get files'}
+            >
+              <Download className="w-3 h-3" />
+              <span>ZIP</span>
+            </button>
+          </div>
+
+          <div className="w-full bg-white/20 rounded-full h-2 mb-2">
+            <div
+              className="bg-gradient-to-r from-purple-500 to-pink-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(settled / summary.total) * 100}%` }}
+            />
+          </div>
+          <div className="flex flex-wrap justify-between text-xs text-gray-400 mb-4">
+            <span>
+              {summary.done} of {summary.total} done
+              {summary.failed > 0 && <span className="text-red-300"> • {summary.failed} failed</span>}
+              {summary.cancelled > 0 && <span> • {summary.cancelled} cancelled</span>}
+            </span>
+            <span>{rendersAudio ? 'Audio' : 'Spoken'}: {formatMs(summary.totalDuration)}</span>
+          </div>
+
+          <div className="space-y-1 max-h-80 overflow-y-auto pr-1">
+            {jobs.map((job) => (
+              <div key={job.item.id} className="flex items-start space-x-3 px-3 py-2 bg-white/5 rounded-lg">
+                <div className="pt-0.5"><StatusIcon job={job} /></div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-mono text-gray-300 truncate">{job.item.id}</span>
+                    <span className="text-gray-500 whitespace-nowrap ml-2">
+                      {job.attempts > 1 && `try ${job.attempts} • `}{formatMs(job.duration)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-200 truncate" title={job.item.text}>{job.item.text}</p>
+                  {job.note && <p className="text-xs text-orange-300">{job.note}</p>}
+                  {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+                </div>
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    onClick={() => batch.retry(job.item.id)}
+                    className="p-1 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Retry this item"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BatchPanel;
@@ -0,0 +1,146 @@
+import { useRef } from 'react';
+import { Download, Play, Upload, Users } from 'lucide-react';
+import type { EngineVoice } from '../engines';
+import type { Cast, CastMember } from '../lib/script';
+import ParameterSlider from './ParameterSlider';
+import VoiceSelect from './VoiceSelect';
+
+interface CastingPanelProps {
+  speakers: string[];
+  cast: Cast;
+  voices: EngineVoice[];
+  turnCounts: Record<string, number>;
+  turnGap: number;
+  onCastChange: (speaker: string, member: CastMember) => void;
+  onTurnGapChange: (seconds: number) => void;
+  onPreview: (speaker: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+function CastingPanel({
+  speakers,
+  cast,
+  voices,
+  turnCounts,
+  turnGap,
+  onCastChange,
+  onTurnGapChange,
+  onPreview,
+  onExport,
+  onImport
+}: CastingPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <Users className="w-5 h-5 mr-2 text-pink-400" />
+          Casting
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors"
+          >
+            <Upload className="w-3 h-3" />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={onExport}
+            disabled={speakers.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" />
+            <span>Export</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {speakers.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Write lines as <code className="text-gray-200">ALICE: Hello</code> to add speakers.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {speakers.map((speaker, index) => {
+            const member = cast[speaker];
+            return (
+              <div key={speaker} className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="font-medium text-white">
+                    {speaker}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {turnCounts[speaker]} {turnCounts[speaker] === 1 ? 'line' : 'lines'}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => onPreview(speaker)}
+                    className="p-1.5 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+                    title={`Preview ${speaker}`}
+                  >
+                    <Play className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor={`cast-voice-${index}`} className="block text-sm font-medium text-gray-300 mb-2">Voice</label>
+                    <VoiceSelect
+                      id={`cast-voice-${index}`}
+                      voices={voices}
+                      value={member.voiceId}
+                      onChange={(voiceId) => onCastChange(speaker, { ...member, voiceId })}
+                      className="text-sm"
+                    />
+                  </div>
+                  <ParameterSlider
+                    label="Pitch"
+                    min={0.5}
+                    max={2.0}
+                    step={0.05}
+                    precision={2}
+                    value={member.pitch}
+                    onChange={(pitch) => onCastChange(speaker, { ...member, pitch })}
+                  />
+                  <ParameterSlider
+                    label="Speed"
+                    min={0.5}
+                    max={2.0}
+                    step={0.05}
+                    precision={2}
+                    value={member.speed}
+                    onChange={(speed) => onCastChange(speaker, { ...member, speed })}
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          <ParameterSlider
+            label="Gap Between Turns"
+            min={0}
+            max={3}
+            step={0.1}
+            unit="s"
+            value={turnGap}
+            onChange={onTurnGapChange}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CastingPanel;
@@ -0,0 +1,169 @@
+import { useRef, useState } from 'react';
+import { BookMarked, BookOpen, ListTree, Play, Upload, X } from 'lucide-react';
+import { DOCUMENT_FILE_TYPES, headingAt } from '../lib/documents';
+import type { ImportedDocument } from '../lib/documents';
+import type { ReadingPosition } from '../lib/readingPositions';
+
+interface DocumentPanelProps {
+  document: ImportedDocument | null;
+  isImporting: boolean;
+  /** Whether the document is loaded in the reader, so its sections can be jumped to */
+  isOpen: boolean;
+  /** Character offset being read, or null when the reader is idle */
+  position: number | null;
+  /** Where reading last stopped, if anywhere */
+  saved: ReadingPosition | null;
+  onImport: (file: File) => void;
+  onOpen: () => void;
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportedDocument['format'], string> = {
+  txt: 'Text',
+  md: 'Markdown',
+  html: 'Web page',
+  epub: 'EPUB',
+  docx: 'Word',
+  pdf: 'PDF'
+};
+
+function DocumentPanel({ document, isImporting, isOpen, position, saved, onImport, onOpen, onJump, onClose }: DocumentPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const headings = document?.headings ?? [];
+  const current = position !== null ? headingAt(headings, position) : null;
+  const savedHeading = saved ? headingAt(headings, saved.position) : null;
+  const canResume = isOpen && position === null && saved !== null && saved.position > 0;
+
+  return (
+    <div
+      className={`bg-white/10 backdrop-blur-sm rounded-2xl p-6 border transition-colors ${isDragging ? 'border-blue-400' : 'border-white/20'}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) onImport(file);
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <BookMarked className="w-5 h-5 mr-2 text-purple-400" />
+          Documents
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+          >
+            {isImporting ? (
+              <div className="w-3 h-3 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Upload className="w-3 h-3" />
+            )}
+            <span>{isImporting ? 'Reading...' : 'Import document'}</span>
+          </button>
+          {document && (
+            <button
+              onClick={onClose}
+              className="p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+              title="Close document"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={DOCUMENT_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {!document ? (
+        <p className="text-sm text-gray-400">
+          Listen to a book or an article: import or drop a text, Markdown, HTML, EPUB, Word or PDF file.
+          Menus and page furniture are left out, chapters become a table of contents, and your place is remembered.
+        </p>
+      ) : (
+        <>
+          <div className="mb-4">
+            <p className="text-white font-medium truncate" title={document.fileName}>{document.title}</p>
+            <p className="text-xs text-gray-400">
+              {FORMAT_LABELS[document.format]} • {document.text.split(/\s+/).length.toLocaleString()} words
+              {headings.length > 0 && ` • ${headings.length} sections`}
+            </p>
+            {document.truncated && (
+              <p className="text-xs text-orange-300 mt-1">
+                The document is longer than the reader holds; only the first {document.text.length.toLocaleString()} characters are read.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {!isOpen && (
+              <button
+                onClick={onOpen}
+                className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm rounded-lg hover:from-purple-600 hover:to-pink-700 transition-all"
+              >
+                <BookOpen className="w-4 h-4" />
+                <span>Open in reader</span>
+              </button>
+            )}
+            {canResume && saved && (
+              <button
+                onClick={() => onJump(saved.position)}
+                className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm rounded-lg hover:from-purple-600 hover:to-pink-700 transition-all"
+                title={`Last read ${new Date(saved.updatedAt).toLocaleString()}`}
+              >
+                <Play className="w-4 h-4" />
+                <span>
+                  Resume{savedHeading ? ` at ${savedHeading.title}` : ''} ({Math.round((saved.position / saved.length) * 100)}%)
+                </span>
+              </button>
+            )}
+          </div>
+
+          {headings.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-300 mb-2 flex items-center">
+                <ListTree className="w-3 h-3 mr-1" />
+                Contents
+              </p>
+              <div className="max-h-64 overflow-y-auto space-y-0.5 pr-1">
+                {headings.map((heading) => (
+                  <button
+                    key={heading.start}
+                    onClick={() => onJump(heading.start)}
+                    disabled={!isOpen}
+                    style={{ paddingLeft: `${0.75 + (Math.min(heading.level, 4) - 1) * 0.75}rem` }}
+                    className={`w-full text-left text-sm pr-3 py-1.5 rounded-lg truncate transition-colors disabled:opacity-50 ${
+                      heading === current ? 'bg-purple-500/30 text-white' : 'text-gray-300 hover:bg-white/5'
+                    }`}
+                    title={heading.title}
+                  >
+                    {heading.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DocumentPanel;
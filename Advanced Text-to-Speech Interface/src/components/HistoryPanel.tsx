@@ -0,0 +1,256 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, FolderPlus, History, Pause, Play, RotateCcw, Search, Star, Trash2, Upload } from 'lucide-react';
+import type { HistoryEntry, Project } from '../lib/historyStore';
+import { formatMs } from '../lib/metrics';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  projects: Project[];
+  isAvailable: boolean;
+  onRerun: (entry: HistoryEntry) => void;
+  onUpdate: (id: string, patch: Partial<HistoryEntry>) => void;
+  onDelete: (id: string) => void;
+  onCreateProject: (name: string) => void;
+  onDeleteProject: (id: string) => void;
+  onExport: (format: 'zip' | 'json') => void;
+  onImport: (file: File) => void;
+}
+
+const ALL_PROJECTS = '';
+const UNGROUPED = 'ungrouped';
+
+function HistoryPanel({
+  entries,
+  projects,
+  isAvailable,
+  onRerun,
+  onUpdate,
+  onDelete,
+  onCreateProject,
+  onDeleteProject,
+  onExport,
+  onImport
+}: HistoryPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return entries.filter(entry =>
+      (!favoritesOnly || entry.favorite) &&
+      (projectFilter === ALL_PROJECTS ||
+        (projectFilter === UNGROUPED ? entry.projectId === null : entry.projectId === projectFilter)) &&
+      (!needle || entry.text.toLowerCase().includes(needle) || entry.voiceName.toLowerCase().includes(needle))
+    );
+  }, [entries, query, favoritesOnly, projectFilter]);
+
+  // Stop stored audio when the panel goes away
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    if (audioRef.current?.src) URL.revokeObjectURL(audioRef.current.src);
+  }, []);
+
+  const togglePlayback = (entry: HistoryEntry) => {
+    const current = audioRef.current;
+    if (current) {
+      current.pause();
+      URL.revokeObjectURL(current.src);
+      audioRef.current = null;
+    }
+    if (playingId === entry.id || !entry.audio) {
+      setPlayingId(null);
+      return;
+    }
+    const audio = new Audio(URL.createObjectURL(entry.audio));
+    audio.onended = () => setPlayingId(null);
+    audio.play().catch((error) => {
+      console.error('Playback failed:', error);
+      setPlayingId(null);
+    });
+    audioRef.current = audio;
+    setPlayingId(entry.id);
+  };
+
+  const handleNewProject = () => {
+    const name = prompt('Project name')?.trim();
+    if (name) onCreateProject(name);
+  };
+
+  const selectedProject = projects.find(project => project.id === projectFilter);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <History className="w-5 h-5 mr-2 text-yellow-400" />
+          History
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!isAvailable}
+            className="p-1.5 text-gray-300 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+            title="Import library (.zip or .json)"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onExport('zip')}
+            disabled={entries.length === 0}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+            title="Export library with audio files"
+          >
+            <Download className="w-3 h-3" />
+            <span>ZIP</span>
+          </button>
+          <button
+            onClick={() => onExport('json')}
+            disabled={entries.length === 0}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+            title="Export library as a single JSON file"
+          >
+            <Download className="w-3 h-3" />
+            <span>JSON</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,.json,application/zip,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {!isAvailable ? (
+        <p className="text-sm text-gray-400">History is unavailable because this browser blocks IndexedDB.</p>
+      ) : (
+        <>
+          <div className="relative mb-3">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search text or voice"
+              className="w-full bg-white/10 border border-white/20 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2 mb-4">
+            <select
+              value={projectFilter}
+              onChange={(e) => setProjectFilter(e.target.value)}
+              className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={ALL_PROJECTS} className="bg-slate-800">All projects</option>
+              <option value={UNGROUPED} className="bg-slate-800">Ungrouped</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id} className="bg-slate-800">{project.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setFavoritesOnly(prev => !prev)}
+              className={`p-1.5 rounded-lg transition-colors ${favoritesOnly ? 'text-yellow-400 bg-yellow-400/10' : 'text-gray-400 hover:bg-white/10'}`}
+              title="Show favorites only"
+            >
+              <Star className="w-4 h-4" fill={favoritesOnly ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              onClick={handleNewProject}
+              className="p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+              title="New project"
+            >
+              <FolderPlus className="w-4 h-4" />
+            </button>
+            {selectedProject && (
+              <button
+                onClick={() => {
+                  if (!confirm(`Delete project "${selectedProject.name}"? Its entries are kept.`)) return;
+                  onDeleteProject(selectedProject.id);
+                  setProjectFilter(ALL_PROJECTS);
+                }}
+                className="p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+                title="Delete project"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {filtered.length === 0 ? (
+            <div className="py-6 text-center text-xs text-gray-500 bg-white/5 rounded-lg">
+              {entries.length === 0 ? 'Generated speech will appear here' : 'No matching entries'}
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+              {filtered.map((entry) => (
+                <div key={entry.id} className="p-3 bg-white/5 rounded-xl border border-white/10">
+                  <div className="flex items-start justify-between">
+                    <p className="text-sm text-gray-200 line-clamp-2 mr-2" title={entry.text}>{entry.text}</p>
+                    <button
+                      onClick={() => onUpdate(entry.id, { favorite: !entry.favorite })}
+                      className={`p-1 rounded-lg transition-colors ${entry.favorite ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}`}
+                      title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                      <Star className="w-4 h-4" fill={entry.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1 truncate">
+                    {new Date(entry.createdAt).toLocaleString()} • {entry.voiceName || 'Default voice'} • {formatMs(entry.duration)}
+                  </div>
+                  <div className="flex items-center space-x-1 mt-2">
+                    <button
+                      onClick={() => onRerun(entry)}
+                      className="p-1.5 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+                      title="Re-run with the same settings"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    {entry.audio && (
+                      <button
+                        onClick={() => togglePlayback(entry)}
+                        className="p-1.5 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+                        title={playingId === entry.id ? 'Stop' : 'Play stored audio'}
+                      >
+                        {playingId === entry.id ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      </button>
+                    )}
+                    <select
+                      value={entry.projectId ?? UNGROUPED}
+                      onChange={(e) => onUpdate(entry.id, { projectId: e.target.value === UNGROUPED ? null : e.target.value })}
+                      className="flex-1 min-w-0 bg-transparent text-xs text-gray-400 focus:outline-none"
+                      title="Move to project"
+                    >
+                      <option value={UNGROUPED} className="bg-slate-800">No project</option>
+                      {projects.map((project) => (
+                        <option key={project.id} value={project.id} className="bg-slate-800">{project.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => onDelete(entry.id)}
+                      className="p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+                      title="Delete entry"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,22 @@
+import type { Announcement } from '../hooks/useAnnouncer';
+
+interface LiveRegionProps {
+  announcement: Announcement | null;
+}
+
+// Both regions are always in the document: screen readers only announce
+// changes to regions that already existed
+function LiveRegion({ announcement }: LiveRegionProps) {
+  return (
+    <>
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement && !announcement.assertive && <span key={announcement.id}>{announcement.message}</span>}
+      </div>
+      <div role="alert" aria-live="assertive" className="sr-only">
+        {announcement?.assertive && <span key={announcement.id}>{announcement.message}</span>}
+      </div>
+    </>
+  );
+}
+
+export default LiveRegion;
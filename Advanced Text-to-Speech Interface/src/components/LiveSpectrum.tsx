@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import { getOutputAnalyser } from '../audio/output';
+
+interface LiveSpectrumProps {
+  /** Animate while audio is playing */
+  active: boolean;
+  /** False for engines that never route audio through Web Audio */
+  available: boolean;
+}
+
+const BANDS = 40;
+const MIN_FREQUENCY = 60;
+const MAX_FREQUENCY = 10000;
+const FLOOR_DB = -60;
+
+// Log-spaced band edges, like the ear hears them
+const BAND_EDGES = Array.from({ length: BANDS + 1 }, (_, i) =>
+  MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, i / BANDS)
+);
+
+function LiveSpectrum({ active, available }: LiveSpectrumProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const meterRef = useRef<HTMLDivElement>(null);
+  const peakRef = useRef<HTMLDivElement>(null);
+  const readoutRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    let frame = 0;
+    let peak = 0;
+    let frequencies = new Uint8Array(0);
+    let waveform = new Float32Array(0);
+
+    const draw = () => {
+      const analyser = getOutputAnalyser();
+      const { width, height } = canvas;
+      context.clearRect(0, 0, width, height);
+
+      let level = 0;
+      if (analyser && active) {
+        if (frequencies.length !== analyser.frequencyBinCount) frequencies = new Uint8Array(analyser.frequencyBinCount);
+        if (waveform.length !== analyser.fftSize) waveform = new Float32Array(analyser.fftSize);
+        analyser.getByteFrequencyData(frequencies);
+        analyser.getFloatTimeDomainData(waveform);
+
+        const binWidth = analyser.context.sampleRate / analyser.fftSize;
+        const barWidth = width / BANDS;
+        for (let band = 0; band < BANDS; band++) {
+          const from = Math.floor(BAND_EDGES[band] / binWidth);
+          const to = Math.max(from + 1, Math.floor(BAND_EDGES[band + 1] / binWidth));
+          let sum = 0;
+          for (let bin = from; bin < to; bin++) sum += frequencies[bin] ?? 0;
+          const value = sum / (to - from) / 255;
+          const barHeight = Math.max(1, value * height);
+          context.fillStyle = `hsl(${260 - value * 60}, 80%, ${55 + value * 15}%)`;
+          context.fillRect(band * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+        }
+
+        let squares = 0;
+        for (let i = 0; i < waveform.length; i++) squares += waveform[i] * waveform[i];
+        const rms = Math.sqrt(squares / waveform.length);
+        const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+        level = Math.max(0, 1 - db / FLOOR_DB);
+        if (readoutRef.current) readoutRef.current.textContent = Number.isFinite(db) ? `${db.toFixed(0)} dB` : '−∞ dB';
+      } else if (readoutRef.current) {
+        readoutRef.current.textContent = '−∞ dB';
+      }
+
+      // Peak hold falls back slowly so short peaks stay visible
+      peak = Math.max(level, peak - 0.01);
+      if (meterRef.current) meterRef.current.style.width = `${level * 100}%`;
+      if (peakRef.current) peakRef.current.style.left = `${peak * 100}%`;
+
+      if (active || peak > 0) frame = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [active]);
+
+  if (!available) {
+    return (
+      <p className="text-xs text-gray-500 mt-3">
+        Live spectrum needs an engine that renders audio; browser speech plays outside the page.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <canvas ref={canvasRef} width={480} height={48} className="w-full h-12 bg-white/5 rounded-lg" aria-hidden="true" />
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1 h-2 bg-white/10 rounded-full overflow-hidden" aria-hidden="true">
+          <div ref={meterRef} className="h-full bg-gradient-to-r from-green-400 via-yellow-400 to-red-500" style={{ width: 0 }} />
+          <div ref={peakRef} className="absolute top-0 h-full w-0.5 bg-white/80" style={{ left: 0 }} />
+        </div>
+        <span ref={readoutRef} className="text-xs text-gray-400 w-12 text-right tabular-nums">−∞ dB</span>
+      </div>
+    </div>
+  );
+}
+
+export default LiveSpectrum;
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react';
+import { BookOpen, Pause, Play, SkipBack, SkipForward, Square } from 'lucide-react';
+import { scrollBehavior } from '../lib/accessibility';
+import type { Paragraph, TextChunk } from '../lib/chunker';
+import type { SpeechQueue } from '../hooks/useSpeechQueue';
+import LiveSpectrum from './LiveSpectrum';
+
+interface LongDocumentPanelProps {
+  title: string;
+  chunks: TextChunk[];
+  paragraphs: Paragraph[];
+  queue: SpeechQueue;
+  /** Whether the engine plays through Web Audio, so a spectrum can be shown */
+  liveAudio: boolean;
+}
+
+function LongDocumentPanel({ title, chunks, paragraphs, queue, liveAudio }: LongDocumentPanelProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const isActive = queue.status === 'playing' || queue.status === 'paused';
+  const completed = queue.status === 'finished' ? chunks.length : queue.currentIndex;
+  const progress = chunks.length ? (completed / chunks.length) * 100 : 0;
+  const currentParagraph = chunks[queue.currentIndex]?.paragraph ?? 0;
+
+  // Keep the active chunk in view
+  useEffect(() => {
+    const active = listRef.current?.querySelector<HTMLElement>(`[data-chunk="${queue.currentIndex}"]`);
+    active?.scrollIntoView({ block: 'nearest', behavior: scrollBehavior() });
+  }, [queue.currentIndex]);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <BookOpen className="w-5 h-5 mr-2 text-purple-400" />
+          {title}
+        </h3>
+        <span className="text-sm text-gray-400">
+          Chunk {Math.min(queue.currentIndex + 1, chunks.length)} of {chunks.length}
+        </span>
+      </div>
+
+      <div className="w-full bg-white/20 rounded-full h-2 mb-4">
+        <div
+          className="bg-gradient-to-r from-purple-500 to-pink-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <button
+          onClick={queue.previous}
+          disabled={queue.currentIndex === 0}
+          className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20 disabled:opacity-50"
+          title="Previous chunk"
+        >
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={queue.status === 'playing' ? queue.pause : queue.resume}
+          className="p-3 bg-gradient-to-r from-purple-500 to-pink-600 text-white rounded-full hover:from-purple-600 hover:to-pink-700 transition-all"
+          title={queue.status === 'playing' ? 'Pause' : `Play from chunk ${queue.currentIndex + 1}`}
+        >
+          {queue.status === 'playing' ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={queue.stop}
+          disabled={!isActive}
+          className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20 disabled:opacity-50"
+          title="Stop"
+        >
+          <Square className="w-4 h-4" />
+        </button>
+        <button
+          onClick={queue.next}
+          disabled={queue.currentIndex >= chunks.length - 1}
+          className="p-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors border border-white/20 disabled:opacity-50"
+          title="Next chunk"
+        >
+          <SkipForward className="w-4 h-4" />
+        </button>
+
+        {paragraphs.length > 1 && (
+          <select
+            value={currentParagraph}
+            onChange={(e) => queue.playFrom(paragraphs[Number(e.target.value)].firstChunk)}
+            className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {paragraphs.map((paragraph) => (
+              <option key={paragraph.index} value={paragraph.index} className="bg-slate-800">
+                {paragraph.index + 1}. {paragraph.preview}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {liveAudio && (
+        <div className="mb-4">
+          <LiveSpectrum active={queue.status === 'playing'} available />
+        </div>
+      )}
+
+      <div ref={listRef} className="max-h-64 overflow-y-auto space-y-1 pr-1">
+        {chunks.map((chunk) => {
+          const isCurrent = chunk.index === queue.currentIndex && isActive;
+          const isDone = chunk.index < completed;
+          return (
+            <button
+              key={chunk.index}
+              data-chunk={chunk.index}
+              onClick={() => queue.playFrom(chunk.index)}
+              className={`w-full text-left text-sm px-3 py-2 rounded-lg transition-colors ${
+                isCurrent
+                  ? 'bg-purple-500/30 text-white'
+                  : isDone
+                    ? 'text-gray-500 hover:bg-white/5'
+                    : 'text-gray-300 hover:bg-white/5'
+              }`}
+            >
+              <span className="text-xs text-gray-500 mr-2">{chunk.index + 1}</span>
+              {chunk.text || <em className="text-gray-500">pause {chunk.pauseAfter ?? 0}s</em>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default LongDocumentPanel;
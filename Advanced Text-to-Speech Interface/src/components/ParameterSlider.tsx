@@ -0,0 +1,40 @@
+import { useId } from 'react';
+
+interface ParameterSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  /** Decimal places shown next to the slider */
+  precision?: number;
+  unit?: string;
+  /** Display form of the value, in place of `precision` and `unit` */
+  format?: (value: number) => string;
+}
+
+function ParameterSlider({ label, value, min, max, step, onChange, precision = 1, unit = '', format }: ParameterSliderProps) {
+  const id = useId();
+  const display = format ? format(value) : `${value.toFixed(precision)}${unit}`;
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-2">{label}</label>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        aria-valuetext={display}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer slider"
+      />
+      <span className="text-xs text-gray-400">{display}</span>
+    </div>
+  );
+}
+
+export default ParameterSlider;
@@ -0,0 +1,127 @@
+import { BarChart3, FileJson, FileSpreadsheet, Trash2 } from 'lucide-react';
+import { formatMs } from '../lib/metrics';
+import type { MetricsSummary, SynthesisMeasurement } from '../lib/metrics';
+
+interface PerformancePanelProps {
+  measurements: SynthesisMeasurement[];
+  summary: MetricsSummary;
+  onExportJson: () => void;
+  onExportCsv: () => void;
+  onClear: () => void;
+}
+
+const CHART_BARS = 40;
+
+const OUTCOME_COLORS: Record<SynthesisMeasurement['outcome'], string> = {
+  success: '#34d399',
+  error: '#f87171',
+  cancelled: '#64748b'
+};
+
+function PerformancePanel({ measurements, summary, onExportJson, onExportCsv, onClear }: PerformancePanelProps) {
+  const recent = measurements.slice(-CHART_BARS);
+  const maxLatency = Math.max(1, ...recent.map(m => m.timeToFirstAudio ?? 0));
+  const voiceErrors = Object.entries(summary.errorsByVoice).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <BarChart3 className="w-5 h-5 mr-2 text-green-400" />
+        Performance
+        <span className="ml-auto text-xs font-normal text-gray-400">{summary.total} this session</span>
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-white">{formatMs(summary.averageTimeToFirstAudio)}</div>
+          <div className="text-xs text-gray-400">Time to First Audio</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-white">
+            {summary.successRate === null ? '—' : `${(summary.successRate * 100).toFixed(1)}%`}
+          </div>
+          <div className="text-xs text-gray-400">Success Rate</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-white">
+            {summary.averageCharsPerSecond === null ? '—' : summary.averageCharsPerSecond.toFixed(1)}
+          </div>
+          <div className="text-xs text-gray-400">Chars / Second</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-white">{formatMs(summary.totalSpeakingTime)}</div>
+          <div className="text-xs text-gray-400">Speaking Time</div>
+        </div>
+      </div>
+
+      {/* Session History */}
+      <div className="mt-6">
+        <div className="flex justify-between items-center mb-2 text-xs text-gray-400">
+          <span>Time to first audio, last {CHART_BARS}</span>
+          <span>max {formatMs(recent.length ? maxLatency : null)}</span>
+        </div>
+        {recent.length === 0 ? (
+          <div className="h-16 flex items-center justify-center text-xs text-gray-500 bg-white/5 rounded-lg">
+            No measurements yet
+          </div>
+        ) : (
+          <svg viewBox={`0 0 ${CHART_BARS * 6} 64`} preserveAspectRatio="none" className="w-full h-16 bg-white/5 rounded-lg">
+            {recent.map((m, i) => {
+              const height = m.timeToFirstAudio === null ? 4 : Math.max(2, (m.timeToFirstAudio / maxLatency) * 60);
+              return (
+                <rect key={m.id} x={i * 6 + 1} y={64 - height} width={4} height={height} fill={OUTCOME_COLORS[m.outcome]}>
+                  <title>
+                    {`${new Date(m.requestedAt).toLocaleTimeString()} • ${m.outcome} • ${formatMs(m.timeToFirstAudio)} • ${m.characters} chars`}
+                  </title>
+                </rect>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+
+      {voiceErrors.length > 0 && (
+        <div className="mt-4">
+          <div className="text-xs text-gray-400 mb-2">Errors by voice</div>
+          <div className="space-y-1">
+            {voiceErrors.map(([voice, count]) => (
+              <div key={voice} className="flex justify-between text-sm">
+                <span className="text-gray-300 truncate mr-2">{voice}</span>
+                <span className="text-red-300">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2 mt-4 pt-4 border-t border-white/10">
+        <button
+          onClick={onExportJson}
+          disabled={measurements.length === 0}
+          className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+        >
+          <FileJson className="w-3 h-3" />
+          <span>JSON</span>
+        </button>
+        <button
+          onClick={onExportCsv}
+          disabled={measurements.length === 0}
+          className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+        >
+          <FileSpreadsheet className="w-3 h-3" />
+          <span>CSV</span>
+        </button>
+        <button
+          onClick={onClear}
+          disabled={measurements.length === 0}
+          className="ml-auto p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+          title="Clear session history"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PerformancePanel;
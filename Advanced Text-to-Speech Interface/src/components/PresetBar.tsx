@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Bookmark, Check, Link2, Save, Trash2 } from 'lucide-react';
+import type { VoicePreset } from '../lib/presets';
+
+interface PresetBarProps {
+  presets: VoicePreset[];
+  selectedId: string;
+  onApply: (preset: VoicePreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onShare: () => Promise<boolean>;
+}
+
+function PresetBar({ presets, selectedId, onApply, onSave, onDelete, onShare }: PresetBarProps) {
+  const [copied, setCopied] = useState(false);
+  const selected = presets.find(preset => preset.id === selectedId);
+
+  const handleSave = () => {
+    const name = prompt('Preset name', selected?.name ?? '')?.trim();
+    if (name) onSave(name);
+  };
+
+  const handleShare = async () => {
+    if (!await onShare()) return;
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center space-x-2 mb-6">
+      <Bookmark className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      <select
+        value={selected ? selected.id : ''}
+        onChange={(e) => {
+          const preset = presets.find(candidate => candidate.id === e.target.value);
+          if (preset) onApply(preset);
+        }}
+        className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="" disabled className="bg-slate-800">
+          {presets.length ? 'Apply a preset…' : 'No saved presets'}
+        </option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id} className="bg-slate-800">
+            {preset.name}{preset.voice ? ` — ${preset.voice.name}` : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleSave}
+        className="p-2 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+        title="Save current voice and settings as a preset"
+      >
+        <Save className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => selected && onDelete(selected.id)}
+        disabled={!selected}
+        className="p-2 text-gray-300 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+        title="Delete preset"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={handleShare}
+        className="p-2 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+        title="Copy a link with the current text, voice and settings"
+      >
+        {copied ? <Check className="w-4 h-4 text-green-400" /> : <Link2 className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+}
+
+export default PresetBar;
@@ -0,0 +1,199 @@
+import { useRef } from 'react';
+import { CaseSensitive, Download, Plus, SpellCheck, Trash2, Upload } from 'lucide-react';
+import { lexiconEntryError } from '../lib/lexicon';
+import type { LexiconEntry } from '../lib/lexicon';
+import { BUILT_IN_RULE_GROUPS } from '../lib/normalize';
+import type { BuiltInRuleGroup, NormalizedText } from '../lib/normalize';
+import type { PronunciationSettings } from '../lib/pronunciation';
+
+interface PronunciationPanelProps {
+  settings: PronunciationSettings;
+  /** Normalized form of the current input, or null when there is nothing to preview */
+  preview: NormalizedText | null;
+  /** The written text the preview was made from */
+  previewSource: string;
+  previewTruncated: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onToggleBuiltIn: (group: BuiltInRuleGroup) => void;
+  onAddEntry: () => void;
+  onUpdateEntry: (id: string, patch: Partial<LexiconEntry>) => void;
+  onRemoveEntry: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+function PronunciationPanel({
+  settings,
+  preview,
+  previewSource,
+  previewTruncated,
+  onEnabledChange,
+  onToggleBuiltIn,
+  onAddEntry,
+  onUpdateEntry,
+  onRemoveEntry,
+  onExport,
+  onImport
+}: PronunciationPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const changes = preview?.pieces.filter(piece => piece.replaced).length ?? 0;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <SpellCheck className="w-5 h-5 mr-2 text-yellow-400" />
+          Pronunciation
+        </h3>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center space-x-2 text-xs text-gray-300 mr-2">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onEnabledChange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            <span>Normalize text</span>
+          </label>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors"
+          >
+            <Upload className="w-3 h-3" />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={onExport}
+            disabled={settings.entries.length === 0}
+            className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" />
+            <span>Export</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className={settings.enabled ? '' : 'opacity-50 pointer-events-none'}>
+        {/* Built-in expansions */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {BUILT_IN_RULE_GROUPS.map((group) => (
+            <button
+              key={group.id}
+              onClick={() => onToggleBuiltIn(group.id)}
+              title={`e.g. ${group.example}`}
+              className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                settings.builtIns[group.id]
+                  ? 'bg-blue-500/20 border-blue-400/50 text-blue-200'
+                  : 'bg-white/5 border-white/10 text-gray-400 line-through'
+              }`}
+            >
+              {group.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Dictionary */}
+        <div className="space-y-2">
+          {settings.entries.map((entry) => {
+            const error = lexiconEntryError(entry);
+            return (
+              <div key={entry.id}>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.enabled}
+                    onChange={(e) => onUpdateEntry(entry.id, { enabled: e.target.checked })}
+                    className="accent-blue-500"
+                    title="Use this rule"
+                  />
+                  <input
+                    value={entry.pattern}
+                    onChange={(e) => onUpdateEntry(entry.id, { pattern: e.target.value })}
+                    placeholder={entry.match === 'regex' ? '\\bv(\\d+)\\b' : 'SQL'}
+                    className={`flex-1 min-w-0 bg-white/5 border rounded-lg px-2 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      entry.match === 'regex' ? 'font-mono' : ''
+                    } ${error && entry.pattern ? 'border-red-500/60' : 'border-white/20'}`}
+                  />
+                  <span className="text-gray-500">→</span>
+                  <input
+                    value={entry.replacement}
+                    onChange={(e) => onUpdateEntry(entry.id, { replacement: e.target.value })}
+                    placeholder={entry.match === 'regex' ? 'version $1' : 'sequel'}
+                    className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={entry.match}
+                    onChange={(e) => onUpdateEntry(entry.id, { match: e.target.value as LexiconEntry['match'] })}
+                    className="bg-white/10 border border-white/20 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="word" className="bg-slate-800">Word</option>
+                    <option value="regex" className="bg-slate-800">Regex</option>
+                  </select>
+                  <button
+                    onClick={() => onUpdateEntry(entry.id, { caseSensitive: !entry.caseSensitive })}
+                    className={`p-1.5 rounded-lg transition-colors ${entry.caseSensitive ? 'text-blue-300 bg-blue-500/20' : 'text-gray-500 hover:bg-white/10'}`}
+                    title={entry.caseSensitive ? 'Case sensitive' : 'Ignores case'}
+                  >
+                    <CaseSensitive className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onRemoveEntry(entry.id)}
+                    className="p-1.5 text-gray-400 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {error && entry.pattern && <p className="text-xs text-red-300 mt-1 ml-6">{error}</p>}
+              </div>
+            );
+          })}
+          <button
+            onClick={onAddEntry}
+            className="flex items-center space-x-1 text-xs text-gray-300 hover:text-white transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            <span>Add dictionary rule</span>
+          </button>
+        </div>
+
+        {/* Preview */}
+        {preview && (
+          <div className="mt-4">
+            <div className="flex justify-between items-center mb-2 text-xs text-gray-400">
+              <span>Spoken as</span>
+              <span>{changes} {changes === 1 ? 'change' : 'changes'}{previewTruncated ? ' in the first part' : ''}</span>
+            </div>
+            <div className="max-h-40 overflow-y-auto bg-white/5 rounded-lg px-3 py-2 text-sm text-gray-200 whitespace-pre-wrap">
+              {preview.pieces.map((piece, index) => piece.replaced ? (
+                <mark
+                  key={index}
+                  className="bg-yellow-400/20 text-yellow-100 rounded px-0.5"
+                  title={`Written as "${previewSource.slice(piece.sourceStart, piece.sourceEnd)}"`}
+                >
+                  {piece.text}
+                </mark>
+              ) : (
+                <span key={index}>{piece.text}</span>
+              ))}
+              {previewTruncated && <span className="text-gray-500">…</span>}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PronunciationPanel;
@@ -0,0 +1,111 @@
+import { memo, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Type } from 'lucide-react';
+import { scrollBehavior } from '../lib/accessibility';
+import { sentenceSpans, wordSpans } from '../lib/segments';
+import type { TextSpan } from '../lib/segments';
+
+interface ReadAlongViewProps {
+  text: string;
+  /** Character offset of the word being spoken, or null when idle */
+  activeCharIndex: number | null;
+  onWordClick: (charIndex: number) => void;
+}
+
+interface Sentence extends TextSpan {
+  words: TextSpan[];
+}
+
+interface SentenceBlockProps {
+  text: string;
+  sentence: Sentence;
+  isActive: boolean;
+  activeWordStart: number;
+  onWordClick: (charIndex: number) => void;
+}
+
+// Only the sentences whose highlight changes re-render while speaking
+const SentenceBlock = memo(function SentenceBlock({ text, sentence, isActive, activeWordStart, onWordClick }: SentenceBlockProps) {
+  const parts: JSX.Element[] = [];
+  let cursor = sentence.start;
+
+  sentence.words.forEach((word) => {
+    if (word.start > cursor) parts.push(<span key={`gap-${cursor}`}>{text.slice(cursor, word.start)}</span>);
+    const isCurrent = word.start === activeWordStart;
+    parts.push(
+      <span
+        key={word.start}
+        data-word={isCurrent ? 'active' : undefined}
+        onClick={() => onWordClick(word.start)}
+        className={`cursor-pointer rounded px-0.5 -mx-0.5 transition-colors ${
+          isCurrent ? 'bg-yellow-400 text-slate-900' : 'hover:bg-white/20'
+        }`}
+      >
+        {text.slice(word.start, word.end)}
+      </span>
+    );
+    cursor = word.end;
+  });
+  if (cursor < sentence.end) parts.push(<span key={`gap-${cursor}`}>{text.slice(cursor, sentence.end)}</span>);
+
+  return (
+    <span className={`rounded transition-colors ${isActive ? 'bg-blue-500/25 text-white' : 'text-gray-300'}`}>
+      {parts}
+    </span>
+  );
+});
+
+function ReadAlongView({ text, activeCharIndex, onWordClick }: ReadAlongViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const clickRef = useRef(onWordClick);
+
+  useEffect(() => {
+    clickRef.current = onWordClick;
+  }, [onWordClick]);
+
+  // A stable handler keeps the memoized sentences from re-rendering on every parent render
+  const handleWordClick = useCallback((charIndex: number) => clickRef.current(charIndex), []);
+
+  const sentences = useMemo<Sentence[]>(() =>
+    sentenceSpans(text).map(span => ({ ...span, words: wordSpans(text, span) })),
+  [text]);
+
+  // Boundary offsets may point at whitespace or inside a word, so resolve the word that covers them
+  const { activeSentence, activeWord } = useMemo(() => {
+    if (activeCharIndex === null) return { activeSentence: -1, activeWord: -1 };
+    const sentenceIndex = sentences.findIndex(sentence => activeCharIndex < sentence.end);
+    const sentence = sentences[sentenceIndex];
+    const word = sentence?.words.find(w => activeCharIndex < w.end);
+    return { activeSentence: sentenceIndex, activeWord: word?.start ?? -1 };
+  }, [sentences, activeCharIndex]);
+
+  useEffect(() => {
+    const active = containerRef.current?.querySelector<HTMLElement>('[data-word="active"]');
+    active?.scrollIntoView({ block: 'center', behavior: scrollBehavior() });
+  }, [activeWord]);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <Type className="w-5 h-5 mr-2 text-yellow-400" />
+        Read Along
+        <span className="ml-auto text-xs font-normal text-gray-400">Click a word to play from there</span>
+      </h3>
+      <div ref={containerRef} className="max-h-64 overflow-y-auto leading-relaxed whitespace-pre-wrap pr-1">
+        {sentences.map((sentence, index) => (
+          <span key={sentence.start}>
+            {index > 0 && text.slice(sentences[index - 1].end, sentence.start)}
+            <SentenceBlock
+              text={text}
+              sentence={sentence}
+              isActive={index === activeSentence}
+              activeWordStart={index === activeSentence ? activeWord : -1}
+              onWordClick={handleWordClick}
+            />
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ReadAlongView;
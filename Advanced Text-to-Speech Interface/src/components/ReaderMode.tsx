@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ClipboardEvent } from 'react';
+import { BookOpenText, Pause, Pencil, Play, Square, TextSelect, X } from 'lucide-react';
+import type { SynthesisOptions, TtsEngine } from '../engines';
+import { useDialog } from '../hooks/useDialog';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { usePlayback } from '../hooks/usePlayback';
+import type { PlaybackSource } from '../hooks/usePlayback';
+import { scrollBehavior } from '../lib/accessibility';
+import { chunkText } from '../lib/chunker';
+import { assembleDocument } from '../lib/documents';
+import { htmlBlocks } from '../lib/htmlText';
+import { planProsody } from '../lib/prosody';
+import { wordSpans } from '../lib/segments';
+import type { TextSpan } from '../lib/segments';
+
+interface ReaderModeProps {
+  engine: TtsEngine;
+  options: SynthesisOptions;
+  variation: number;
+  seed: number;
+  onClose: () => void;
+}
+
+interface ReaderSpeech {
+  /** Where the spoken slice starts in the reader text */
+  base: number;
+  source: PlaybackSource;
+}
+
+// Web pages and documents paste as HTML; keep their paragraphs, drop their markup
+const pastedText = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+  const html = event.clipboardData.getData('text/html');
+  if (!html) return null;
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  return assembleDocument(htmlBlocks(page.body)).text || null;
+};
+
+/**
+ * Distraction-free reading: pasted text is shown large, one paragraph per
+ * block, and the selection (or everything) is read aloud with the current
+ * voice while the spoken word is highlighted.
+ */
+function ReaderMode({ engine, options, variation, seed, onClose }: ReaderModeProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const articleRef = useRef<HTMLElement>(null);
+  const mediaRef = useRef<HTMLAudioElement>(null);
+  const [text, setText] = useState('');
+  const [isEditing, setIsEditing] = useState(true);
+  const [selection, setSelection] = useState<TextSpan | null>(null);
+  const [speech, setSpeech] = useState<ReaderSpeech | null>(null);
+  const [activeCharIndex, setActiveCharIndex] = useState<number | null>(null);
+
+  const playback = usePlayback(engine, mediaRef, speech?.source ?? null, {
+    onPosition: (charIndex) => setActiveCharIndex(charIndex === null || !speech ? null : speech.base + charIndex)
+  });
+  const { restart } = playback;
+
+  const handleClose = () => {
+    playback.stop();
+    onClose();
+  };
+  useDialog(dialogRef, handleClose);
+
+  useEffect(() => {
+    // Every new request is read from its start
+    if (speech) restart();
+  }, [speech, restart]);
+
+  const paragraphs = useMemo(() => chunkText(text).paragraphs, [text]);
+
+  const activeWord = useMemo(() => {
+    if (activeCharIndex === null) return null;
+    return wordSpans(text).find(word => activeCharIndex < word.end) ?? null;
+  }, [text, activeCharIndex]);
+
+  useEffect(() => {
+    articleRef.current?.querySelector('mark')?.scrollIntoView({ block: 'center', behavior: scrollBehavior() });
+  }, [activeWord]);
+
+  useEffect(() => {
+    // Offsets are counted from the paragraph's start, whose own offset it carries
+    const offsetOf = (node: Node, offset: number) => {
+      const article = articleRef.current;
+      if (!article) return null;
+      if (node === article) {
+        const paragraph = article.children[offset] as HTMLElement | undefined;
+        return paragraph ? Number(paragraph.dataset.start) : text.length;
+      }
+      const element = node instanceof Element ? node : node.parentElement;
+      const paragraph = element?.closest<HTMLElement>('[data-start]');
+      if (!paragraph || !article.contains(paragraph)) return null;
+      const range = document.createRange();
+      range.setStart(paragraph, 0);
+      range.setEnd(node, offset);
+      return Number(paragraph.dataset.start) + range.toString().length;
+    };
+
+    const handleSelectionChange = () => {
+      const current = document.getSelection();
+      if (!current || current.isCollapsed || current.rangeCount === 0) {
+        setSelection(null);
+        return;
+      }
+      const range = current.getRangeAt(0);
+      const start = offsetOf(range.startContainer, range.startOffset);
+      const end = offsetOf(range.endContainer, range.endOffset);
+      setSelection(start !== null && end !== null && end > start ? { start, end } : null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [text]);
+
+  const speak = () => {
+    const span = selection ?? { start: 0, end: text.length };
+    const slice = text.slice(span.start, span.end);
+    if (!slice.trim()) return;
+    setSpeech({ base: span.start, source: { ...planProsody(slice, options, { variation, seed }), audio: null } });
+  };
+
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = pastedText(event);
+    if (pasted === null) return;
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    setText(prev => prev.slice(0, selectionStart) + pasted + prev.slice(selectionEnd));
+  };
+
+  const handleEdit = () => {
+    playback.stop();
+    setSpeech(null);
+    setSelection(null);
+    setIsEditing(true);
+  };
+
+  const isSpeaking = playback.state === 'speaking';
+  const isActive = isSpeaking || playback.state === 'paused';
+
+  useKeyboardShortcuts({
+    Space: () => (speech ? playback.toggle() : speak()),
+    s: speak
+  }, !isEditing);
+
+  const renderParagraph = (paragraph: TextSpan) => {
+    const word = activeWord && activeWord.start >= paragraph.start && activeWord.end <= paragraph.end ? activeWord : null;
+    return (
+      <p key={paragraph.start} data-start={paragraph.start} className="mb-6 whitespace-pre-wrap">
+        {word ? (
+          <>
+            {text.slice(paragraph.start, word.start)}
+            <mark className="bg-yellow-400 text-slate-900 rounded">{text.slice(word.start, word.end)}</mark>
+            {text.slice(word.end, paragraph.end)}
+          </>
+        ) : text.slice(paragraph.start, paragraph.end)}
+      </p>
+    );
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Reader"
+      className="fixed inset-0 z-50 flex flex-col bg-surface"
+    >
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/10">
+        <h2 className="text-lg font-semibold text-white flex items-center">
+          <BookOpenText className="w-5 h-5 mr-2 text-purple-400" />
+          Reader
+        </h2>
+        <div className="flex items-center space-x-2">
+          {isEditing ? (
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={!text.trim()}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm rounded-lg hover:from-purple-600 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              Read
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={speak}
+                className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm rounded-lg hover:from-purple-600 hover:to-pink-700 transition-all"
+                title="Speak (S)"
+              >
+                <TextSelect className="w-4 h-4" />
+                <span>{selection ? 'Speak selection' : 'Read all'}</span>
+              </button>
+              <button
+                onClick={playback.toggle}
+                disabled={!speech}
+                className="p-2 text-gray-300 hover:bg-white/10 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                aria-label={isSpeaking ? 'Pause' : 'Resume'}
+                title={`${isSpeaking ? 'Pause' : 'Resume'} (Space)`}
+              >
+                {isSpeaking ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </button>
+              <button
+                onClick={playback.stop}
+                disabled={!isActive}
+                className="p-2 text-gray-300 hover:bg-white/10 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                aria-label="Stop"
+                title="Stop"
+              >
+                <Square className="w-5 h-5" />
+              </button>
+              <button
+                onClick={handleEdit}
+                className="p-2 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+                aria-label="Edit text"
+                title="Edit text"
+              >
+                <Pencil className="w-5 h-5" />
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Close reader"
+            title="Close (Esc)"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-10">
+        {isEditing ? (
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onPaste={handlePaste}
+            data-autofocus
+            aria-label="Text to read"
+            placeholder="Paste an article, a web page or any text, then press Read..."
+            className="block w-full max-w-3xl h-full mx-auto p-4 bg-white/5 border border-white/20 rounded-xl text-lg text-white placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        ) : (
+          <article ref={articleRef} className="max-w-3xl mx-auto text-2xl leading-relaxed text-white">
+            {paragraphs.map(renderParagraph)}
+          </article>
+        )}
+        {playback.error && <p role="alert" className="max-w-3xl mx-auto mt-4 text-sm text-red-300">{playback.error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default ReaderMode;
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Ear, Plus, Square, Volume2 } from 'lucide-react';
+import type { SpeechRecognizer } from '../recognizers';
+import type { RoundTripStatus } from '../hooks/useRoundTrip';
+import type { FlaggedWord, RoundTripReport, WordComparison } from '../lib/roundTrip';
+
+interface RoundTripPanelProps {
+  recognizers: SpeechRecognizer[];
+  recognizerId: string;
+  status: RoundTripStatus;
+  report: RoundTripReport | null;
+  error: string | null;
+  onRecognizerChange: (id: string) => void;
+  onVerify: () => void;
+  onCancel: () => void;
+  /** Play the generated speech from a position of the source text */
+  onPlayWord: (start: number) => void;
+  /** Whether the pronunciation dictionary already has a rule for the word */
+  hasFix: (word: string) => boolean;
+  onAddFix: (word: string, replacement: string) => void;
+}
+
+const VERDICT_STYLES: Record<WordComparison['verdict'], string> = {
+  match: 'text-gray-300',
+  misheard: 'text-red-300 underline decoration-wavy decoration-red-400',
+  missing: 'text-orange-300 line-through',
+  extra: 'text-blue-300 italic'
+};
+
+const STATUS_LABELS: Record<RoundTripStatus, string> = {
+  idle: '',
+  listening: 'Playing and listening...',
+  checking: 'Comparing the transcript...',
+  done: '',
+  error: ''
+};
+
+function FixRow({ flag, hasFix, onPlay, onAdd }: {
+  flag: FlaggedWord;
+  hasFix: boolean;
+  onPlay: () => void;
+  onAdd: (replacement: string) => void;
+}) {
+  const [replacement, setReplacement] = useState(flag.word);
+  const changed = replacement.trim() !== '' && replacement.trim().toLowerCase() !== flag.word.toLowerCase();
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={onPlay}
+        className="p-1.5 text-gray-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+        title="Play from this word"
+      >
+        <Volume2 className="w-3 h-3" />
+      </button>
+      <div className="w-40 min-w-0">
+        <p className="text-sm text-white truncate">
+          {flag.word}
+          {flag.count > 1 && <span className="text-xs text-gray-400"> ×{flag.count}</span>}
+        </p>
+        <p className="text-xs text-gray-400 truncate">
+          {flag.heard ? `heard "${flag.heard}"` : 'not heard'}
+        </p>
+      </div>
+      {hasFix ? (
+        <span className="text-xs text-green-300">In the dictionary</span>
+      ) : (
+        <>
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder="Say it as..."
+            className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            title="Respell the word the way it should be said"
+          />
+          <button
+            onClick={() => onAdd(replacement.trim())}
+            disabled={!changed}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs text-gray-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+            title={changed ? 'Add a pronunciation rule' : 'Type a respelling first'}
+          >
+            <Plus className="w-3 h-3" />
+            <span>Fix</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function RoundTripPanel({
+  recognizers,
+  recognizerId,
+  status,
+  report,
+  error,
+  onRecognizerChange,
+  onVerify,
+  onCancel,
+  onPlayWord,
+  hasFix,
+  onAddFix
+}: RoundTripPanelProps) {
+  const recognizer = recognizers.find(item => item.id === recognizerId);
+  const isRunning = status === 'listening' || status === 'checking';
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <Ear className="w-5 h-5 mr-2 text-green-400" />
+          Round-trip Check
+        </h3>
+        {report && (
+          <span className="text-sm text-gray-400" title="Source words the recognizer heard correctly">
+            {Math.round(report.accuracy * 100)}% heard
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={recognizerId}
+          onChange={(e) => onRecognizerChange(e.target.value)}
+          disabled={isRunning}
+          className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {recognizers.map((item) => (
+            <option key={item.id} value={item.id} disabled={!item.isAvailable()} className="bg-slate-800">
+              {item.label}{item.isAvailable() ? '' : ' (unavailable)'}
+            </option>
+          ))}
+        </select>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg border border-white/20 transition-colors"
+          >
+            <Square className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={onVerify}
+            disabled={!recognizer?.isAvailable()}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-green-500 to-teal-600 text-white text-sm rounded-lg hover:from-green-600 hover:to-teal-700 transition-all disabled:opacity-50"
+          >
+            <Ear className="w-4 h-4" />
+            <span>Verify</span>
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        {recognizer?.capabilities.microphone
+          ? 'Plays the speech aloud and listens through the microphone; use speakers, not headphones.'
+          : recognizer?.description}
+      </p>
+
+      {isRunning && <p className="text-sm text-gray-300 mb-4">{STATUS_LABELS[status]}</p>}
+      {error && <p className="text-sm text-red-300 mb-4">{error}</p>}
+
+      {report && (
+        <>
+          <div className="max-h-48 overflow-y-auto bg-white/5 rounded-xl p-3 mb-4 text-sm leading-relaxed">
+            {report.words.map((word, index) => (
+              <span
+                key={index}
+                className={VERDICT_STYLES[word.verdict]}
+                title={word.heard ? `Heard "${word.heard}"` : word.verdict === 'missing' ? 'Not heard' : undefined}
+              >
+                {word.verdict === 'extra' ? `+${word.heard}` : word.word}{' '}
+              </span>
+            ))}
+          </div>
+
+          {report.flagged.length === 0 ? (
+            <p className="text-sm text-green-300">Every word was heard as written.</p>
+          ) : (
+            <div>
+              <p className="text-xs font-medium text-gray-300 mb-2">Possible mispronunciations</p>
+              <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                {report.flagged.map((flag) => (
+                  <FixRow
+                    key={`${report.transcript}:${flag.word}`}
+                    flag={flag}
+                    hasFix={hasFix(flag.word)}
+                    onPlay={() => onPlayWord(flag.start)}
+                    onAdd={(replacement) => onAddFix(flag.word, replacement)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RoundTripPanel;
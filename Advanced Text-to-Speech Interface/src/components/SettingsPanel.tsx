@@ -0,0 +1,165 @@
+import { useRef } from 'react';
+import { BookOpenText, Keyboard, Settings, X } from 'lucide-react';
+import { useDialog } from '../hooks/useDialog';
+import { READING_FONTS, TEXT_SCALE_MAX, TEXT_SCALE_MIN, THEMES } from '../lib/accessibility';
+import type { AccessibilitySettings } from '../lib/accessibility';
+import ParameterSlider from './ParameterSlider';
+
+export interface ShortcutHelp {
+  keys: string[];
+  action: string;
+}
+
+interface SettingsPanelProps {
+  settings: AccessibilitySettings;
+  shortcuts: ShortcutHelp[];
+  onChange: (patch: Partial<AccessibilitySettings>) => void;
+  onOpenReader: () => void;
+  onClose: () => void;
+}
+
+function SettingsPanel({ settings, shortcuts, onChange, onOpenReader, onClose }: SettingsPanelProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialog(dialogRef, onClose);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/60 p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        className="w-full max-w-2xl my-8 bg-surface border border-white/20 rounded-2xl p-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="settings-title" className="text-lg font-semibold text-white flex items-center">
+            <Settings className="w-5 h-5 mr-2 text-blue-400" />
+            Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-300 hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Close settings"
+            title="Close (Esc)"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-300 mb-2">Theme</legend>
+            <div className="grid grid-cols-3 gap-2">
+              {THEMES.map((theme) => (
+                <label
+                  key={theme.id}
+                  className={`flex items-center justify-center px-3 py-2 text-sm rounded-lg border cursor-pointer transition-colors has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-blue-400 ${
+                    settings.theme === theme.id ? 'bg-blue-500/20 border-blue-400 text-white' : 'bg-white/5 border-white/20 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="theme"
+                    value={theme.id}
+                    checked={settings.theme === theme.id}
+                    onChange={() => onChange({ theme: theme.id })}
+                    className="sr-only"
+                  />
+                  {theme.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-300 mb-2">Font</legend>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {READING_FONTS.map((font) => (
+                <label
+                  key={font.id}
+                  className={`block px-3 py-2 rounded-lg border cursor-pointer transition-colors has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-blue-400 ${
+                    settings.font === font.id ? 'bg-blue-500/20 border-blue-400' : 'bg-white/5 border-white/20 hover:bg-white/10'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="font"
+                    value={font.id}
+                    checked={settings.font === font.id}
+                    onChange={() => onChange({ font: font.id })}
+                    className="sr-only"
+                  />
+                  <span className="block text-sm text-white">{font.label}</span>
+                  <span className="block text-xs text-gray-400">{font.description}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <ParameterSlider
+            label="Text Size"
+            min={TEXT_SCALE_MIN}
+            max={TEXT_SCALE_MAX}
+            step={0.125}
+            value={settings.textScale}
+            onChange={(textScale) => onChange({ textScale })}
+            format={(value) => `${Math.round(value * 100)}%`}
+          />
+
+          <div className="space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.reduceMotion}
+                onChange={(e) => onChange({ reduceMotion: e.target.checked })}
+                className="accent-blue-500"
+              />
+              <span>Reduce motion</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.announcements}
+                onChange={(e) => onChange({ announcements: e.target.checked })}
+                className="accent-blue-500"
+              />
+              <span>Announce playback and generation changes to screen readers</span>
+            </label>
+          </div>
+
+          <button
+            onClick={onOpenReader}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm rounded-lg hover:from-purple-600 hover:to-pink-700 transition-all"
+          >
+            <BookOpenText className="w-4 h-4" />
+            <span>Open reader mode</span>
+          </button>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+              <Keyboard className="w-4 h-4 mr-2" />
+              Keyboard Shortcuts
+            </h3>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              {shortcuts.map((shortcut) => (
+                <div key={shortcut.action} className="flex items-center justify-between py-1 border-b border-white/10">
+                  <dt className="text-gray-300">{shortcut.action}</dt>
+                  <dd className="flex space-x-1">
+                    {shortcut.keys.map((key) => (
+                      <kbd key={key} className="px-2 py-0.5 text-xs text-white bg-white/10 border border-white/20 rounded">
+                        {key}
+                      </kbd>
+                    ))}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPanel;
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import type { EngineVoice } from '../engines';
+import { groupVoicesByLanguage } from '../lib/voices';
+
+interface VoiceSelectProps {
+  voices: EngineVoice[];
+  value: string;
+  onChange: (voiceId: string) => void;
+  id?: string;
+  className?: string;
+}
+
+function VoiceSelect({ voices, value, onChange, id, className = '' }: VoiceSelectProps) {
+  const groups = useMemo(() => groupVoicesByLanguage(voices), [voices]);
+
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${className}`}
+    >
+      {groups.map((group) => (
+        <optgroup key={group.locale} label={group.label} className="bg-slate-800">
+          {group.voices.map((voice) => (
+            <option key={voice.id} value={voice.id} className="bg-slate-800">
+              {voice.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
+
+export default VoiceSelect;
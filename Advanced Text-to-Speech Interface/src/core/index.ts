@@ -0,0 +1,21 @@
+// Public surface of the headless synthesis core. Everything here runs without
+// a DOM, so build scripts, tests and the CLI can generate audio offline.
+
+export { DEFAULT_RENDER_ENGINE, listVoices, synthesize, synthesizeStream, toWav } from './synthesize';
+export type { AudioResult, SynthesisStream, SynthesizeOptions, WavOptions } from './synthesize';
+
+export { getEngine, hasEngine, listEngines } from '../engines';
+export type { BoundaryEvent, EngineVoice, RenderedAudio, SynthesisOptions, TtsEngine } from '../engines';
+export type { BitDepth } from '../audio/wav';
+
+export { createNormalizer, DEFAULT_PRONUNCIATION_SETTINGS } from '../lib/pronunciation';
+export type { Normalizer, PronunciationSettings } from '../lib/pronunciation';
+export { createLexiconEntry, parseLexiconFile, serializeLexicon } from '../lib/lexicon';
+export type { LexiconEntry } from '../lib/lexicon';
+export { BUILT_IN_RULE_GROUPS, DEFAULT_BUILT_IN_RULES } from '../lib/normalize';
+export type { BuiltInRuleGroup, BuiltInRuleSettings, NormalizedText } from '../lib/normalize';
+
+export { DEFAULT_VOICE_SETTINGS, toSynthesisOptions } from '../lib/settings';
+export type { VoiceSettings } from '../lib/settings';
+export { planProsody } from '../lib/prosody';
+export type { ProsodyPhrase, ProsodyPlan, ProsodySettings, RenderedPhrase } from '../lib/prosody';
@@ -0,0 +1,102 @@
+// Wire format of the local synthesis server, shared by the server and the
+// app's server engine so both sides always agree on it.
+
+import type { BitDepth } from '../audio/wav';
+import type { EngineVoice } from '../engines';
+
+export const DEFAULT_SERVER_PORT = 8787;
+export const MAX_REQUEST_TEXT = 20000;
+/** Audio frames of a stream carry at most this much sound */
+export const STREAM_FRAME_SECONDS = 0.5;
+
+export interface SynthesizeRequest {
+  text: string;
+  /** Server engine id; the server's default when omitted */
+  engine?: string;
+  voice?: string;
+  pitch?: number;
+  speed?: number;
+  variation?: number;
+  seed?: number;
+  /** False speaks the text as one plain phrase, for clients that plan prosody themselves */
+  prosody?: boolean;
+  /** False skips the built-in text normalization */
+  normalize?: boolean;
+  sampleRate?: number;
+  bitDepth?: BitDepth;
+}
+
+/** One line of an NDJSON stream */
+export type StreamEvent =
+  | { type: 'start'; text: string; seed: number; voice: EngineVoice | null }
+  | { type: 'audio'; sampleRate: number; time: number; samples: string }
+  | { type: 'word'; charIndex: number; charLength: number; time: number }
+  | { type: 'end'; duration: number }
+  | { type: 'error'; message: string };
+
+export interface VoicesResponse {
+  engine: string;
+  voices: EngineVoice[];
+}
+
+/**
+ * The CLI's own limits; anything else would render garbage or exhaust the
+ * server. The formant engine speaks no slower than 0.25, so a slower speed
+ * would only stretch a long text's buffer.
+ */
+export const REQUEST_LIMITS = {
+  pitch: { min: 0.1, max: 2, integer: false },
+  speed: { min: 0.25, max: 10, integer: false },
+  variation: { min: 0, max: 1, integer: false },
+  seed: { min: 0, max: 0xffffffff, integer: false },
+  sampleRate: { min: 8000, max: 192000, integer: true }
+} as const;
+const BIT_DEPTHS: BitDepth[] = [8, 16, 24, 32];
+
+/** Validate a request body; the error message is meant for the client */
+export function parseSynthesizeRequest(body: unknown): SynthesizeRequest {
+  if (typeof body !== 'object' || body === null) throw new Error('Request body must be a JSON object');
+  const request = body as Record<string, unknown>;
+
+  if (typeof request.text !== 'string' || !request.text.trim()) throw new Error('"text" must be a non-empty string');
+  if (request.text.length > MAX_REQUEST_TEXT) throw new Error(`"text" is longer than ${MAX_REQUEST_TEXT} characters`);
+  for (const field of ['engine', 'voice'] as const) {
+    if (request[field] !== undefined && typeof request[field] !== 'string') throw new Error(`"${field}" must be a string`);
+  }
+  for (const [field, { min, max, integer }] of Object.entries(REQUEST_LIMITS)) {
+    const value = request[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${field}" must be a number`);
+    if (value < min || value > max || (integer && !Number.isInteger(value))) {
+      throw new Error(`"${field}" must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}`);
+    }
+  }
+  for (const field of ['prosody', 'normalize'] as const) {
+    if (request[field] !== undefined && typeof request[field] !== 'boolean') throw new Error(`"${field}" must be true or false`);
+  }
+  if (request.bitDepth !== undefined && !BIT_DEPTHS.includes(request.bitDepth as BitDepth)) {
+    throw new Error('"bitDepth" must be 8, 16, 24 or 32');
+  }
+  return request as unknown as SynthesizeRequest;
+}
+
+/** 16-bit little-endian PCM as base64, so frames travel as JSON */
+export function encodePcm16(samples: Float32Array): string {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, index) => {
+    view.setInt16(index * 2, Math.round(Math.max(-1, Math.min(1, sample)) * 0x7fff), true);
+  });
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+export function decodePcm16(data: string): Float32Array {
+  const binary = atob(data);
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) view.setUint8(i, binary.charCodeAt(i));
+  const samples = new Float32Array(binary.length / 2);
+  for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 0x7fff;
+  return samples;
+}
@@ -0,0 +1,122 @@
+// Synthesis without a page: resolve the voice, normalize, plan prosody and
+// render to PCM. The app, the batch queue and the CLI all go through here.
+
+import { getEngine, withNormalization } from '../engines';
+import type { EngineVoice, RenderedAudio, TtsEngine } from '../engines';
+import { encodeWav, resample } from '../audio/wav';
+import type { BitDepth } from '../audio/wav';
+import { createNormalizer, DEFAULT_PRONUNCIATION_SETTINGS } from '../lib/pronunciation';
+import type { PronunciationSettings } from '../lib/pronunciation';
+import { planProsody, renderPhrases, renderProsody } from '../lib/prosody';
+import type { ProsodyPhrase, ProsodyPlan, RenderedPhrase } from '../lib/prosody';
+import { randomSeed } from '../lib/random';
+import { DEFAULT_VOICE_SETTINGS, toSynthesisOptions } from '../lib/settings';
+import { resolveVoice } from '../lib/voices';
+import type { VoiceMatch } from '../lib/voices';
+
+/** The bundled engine that renders offline, in the browser and in Node alike */
+export const DEFAULT_RENDER_ENGINE = 'formant';
+
+export interface SynthesizeOptions {
+  /** Engine id or instance; it must be able to render audio */
+  engine?: string | TtsEngine;
+  /** Voice id, name or language tag; the engine's default voice when omitted */
+  voice?: string;
+  pitch?: number;
+  speed?: number;
+  /** Expressiveness from 0 to 1, see planProsody */
+  variation?: number;
+  /** Fixes the variation; a random one is picked and reported back when omitted */
+  seed?: number;
+  /** Plan phrases, intonation and emphasis; false speaks the text as one plain phrase */
+  prosody?: boolean;
+  /** Rules to normalize the text with, or false to speak it exactly as given */
+  pronunciation?: PronunciationSettings | false;
+}
+
+export interface AudioResult extends RenderedAudio {
+  /** The text that was spoken, with emphasis marks removed; boundaries index into it */
+  text: string;
+  phrases: ProsodyPhrase[];
+  /** Length in seconds */
+  duration: number;
+  seed: number;
+  voice: EngineVoice | null;
+  /** How the requested voice was found, or null when none was requested */
+  voiceMatch: VoiceMatch | null;
+}
+
+const resolveEngine = (engine: string | TtsEngine = DEFAULT_RENDER_ENGINE) =>
+  typeof engine === 'string' ? getEngine(engine) : engine;
+
+export function listVoices(engine?: string | TtsEngine): Promise<EngineVoice[]> {
+  return resolveEngine(engine).getVoices();
+}
+
+// Everything a render needs, shared by the whole-clip and the streaming API
+async function prepare(text: string, options: SynthesizeOptions) {
+  const baseEngine = resolveEngine(options.engine);
+  if (!baseEngine.capabilities.audioOutput || !baseEngine.render) {
+    throw new Error(`${baseEngine.label} cannot render audio`);
+  }
+
+  const voices = await baseEngine.getVoices();
+  const requested = options.voice ? resolveVoice({ id: options.voice, name: options.voice, lang: options.voice }, voices) : null;
+  const voice = requested?.voice ?? voices.find(candidate => candidate.isDefault) ?? voices[0] ?? null;
+
+  const pronunciation = options.pronunciation ?? DEFAULT_PRONUNCIATION_SETTINGS;
+  const engine = pronunciation ? withNormalization(baseEngine, createNormalizer(pronunciation)) : baseEngine;
+
+  const seed = options.seed ?? randomSeed();
+  const settings = {
+    pitch: options.pitch ?? DEFAULT_VOICE_SETTINGS.pitch,
+    speed: options.speed ?? DEFAULT_VOICE_SETTINGS.speed,
+    temperature: options.variation ?? DEFAULT_VOICE_SETTINGS.temperature
+  };
+  const synthesisOptions = toSynthesisOptions(settings, voice?.id);
+  const plan: ProsodyPlan = options.prosody === false
+    ? { text, phrases: [{ start: 0, end: text.length, emphasis: false, options: synthesisOptions }] }
+    : planProsody(text, synthesisOptions, { variation: settings.temperature, seed });
+
+  return { engine, plan, seed, voice, voiceMatch: requested?.match ?? null };
+}
+
+export async function synthesize(text: string, options: SynthesizeOptions = {}): Promise<AudioResult> {
+  const { engine, plan, seed, voice, voiceMatch } = await prepare(text, options);
+  const audio = await renderProsody(engine, plan);
+
+  return {
+    ...audio,
+    text: plan.text,
+    phrases: plan.phrases,
+    duration: audio.samples.length / audio.sampleRate,
+    seed,
+    voice,
+    voiceMatch
+  };
+}
+
+export interface SynthesisStream {
+  text: string;
+  seed: number;
+  voice: EngineVoice | null;
+  voiceMatch: VoiceMatch | null;
+  /** Phrases in order, each yielded as soon as it has been rendered */
+  phrases: AsyncIterable<RenderedPhrase>;
+}
+
+/** Like synthesize, but hands out audio phrase by phrase instead of waiting for the whole clip */
+export async function synthesizeStream(text: string, options: SynthesizeOptions = {}): Promise<SynthesisStream> {
+  const { engine, plan, seed, voice, voiceMatch } = await prepare(text, options);
+  return { text: plan.text, seed, voice, voiceMatch, phrases: renderPhrases(engine, plan) };
+}
+
+export interface WavOptions {
+  sampleRate?: number;
+  bitDepth?: BitDepth;
+}
+
+/** The bytes of a WAV file, for writing to disk or sending over the wire */
+export function toWav(audio: RenderedAudio, { sampleRate = audio.sampleRate, bitDepth = 16 }: WavOptions = {}): Uint8Array {
+  return new Uint8Array(encodeWav(resample(audio.samples, audio.sampleRate, sampleRate), sampleRate, bitDepth));
+}
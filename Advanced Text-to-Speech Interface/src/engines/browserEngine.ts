@@ -0,0 +1,91 @@
+import type { EngineVoice, SynthesisCallbacks, SynthesisOptions, TtsEngine } from './types';
+
+const toEngineVoice = (voice: SpeechSynthesisVoice): EngineVoice => ({
+  id: voice.name,
+  name: voice.name,
+  lang: voice.lang,
+  localService: voice.localService,
+  isDefault: voice.default
+});
+
+export function createBrowserEngine(): TtsEngine {
+  const isAvailable = () =>
+    typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+  return {
+    id: 'browser',
+    label: 'Browser Speech Synthesis',
+    description: 'Voices installed in the browser and operating system',
+    capabilities: {
+      pauseResume: true,
+      boundaryEvents: true,
+      audioOutput: false,
+      ssml: false,
+      offline: false
+    },
+
+    isAvailable,
+
+    async getVoices() {
+      if (!isAvailable()) return [];
+      return speechSynthesis.getVoices().map(toEngineVoice);
+    },
+
+    onVoicesChanged(listener) {
+      if (!isAvailable()) return () => {};
+      speechSynthesis.addEventListener('voiceschanged', listener);
+      return () => speechSynthesis.removeEventListener('voiceschanged', listener);
+    },
+
+    speak(text: string, options: SynthesisOptions, callbacks: SynthesisCallbacks = {}) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.pitch = options.pitch;
+      utterance.rate = options.rate;
+      utterance.volume = options.volume;
+
+      const voice = speechSynthesis.getVoices().find(v => v.name === options.voiceId);
+      if (voice) {
+        utterance.voice = voice;
+        utterance.lang = voice.lang;
+      }
+
+      // Browsers disagree on the unit of SpeechSynthesisEvent.elapsedTime, so keep our own clock
+      let startedAt = performance.now();
+      utterance.onstart = () => {
+        startedAt = performance.now();
+        callbacks.onStart?.();
+      };
+      utterance.onend = () => callbacks.onEnd?.();
+      utterance.onerror = (event) => {
+        // cancel() reports an error on the pending utterance, which is not a failure
+        if (event.error === 'canceled' || event.error === 'interrupted') {
+          callbacks.onCancel?.();
+          return;
+        }
+        callbacks.onError?.(new Error(`Speech synthesis error: ${event.error}`));
+      };
+      utterance.onboundary = (event) => {
+        if (event.name !== 'word') return;
+        callbacks.onBoundary?.({
+          charIndex: event.charIndex,
+          charLength: event.charLength ?? 0,
+          elapsedTime: (performance.now() - startedAt) / 1000
+        });
+      };
+
+      speechSynthesis.speak(utterance);
+    },
+
+    cancel() {
+      if (isAvailable()) speechSynthesis.cancel();
+    },
+
+    pause() {
+      if (isAvailable()) speechSynthesis.pause();
+    },
+
+    resume() {
+      if (isAvailable()) speechSynthesis.resume();
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import { getAudioContext, getOutputNode } from '../audio/output';
+import type { RenderedAudio, SynthesisCallbacks } from './types';
+
+export interface BufferPlayer {
+  play(audio: RenderedAudio, callbacks?: SynthesisCallbacks): void;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
+
+/**
+ * Plays rendered PCM through Web Audio for engines that produce audio buffers,
+ * replaying their word timings as boundary events.
+ */
+export function createBufferPlayer(): BufferPlayer {
+  let context: AudioContext | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let ticker: ReturnType<typeof setInterval> | null = null;
+  // Callbacks of the clip that is playing, told when it is stopped early
+  let playing: SynthesisCallbacks | null = null;
+
+  const release = () => {
+    if (ticker) clearInterval(ticker);
+    ticker = null;
+    if (source) {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+      source = null;
+    }
+  };
+
+  const stop = () => {
+    const stopped = playing;
+    playing = null;
+    release();
+    stopped?.onCancel?.();
+  };
+
+  return {
+    play(audio, callbacks = {}) {
+      stop();
+      context = getAudioContext();
+      const buffer = context.createBuffer(1, Math.max(1, audio.samples.length), audio.sampleRate);
+      buffer.copyToChannel(audio.samples, 0);
+
+      const node = context.createBufferSource();
+      node.buffer = buffer;
+      node.connect(getOutputNode());
+      source = node;
+      playing = callbacks;
+
+      const ctx = context;
+      let startedAt = 0;
+      let nextBoundary = 0;
+      node.onended = () => {
+        playing = null;
+        release();
+        callbacks.onEnd?.();
+      };
+
+      ctx.resume().then(() => {
+        if (source !== node) return;
+        startedAt = ctx.currentTime;
+        node.start();
+        callbacks.onStart?.();
+
+        // The context clock stops while suspended, so pausing also pauses boundaries
+        ticker = setInterval(() => {
+          const elapsed = ctx.currentTime - startedAt;
+          while (nextBoundary < audio.boundaries.length && audio.boundaries[nextBoundary].elapsedTime <= elapsed) {
+            callbacks.onBoundary?.(audio.boundaries[nextBoundary]);
+            nextBoundary++;
+          }
+        }, 30);
+      }).catch((error: unknown) => {
+        if (playing !== callbacks) return;
+        playing = null;
+        release();
+        callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+      });
+    },
+
+    stop,
+
+    pause() {
+      context?.suspend();
+    },
+
+    resume() {
+      context?.resume();
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { createBufferPlayer } from './bufferPlayer';
+import { FORMANT_VOICES, renderFormantSpeech } from './formantSynth';
+import type { EngineVoice, SynthesisCallbacks, SynthesisOptions, TtsEngine } from './types';
+
+const voices: EngineVoice[] = FORMANT_VOICES.map((voice, index) => ({
+  id: voice.id,
+  name: voice.name,
+  lang: 'en-US',
+  localService: true,
+  isDefault: index === 0
+}));
+
+export function createFormantEngine(): TtsEngine {
+  const player = createBufferPlayer();
+  // An utterance still rendering; cancelling it must keep it silent once its audio is ready
+  let rendering: SynthesisCallbacks | null = null;
+
+  const cancel = () => {
+    const cancelled = rendering;
+    rendering = null;
+    player.stop();
+    cancelled?.onCancel?.();
+  };
+
+  const render = async (text: string, options: SynthesisOptions) => {
+    const voice = FORMANT_VOICES.find(v => v.id === options.voiceId) ?? FORMANT_VOICES[0];
+    return renderFormantSpeech(text, {
+      voice,
+      pitch: options.pitch,
+      rate: options.rate,
+      volume: options.volume
+    });
+  };
+
+  return {
+    id: 'formant',
+    label: 'Formant Synthesizer',
+    description: 'Bundled offline synthesizer that renders downloadable audio',
+    capabilities: {
+      pauseResume: true,
+      boundaryEvents: true,
+      audioOutput: true,
+      ssml: false,
+      offline: true
+    },
+
+    isAvailable: () => true,
+
+    async getVoices() {
+      return voices;
+    },
+
+    onVoicesChanged() {
+      // The bundled voice list never changes
+      return () => {};
+    },
+
+    speak(text, options, callbacks = {}) {
+      cancel();
+      rendering = callbacks;
+      render(text, options)
+        .then((audio) => {
+          if (rendering !== callbacks) return;
+          rendering = null;
+          player.play(audio, callbacks);
+        })
+        .catch((error: unknown) => {
+          if (rendering !== callbacks) return;
+          rendering = null;
+          callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+        });
+    },
+
+    cancel,
+    pause: player.pause,
+    resume: player.resume,
+    render
+  };
+}
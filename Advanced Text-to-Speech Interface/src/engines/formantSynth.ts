@@ -0,0 +1,356 @@
+// A small rule-based formant synthesizer. It trades naturalness for being fully
+// offline, dependency-free and deterministic: the same text and settings always
+// render the same samples.
+
+import type { RenderedAudio } from './types';
+
+export interface FormantVoice {
+  id: string;
+  name: string;
+  /** Base fundamental frequency in Hz */
+  f0: number;
+  /** Multiplier applied to every formant (vocal tract length) */
+  formantScale: number;
+  /** Amount of pitch movement across a phrase, 0 = monotone */
+  intonation: number;
+}
+
+export interface FormantRenderOptions {
+  voice: FormantVoice;
+  pitch: number;
+  rate: number;
+  volume: number;
+  sampleRate?: number;
+}
+
+export const FORMANT_VOICES: FormantVoice[] = [
+  { id: 'formant-baritone', name: 'Formant Baritone', f0: 105, formantScale: 1.0, intonation: 0.25 },
+  { id: 'formant-alto', name: 'Formant Alto', f0: 185, formantScale: 1.16, intonation: 0.3 },
+  { id: 'formant-robot', name: 'Formant Robot', f0: 120, formantScale: 1.05, intonation: 0 }
+];
+
+export const FORMANT_SAMPLE_RATE = 22050;
+
+type PhonemeKind = 'vowel' | 'sonorant' | 'fricative' | 'plosive' | 'silence';
+
+interface PhonemeSpec {
+  kind: PhonemeKind;
+  /** Formant targets in Hz; diphthongs glide to `to` */
+  formants: [number, number, number];
+  to?: [number, number, number];
+  /** Nominal duration in milliseconds at rate 1 */
+  duration: number;
+  voiced: boolean;
+  amplitude: number;
+  /** Centre frequency of the frication noise */
+  noise?: number;
+}
+
+const vowel = (f1: number, f2: number, f3: number, duration = 110, to?: [number, number, number]): PhonemeSpec => ({
+  kind: 'vowel', formants: [f1, f2, f3], to, duration, voiced: true, amplitude: 1
+});
+
+const PHONEMES: Record<string, PhonemeSpec> = {
+  IY: vowel(270, 2290, 3010),
+  IH: vowel(390, 1990, 2550, 80),
+  EH: vowel(530, 1840, 2480, 90),
+  AE: vowel(660, 1720, 2410, 120),
+  AA: vowel(730, 1090, 2440, 120),
+  AO: vowel(570, 840, 2410, 120),
+  UH: vowel(440, 1020, 2240, 80),
+  UW: vowel(300, 870, 2240),
+  AH: vowel(520, 1190, 2390, 80),
+  ER: vowel(490, 1350, 1690, 120),
+  EY: vowel(530, 1840, 2480, 150, [270, 2290, 3010]),
+  AY: vowel(730, 1090, 2440, 160, [270, 2290, 3010]),
+  OW: vowel(570, 840, 2410, 150, [300, 870, 2240]),
+  AW: vowel(730, 1090, 2440, 160, [300, 870, 2240]),
+  OY: vowel(570, 840, 2410, 160, [270, 2290, 3010]),
+  L: { kind: 'sonorant', formants: [360, 1300, 2800], duration: 60, voiced: true, amplitude: 0.7 },
+  R: { kind: 'sonorant', formants: [420, 1300, 1600], duration: 60, voiced: true, amplitude: 0.7 },
+  W: { kind: 'sonorant', formants: [300, 610, 2200], duration: 50, voiced: true, amplitude: 0.6 },
+  Y: { kind: 'sonorant', formants: [260, 2070, 3020], duration: 50, voiced: true, amplitude: 0.6 },
+  M: { kind: 'sonorant', formants: [280, 900, 2200], duration: 70, voiced: true, amplitude: 0.45 },
+  N: { kind: 'sonorant', formants: [280, 1700, 2600], duration: 60, voiced: true, amplitude: 0.45 },
+  NG: { kind: 'sonorant', formants: [280, 2300, 2750], duration: 70, voiced: true, amplitude: 0.45 },
+  S: { kind: 'fricative', formants: [320, 1400, 2500], duration: 100, voiced: false, amplitude: 0.35, noise: 6000 },
+  SH: { kind: 'fricative', formants: [320, 1800, 2500], duration: 100, voiced: false, amplitude: 0.35, noise: 3000 },
+  F: { kind: 'fricative', formants: [320, 1400, 2500], duration: 90, voiced: false, amplitude: 0.15, noise: 5000 },
+  TH: { kind: 'fricative', formants: [320, 1400, 2500], duration: 90, voiced: false, amplitude: 0.12, noise: 4500 },
+  H: { kind: 'fricative', formants: [500, 1500, 2500], duration: 60, voiced: false, amplitude: 0.15, noise: 1500 },
+  Z: { kind: 'fricative', formants: [320, 1400, 2500], duration: 80, voiced: true, amplitude: 0.3, noise: 6000 },
+  ZH: { kind: 'fricative', formants: [320, 1800, 2500], duration: 80, voiced: true, amplitude: 0.3, noise: 3000 },
+  V: { kind: 'fricative', formants: [320, 1400, 2500], duration: 70, voiced: true, amplitude: 0.2, noise: 4000 },
+  DH: { kind: 'fricative', formants: [320, 1400, 2500], duration: 60, voiced: true, amplitude: 0.2, noise: 4000 },
+  P: { kind: 'plosive', formants: [400, 1100, 2300], duration: 80, voiced: false, amplitude: 0.25, noise: 900 },
+  T: { kind: 'plosive', formants: [400, 1600, 2600], duration: 80, voiced: false, amplitude: 0.3, noise: 4000 },
+  K: { kind: 'plosive', formants: [400, 1800, 2400], duration: 85, voiced: false, amplitude: 0.3, noise: 2000 },
+  B: { kind: 'plosive', formants: [400, 1100, 2300], duration: 70, voiced: true, amplitude: 0.25, noise: 900 },
+  D: { kind: 'plosive', formants: [400, 1600, 2600], duration: 70, voiced: true, amplitude: 0.25, noise: 4000 },
+  G: { kind: 'plosive', formants: [400, 1800, 2400], duration: 75, voiced: true, amplitude: 0.25, noise: 2000 },
+  _: { kind: 'silence', formants: [500, 1500, 2500], duration: 40, voiced: false, amplitude: 0 }
+};
+
+// Grapheme rules, longest first within each leading letter
+const LETTER_RULES: [string, string[]][] = [
+  ['tion', ['SH', 'AH', 'N']], ['sion', ['ZH', 'AH', 'N']], ['ough', ['AO']], ['igh', ['AY']],
+  ['tch', ['CH']], ['dge', ['JH']], ['th', ['TH']], ['sh', ['SH']], ['ch', ['CH']], ['ph', ['F']],
+  ['ng', ['NG']], ['ck', ['K']], ['qu', ['K', 'W']], ['wh', ['W']], ['kn', ['N']], ['wr', ['R']],
+  ['ee', ['IY']], ['ea', ['IY']], ['ie', ['IY']], ['oo', ['UW']], ['ou', ['AW']], ['ow', ['OW']],
+  ['oa', ['OW']], ['ai', ['EY']], ['ay', ['EY']], ['ei', ['EY']], ['ey', ['IY']], ['oi', ['OY']],
+  ['oy', ['OY']], ['au', ['AO']], ['aw', ['AO']], ['ew', ['UW']], ['er', ['ER']], ['ir', ['ER']],
+  ['ur', ['ER']], ['ar', ['AA', 'R']], ['or', ['AO', 'R']], ['ll', ['L']], ['ss', ['S']],
+  ['a', ['AE']], ['b', ['B']], ['d', ['D']], ['e', ['EH']], ['f', ['F']], ['g', ['G']], ['h', ['H']],
+  ['i', ['IH']], ['j', ['JH']], ['k', ['K']], ['l', ['L']], ['m', ['M']], ['n', ['N']], ['o', ['AA']],
+  ['p', ['P']], ['r', ['R']], ['s', ['S']], ['t', ['T']], ['u', ['AH']], ['v', ['V']], ['w', ['W']],
+  ['x', ['K', 'S']], ['z', ['Z']]
+];
+
+const LONG_VOWELS: Record<string, string> = { a: 'EY', e: 'IY', i: 'AY', o: 'OW', u: 'UW' };
+
+const WHOLE_WORDS: Record<string, string[]> = {
+  the: ['DH', 'AH'], a: ['AH'], of: ['AH', 'V'], to: ['T', 'UW'], you: ['Y', 'UW'], is: ['IH', 'Z'],
+  was: ['W', 'AH', 'Z'], are: ['AA', 'R'], one: ['W', 'AH', 'N'], two: ['T', 'UW'], do: ['D', 'UW'],
+  i: ['AY'], be: ['B', 'IY'], he: ['H', 'IY'], she: ['SH', 'IY'], we: ['W', 'IY'], me: ['M', 'IY']
+};
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+const AFFRICATES: Record<string, string[]> = { CH: ['T', 'SH'], JH: ['D', 'ZH'] };
+
+/** Convert a single lowercase word into phoneme symbols using spelling rules */
+export function wordToPhonemes(word: string): string[] {
+  const lower = word.toLowerCase();
+  if (WHOLE_WORDS[lower]) return WHOLE_WORDS[lower];
+  if (/^\d+$/.test(lower)) {
+    return lower.split('').flatMap(digit => wordToPhonemes(DIGIT_WORDS[Number(digit)]));
+  }
+
+  let letters = lower.replace(/[^a-z]/g, '');
+  let longVowelAt = -1;
+  // Silent final "e" lengthens the preceding vowel: "make", "time", "hope"
+  const magicE = /([aeiou])([^aeiou])e$/.exec(letters);
+  if (magicE && letters.length > 3) {
+    longVowelAt = magicE.index;
+    letters = letters.slice(0, -1);
+  }
+
+  const phonemes: string[] = [];
+  let i = 0;
+  while (i < letters.length) {
+    if (i === longVowelAt) {
+      phonemes.push(LONG_VOWELS[letters[i]]);
+      i++;
+      continue;
+    }
+    const digraph = LETTER_RULES.find(([graph]) => graph.length > 1 && letters.startsWith(graph, i));
+    if (!digraph && letters[i] === 'c') {
+      phonemes.push(/[eiy]/.test(letters[i + 1] ?? '') ? 'S' : 'K');
+      i++;
+      continue;
+    }
+    if (!digraph && letters[i] === 'y') {
+      phonemes.push(i === 0 ? 'Y' : i === letters.length - 1 && letters.length > 2 ? 'IY' : 'IH');
+      i++;
+      continue;
+    }
+    const rule = digraph ?? LETTER_RULES.find(([graph]) => graph === letters[i]);
+    if (rule) {
+      phonemes.push(...rule[1]);
+      i += rule[0].length;
+    } else {
+      i++;
+    }
+  }
+
+  return phonemes.flatMap(symbol => AFFRICATES[symbol] ?? [symbol]);
+}
+
+interface Segment {
+  spec: PhonemeSpec;
+  durationSeconds: number;
+  /** Position of the segment inside its phrase, 0..1, used for intonation */
+  phrasePosition: number;
+  question: boolean;
+}
+
+interface TokenizedWord {
+  text: string;
+  charIndex: number;
+  pause: number;
+}
+
+const PAUSES: Record<string, number> = { '.': 320, '!': 320, '?': 320, ',': 160, ';': 200, ':': 200 };
+
+function tokenize(text: string): TokenizedWord[] {
+  const words: TokenizedWord[] = [];
+  const pattern = /[A-Za-z0-9']+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const rest = text.slice(match.index + match[0].length);
+    const punctuation = /^\s*([.!?,;:])/.exec(rest);
+    words.push({
+      text: match[0],
+      charIndex: match.index,
+      pause: punctuation ? PAUSES[punctuation[1]] : 0
+    });
+  }
+  return words;
+}
+
+class Resonator {
+  private y1 = 0;
+  private y2 = 0;
+  private a = 0;
+  private b = 0;
+  private c = 0;
+
+  constructor(private readonly sampleRate: number) {}
+
+  tune(frequency: number, bandwidth: number) {
+    const r = Math.exp(-Math.PI * bandwidth / this.sampleRate);
+    this.c = -r * r;
+    this.b = 2 * r * Math.cos(2 * Math.PI * frequency / this.sampleRate);
+    this.a = 1 - this.b - this.c;
+  }
+
+  process(x: number) {
+    const y = this.a * x + this.b * this.y1 + this.c * this.y2;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+// Deterministic noise so renders are reproducible
+function createNoise(seed: number) {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return ((state >>> 0) / 0xffffffff) * 2 - 1;
+  };
+}
+
+export function renderFormantSpeech(text: string, options: FormantRenderOptions): RenderedAudio {
+  const sampleRate = options.sampleRate ?? FORMANT_SAMPLE_RATE;
+  const { voice } = options;
+  const rate = Math.max(0.25, options.rate);
+  const pitch = Math.min(4, Math.max(0.1, options.pitch));
+  const words = tokenize(text);
+
+  // Lay out phoneme segments and word start times
+  const segments: Segment[] = [];
+  const wordStarts: { word: TokenizedWord; time: number }[] = [];
+  let time = 0;
+  let phraseStart = 0;
+  const flushPhrase = (question: boolean) => {
+    const phrase = segments.slice(phraseStart);
+    phrase.forEach((segment, index) => {
+      segment.phrasePosition = phrase.length > 1 ? index / (phrase.length - 1) : 0;
+      segment.question = question;
+    });
+    phraseStart = segments.length;
+  };
+
+  words.forEach((word) => {
+    wordStarts.push({ word, time });
+    const phonemes = wordToPhonemes(word.text);
+    phonemes.forEach((symbol) => {
+      const spec = PHONEMES[symbol];
+      if (!spec) return;
+      const durationSeconds = spec.duration / 1000 / rate;
+      segments.push({ spec, durationSeconds, phrasePosition: 0, question: false });
+      time += durationSeconds;
+    });
+    const gap = (word.pause || 25) / 1000 / rate;
+    segments.push({ spec: PHONEMES._, durationSeconds: gap, phrasePosition: 0, question: false });
+    time += gap;
+    if (word.pause >= PAUSES['.']) {
+      const punctuation = /^\s*([.!?])/.exec(text.slice(word.charIndex + word.text.length));
+      flushPhrase(punctuation?.[1] === '?');
+    }
+  });
+  flushPhrase(/\?\s*$/.test(text));
+
+  const totalSamples = Math.ceil(time * sampleRate) + Math.round(sampleRate * 0.05);
+  const samples = new Float32Array(totalSamples);
+  const formants = [new Resonator(sampleRate), new Resonator(sampleRate), new Resonator(sampleRate)];
+  const noiseFilter = new Resonator(sampleRate);
+  const noise = createNoise(text.length * 7919 + Math.round(voice.f0));
+
+  // Smoothed parameters give simple coarticulation between neighbouring phonemes
+  const current = [500, 1500, 2500];
+  let amplitude = 0;
+  let voicing = 0;
+  let frication = 0;
+  let phase = 0;
+  const smoothing = 1 - Math.exp(-1 / (0.012 * sampleRate));
+  const bandwidths = [60, 90, 120];
+
+  let cursor = 0;
+  segments.forEach((segment) => {
+    const length = Math.round(segment.durationSeconds * sampleRate);
+    const { spec } = segment;
+    const isBurst = spec.kind === 'plosive';
+    if (spec.noise) noiseFilter.tune(spec.noise, spec.noise * 0.4);
+
+    for (let n = 0; n < length && cursor < totalSamples; n++, cursor++) {
+      const progress = n / Math.max(1, length);
+      const target = spec.to
+        ? spec.formants.map((f, k) => f + (spec.to![k] - f) * progress)
+        : spec.formants;
+
+      // Plosives: closure for the first 70%, then a short burst
+      const inBurst = isBurst && progress > 0.7;
+      const targetAmplitude = isBurst ? (inBurst ? spec.amplitude : 0) : spec.amplitude;
+      const targetVoicing = spec.voiced && spec.kind !== 'fricative' ? 1 : spec.voiced ? 0.5 : 0;
+      const targetFrication = spec.noise && (!isBurst || inBurst) ? 1 : 0;
+
+      amplitude += (targetAmplitude - amplitude) * smoothing;
+      voicing += (targetVoicing - voicing) * smoothing;
+      frication += (targetFrication - frication) * smoothing;
+      for (let k = 0; k < 3; k++) {
+        current[k] += (target[k] * voice.formantScale - current[k]) * smoothing;
+      }
+
+      if ((cursor & 31) === 0) {
+        formants.forEach((resonator, k) => resonator.tune(current[k], bandwidths[k]));
+      }
+
+      // Declination across the phrase, with a rise at the end of questions
+      const declination = 1 + voice.intonation * (0.5 - segment.phrasePosition) * 0.4;
+      const rise = segment.question && segment.phrasePosition > 0.8 ? 1 + voice.intonation * (segment.phrasePosition - 0.8) * 3 : 1;
+      const f0 = voice.f0 * pitch * declination * rise;
+      phase += f0 / sampleRate;
+      if (phase >= 1) phase -= 1;
+
+      // Glottal source: a rounded pulse rich in harmonics
+      const glottal = phase < 0.6 ? Math.sin(Math.PI * phase / 0.6) ** 2 - 0.36 : -0.36;
+      let voiced = glottal * voicing;
+      for (const resonator of formants) {
+        voiced = resonator.process(voiced);
+      }
+      const fricated = spec.noise ? noiseFilter.process(noise()) * frication : 0;
+
+      samples[cursor] = (voiced * 0.35 + fricated * 0.8) * amplitude;
+    }
+  });
+
+  // Normalize to the requested volume
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const gain = peak > 0 ? (0.9 * Math.min(1, Math.max(0, options.volume))) / peak : 0;
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+
+  return {
+    samples,
+    sampleRate,
+    boundaries: wordStarts.map(({ word, time: start }) => ({
+      charIndex: word.charIndex,
+      charLength: word.text.length,
+      elapsedTime: start
+    }))
+  };
+}
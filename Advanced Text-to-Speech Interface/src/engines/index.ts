@@ -0,0 +1,40 @@
+import { createBrowserEngine } from './browserEngine';
+import { createFormantEngine } from './formantEngine';
+import { createServerEngine } from './serverEngine';
+import type { TtsEngine } from './types';
+
+export { withMetrics } from './withMetrics';
+export { withNormalization } from './withNormalization';
+
+export type { BoundaryEvent, EngineCapabilities, EngineVoice, RenderedAudio, SynthesisCallbacks, SynthesisOptions, SynthesisTake, TtsEngine } from './types';
+
+// Engines in order of preference; the first available one is the default
+const engineFactories = new Map<string, () => TtsEngine>([
+  ['browser', createBrowserEngine],
+  ['formant', createFormantEngine],
+  ['server', () => createServerEngine()]
+]);
+
+const instances = new Map<string, TtsEngine>();
+
+export function getEngine(id: string): TtsEngine {
+  let engine = instances.get(id);
+  if (!engine) {
+    const factory = engineFactories.get(id);
+    if (!factory) throw new Error(`Unknown synthesis engine: ${id}`);
+    engine = factory();
+    instances.set(id, engine);
+  }
+  return engine;
+}
+
+export const hasEngine = (id: string) => engineFactories.has(id);
+
+export function listEngines(): TtsEngine[] {
+  return [...engineFactories.keys()].map(getEngine);
+}
+
+export function getDefaultEngineId(): string {
+  const available = listEngines().find(engine => engine.isAvailable());
+  return (available ?? listEngines()[0]).id;
+}
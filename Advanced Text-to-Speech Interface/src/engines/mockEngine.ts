@@ -0,0 +1,92 @@
+import { wordSpans } from '../lib/segments';
+import type { BoundaryEvent, EngineVoice, RenderedAudio, SynthesisCallbacks, SynthesisOptions, TtsEngine } from './types';
+
+// Predictable stand-in for tests: every word is a short tone whose length
+// depends only on the word and the rate, so timings can be asserted exactly.
+
+const SAMPLE_RATE = 16000;
+const SECONDS_PER_CHAR = 0.06;
+const WORD_GAP = 0.05;
+
+const voices: EngineVoice[] = [
+  { id: 'mock-low', name: 'Mock Low', lang: 'en-US', localService: true, isDefault: true },
+  { id: 'mock-high', name: 'Mock High', lang: 'en-US', localService: true, isDefault: false }
+];
+
+function renderMock(text: string, options: SynthesisOptions): RenderedAudio {
+  const frequency = (options.voiceId === 'mock-high' ? 440 : 220) * options.pitch;
+  const words = wordSpans(text);
+  const boundaries: BoundaryEvent[] = [];
+  const lengths = words.map(word => Math.round(((word.end - word.start) * SECONDS_PER_CHAR * SAMPLE_RATE) / options.rate));
+  const gap = Math.round((WORD_GAP * SAMPLE_RATE) / options.rate);
+  const samples = new Float32Array(lengths.reduce((total, length) => total + length + gap, 0));
+
+  let offset = 0;
+  words.forEach((word, index) => {
+    boundaries.push({ charIndex: word.start, charLength: word.end - word.start, elapsedTime: offset / SAMPLE_RATE });
+    for (let i = 0; i < lengths[index]; i++) {
+      samples[offset + i] = 0.3 * options.volume * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    offset += lengths[index] + gap;
+  });
+
+  return { samples, sampleRate: SAMPLE_RATE, boundaries };
+}
+
+export function createMockEngine(): TtsEngine {
+  // Speaking only replays the timings; nothing is audible
+  let timers: ReturnType<typeof setTimeout>[] = [];
+  let speaking: SynthesisCallbacks | null = null;
+
+  const cancel = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+    const cancelled = speaking;
+    speaking = null;
+    cancelled?.onCancel?.();
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock Engine',
+    description: 'Silent, deterministic engine for tests',
+    capabilities: {
+      pauseResume: false,
+      boundaryEvents: true,
+      audioOutput: true,
+      ssml: false,
+      offline: true
+    },
+
+    isAvailable: () => true,
+
+    async getVoices() {
+      return voices;
+    },
+
+    onVoicesChanged() {
+      return () => {};
+    },
+
+    speak(text: string, options: SynthesisOptions, callbacks: SynthesisCallbacks = {}) {
+      cancel();
+      const audio = renderMock(text, options);
+      speaking = callbacks;
+      callbacks.onStart?.();
+      for (const boundary of audio.boundaries) {
+        timers.push(setTimeout(() => callbacks.onBoundary?.(boundary), boundary.elapsedTime * 1000));
+      }
+      timers.push(setTimeout(() => {
+        speaking = null;
+        callbacks.onEnd?.();
+      }, (audio.samples.length / SAMPLE_RATE) * 1000));
+    },
+
+    cancel,
+    // Without pause support callers fall back to cancel and restart
+    pause: cancel,
+    resume: () => {},
+
+    render: async (text, options) => renderMock(text, options)
+  };
+}
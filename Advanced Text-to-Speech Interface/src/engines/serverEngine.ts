@@ -0,0 +1,138 @@
+import { decodePcm16, DEFAULT_SERVER_PORT, REQUEST_LIMITS } from '../core/protocol';
+import type { StreamEvent, SynthesizeRequest, VoicesResponse } from '../core/protocol';
+import { createBufferPlayer } from './bufferPlayer';
+import type { BoundaryEvent, EngineVoice, RenderedAudio, SynthesisCallbacks, SynthesisOptions, TtsEngine } from './types';
+
+export const SERVER_URL: string = import.meta.env?.VITE_TTS_SERVER_URL ?? `http://localhost:${DEFAULT_SERVER_PORT}`;
+
+// Planned phrases can go past what the server accepts, e.g. slow SSML prosody on a slow voice
+const within = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+async function readStream(response: Response, onEvent: (event: StreamEvent) => void) {
+  if (!response.body) throw new Error('The server sent no stream');
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as StreamEvent);
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Engine backed by the local synthesis server (`npm run server`). Audio is
+ * streamed back frame by frame with word timings, then played like any
+ * other rendered clip. The app plans prosody and normalizes text itself, so
+ * the server is asked to render each phrase exactly as sent.
+ */
+export function createServerEngine(baseUrl = SERVER_URL): TtsEngine {
+  const player = createBufferPlayer();
+  // Requests can take a while; one cancelled before its audio arrives must stay silent
+  let requested: SynthesisCallbacks | null = null;
+
+  const cancel = () => {
+    const cancelled = requested;
+    requested = null;
+    player.stop();
+    cancelled?.onCancel?.();
+  };
+
+  const render = async (text: string, options: SynthesisOptions): Promise<RenderedAudio> => {
+    const request: SynthesizeRequest = {
+      text,
+      voice: options.voiceId,
+      pitch: within(options.pitch, REQUEST_LIMITS.pitch),
+      speed: within(options.rate, REQUEST_LIMITS.speed),
+      prosody: false,
+      normalize: false
+    };
+    const response = await fetch(`${baseUrl}/v1/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(body?.error ?? `Synthesis server answered ${response.status}`);
+    }
+
+    const frames: Float32Array[] = [];
+    const boundaries: BoundaryEvent[] = [];
+    let sampleRate = 0;
+    await readStream(response, (event) => {
+      if (event.type === 'audio') {
+        sampleRate = event.sampleRate;
+        frames.push(decodePcm16(event.samples));
+      } else if (event.type === 'word') {
+        boundaries.push({ charIndex: event.charIndex, charLength: event.charLength, elapsedTime: event.time });
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+    });
+
+    const samples = new Float32Array(frames.reduce((total, frame) => total + frame.length, 0));
+    let offset = 0;
+    for (const frame of frames) {
+      samples.set(frame, offset);
+      offset += frame.length;
+    }
+    return { samples, sampleRate: sampleRate || 22050, boundaries };
+  };
+
+  return {
+    id: 'server',
+    label: 'Local Server',
+    description: `Synthesis server at ${baseUrl}`,
+    capabilities: {
+      pauseResume: true,
+      boundaryEvents: true,
+      audioOutput: true,
+      ssml: false,
+      offline: true
+    },
+
+    isAvailable: () => typeof fetch === 'function',
+
+    async getVoices(): Promise<EngineVoice[]> {
+      try {
+        const response = await fetch(`${baseUrl}/v1/voices`);
+        if (!response.ok) throw new Error(`Synthesis server answered ${response.status}`);
+        return ((await response.json()) as VoicesResponse).voices;
+      } catch (error) {
+        console.warn(`Synthesis server at ${baseUrl} is not reachable:`, error);
+        return [];
+      }
+    },
+
+    onVoicesChanged() {
+      // The server's voices are fixed while it runs
+      return () => {};
+    },
+
+    speak(text, options, callbacks = {}) {
+      cancel();
+      requested = callbacks;
+      render(text, options)
+        .then((audio) => {
+          if (requested !== callbacks) return;
+          requested = null;
+          player.play(audio, callbacks);
+        })
+        .catch((error: unknown) => {
+          if (requested !== callbacks) return;
+          requested = null;
+          callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+        });
+    },
+
+    cancel,
+    pause: player.pause,
+    resume: player.resume,
+    render
+  };
+}
@@ -0,0 +1,87 @@
+// Shared contract for every synthesis backend the app can drive.
+
+export interface EngineVoice {
+  /** Stable identifier used to select the voice (the voice name for browser voices) */
+  id: string;
+  name: string;
+  lang: string;
+  localService: boolean;
+  isDefault: boolean;
+}
+
+export interface EngineCapabilities {
+  /** Playback can be paused and resumed mid-utterance */
+  pauseResume: boolean;
+  /** Word boundary events are reported while speaking */
+  boundaryEvents: boolean;
+  /** The engine renders PCM audio that can be played back and downloaded */
+  audioOutput: boolean;
+  /** SSML markup is understood natively */
+  ssml: boolean;
+  /** Works without any network access */
+  offline: boolean;
+}
+
+/** Ties together the calls that speak or render one request, such as the phrases of a prosody plan */
+export interface SynthesisTake {
+  id: string;
+  /** The request's final call */
+  last: boolean;
+}
+
+export interface SynthesisOptions {
+  voiceId?: string;
+  pitch: number;
+  rate: number;
+  volume: number;
+  /** Language of the whole request, null when unclear; without it, the call's own text is judged */
+  lang?: string | null;
+  /** Without one, the call is a request of its own */
+  take?: SynthesisTake;
+}
+
+export interface BoundaryEvent {
+  /** Character offset into the spoken text */
+  charIndex: number;
+  charLength: number;
+  /** Seconds since the utterance started */
+  elapsedTime: number;
+}
+
+export interface SynthesisCallbacks {
+  onStart?: () => void;
+  onEnd?: () => void;
+  onError?: (error: Error) => void;
+  /** The utterance was stopped by cancel() or replaced by another speak() before it ended */
+  onCancel?: () => void;
+  onBoundary?: (event: BoundaryEvent) => void;
+}
+
+export interface RenderedAudio {
+  /** Mono PCM samples in the range [-1, 1] */
+  samples: Float32Array;
+  sampleRate: number;
+  /** Word timings within the rendered audio */
+  boundaries: BoundaryEvent[];
+}
+
+export interface TtsEngine {
+  readonly id: string;
+  readonly label: string;
+  readonly description: string;
+  readonly capabilities: EngineCapabilities;
+
+  /** Whether the engine can run in the current environment */
+  isAvailable(): boolean;
+  getVoices(): Promise<EngineVoice[]>;
+  /** Subscribe to voice list changes; returns an unsubscribe function */
+  onVoicesChanged(listener: () => void): () => void;
+
+  speak(text: string, options: SynthesisOptions, callbacks?: SynthesisCallbacks): void;
+  cancel(): void;
+  pause(): void;
+  resume(): void;
+
+  /** Render to PCM instead of speaking; only present when capabilities.audioOutput is set */
+  render?(text: string, options: SynthesisOptions): Promise<RenderedAudio>;
+}
@@ -0,0 +1,164 @@
+import { createId } from '../lib/ids';
+import type { MeasurementOutcome, SynthesisMeasurement } from '../lib/metrics';
+import type { SynthesisOptions, TtsEngine } from './types';
+
+// One request as the user sees it: a generation or a read, however many phrases it is spoken in
+interface Take {
+  id: string | null;
+  requestedAt: number;
+  wallRequestedAt: number;
+  voiceId: string;
+  characters: number;
+  startedAt: number | null;
+  /** When the last phrase finished rendering */
+  renderedAt: number | null;
+  speakingDuration: number;
+  renderTime: number | null;
+  recorded: boolean;
+}
+
+interface PendingRequest {
+  take: Take;
+  startedAt: number | null;
+  pausedFor: number;
+  finish: (outcome: MeasurementOutcome, error?: string) => void;
+}
+
+/**
+ * Wrap an engine so every take reports one measurement. Calls marked with
+ * the same take (see SynthesisTake) are measured together until the one
+ * marked last finishes; unmarked calls are takes of their own. Timings use
+ * performance.now() around the engine's own start/end events.
+ */
+export function withMetrics(engine: TtsEngine, record: (measurement: SynthesisMeasurement) => void): TtsEngine {
+  const pending = new Set<PendingRequest>();
+  const openTakes = new Map<string, Take>();
+  let pausedAt: number | null = null;
+
+  const recordTake = (take: Take, outcome: MeasurementOutcome, error?: string) => {
+    if (take.recorded) return;
+    take.recorded = true;
+    if (take.id !== null) openTakes.delete(take.id);
+    // Rendered audio is ready to play as soon as rendering completes
+    const firstAudio = take.startedAt ?? (outcome === 'success' ? take.renderedAt : null);
+    record({
+      id: createId(),
+      engineId: engine.id,
+      voiceId: take.voiceId,
+      characters: take.characters,
+      requestedAt: take.wallRequestedAt,
+      timeToFirstAudio: firstAudio !== null ? firstAudio - take.requestedAt : null,
+      speakingDuration: firstAudio !== null ? take.speakingDuration : null,
+      renderTime: take.renderTime,
+      outcome,
+      error
+    });
+  };
+
+  const joinTake = (options: SynthesisOptions, characters: number): Take => {
+    const id = options.take?.id ?? null;
+    const open = id !== null ? openTakes.get(id) : undefined;
+    if (open) {
+      open.characters += characters;
+      return open;
+    }
+    const take: Take = {
+      id,
+      requestedAt: performance.now(),
+      wallRequestedAt: Date.now(),
+      voiceId: options.voiceId ?? '',
+      characters,
+      startedAt: null,
+      renderedAt: null,
+      speakingDuration: 0,
+      renderTime: null,
+      recorded: false
+    };
+    if (id !== null) openTakes.set(id, take);
+    return take;
+  };
+
+  // A take succeeds when its last call does, and fails with any of its calls
+  const finishTake = (take: Take, options: SynthesisOptions, outcome: MeasurementOutcome, error?: string) => {
+    if (outcome !== 'success' || (options.take?.last ?? true)) recordTake(take, outcome, error);
+  };
+
+  return {
+    ...engine,
+
+    speak(text, options, callbacks = {}) {
+      const request: PendingRequest = {
+        take: joinTake(options, text.length),
+        startedAt: null,
+        pausedFor: 0,
+        finish: (outcome, error) => {
+          if (!pending.delete(request)) return;
+          if (request.startedAt !== null) {
+            request.take.speakingDuration += performance.now() - request.startedAt - request.pausedFor;
+          }
+          finishTake(request.take, options, outcome, error);
+        }
+      };
+      pending.add(request);
+
+      engine.speak(text, options, {
+        ...callbacks,
+        onStart: () => {
+          request.startedAt = performance.now();
+          request.take.startedAt ??= request.startedAt;
+          callbacks.onStart?.();
+        },
+        onEnd: () => {
+          request.finish('success');
+          callbacks.onEnd?.();
+        },
+        onError: (error) => {
+          request.finish('error', error.message);
+          callbacks.onError?.(error);
+        },
+        onCancel: () => {
+          request.finish('cancelled');
+          callbacks.onCancel?.();
+        }
+      });
+    },
+
+    cancel() {
+      pending.forEach(request => request.finish('cancelled'));
+      // Takes stopped between two of their calls
+      openTakes.forEach(take => recordTake(take, 'cancelled'));
+      engine.cancel();
+    },
+
+    pause() {
+      pausedAt = pausedAt ?? performance.now();
+      engine.pause();
+    },
+
+    resume() {
+      if (pausedAt !== null) {
+        const paused = performance.now() - pausedAt;
+        pending.forEach(request => { request.pausedFor += paused; });
+        pausedAt = null;
+      }
+      engine.resume();
+    },
+
+    render: engine.render && (async (text, options) => {
+      const take = joinTake(options, text.length);
+      const startedAt = performance.now();
+      try {
+        const audio = await engine.render!(text, options);
+        take.renderedAt = performance.now();
+        take.renderTime = (take.renderTime ?? 0) + take.renderedAt - startedAt;
+        take.speakingDuration += (audio.samples.length / audio.sampleRate) * 1000;
+        finishTake(take, options, 'success');
+        return audio;
+      } catch (error) {
+        take.renderTime = (take.renderTime ?? 0) + performance.now() - startedAt;
+        finishTake(take, options, 'error', error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    })
+  };
+}
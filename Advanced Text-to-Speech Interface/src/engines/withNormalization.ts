@@ -0,0 +1,32 @@
+import type { NormalizedText } from '../lib/normalize';
+import type { TtsEngine } from './types';
+
+/**
+ * Wrap an engine so text is normalized right before synthesis. Boundary
+ * events are mapped back onto the caller's text, so highlighting still
+ * follows the words as written.
+ */
+export function withNormalization(engine: TtsEngine, normalize: (text: string, lang?: string | null) => NormalizedText): TtsEngine {
+  const toSourceBoundary = <T extends { charIndex: number; charLength: number }>(normalized: NormalizedText, event: T): T => {
+    const span = normalized.toSource(event.charIndex, event.charIndex + event.charLength);
+    return { ...event, charIndex: span.start, charLength: span.end - span.start };
+  };
+
+  return {
+    ...engine,
+
+    speak(text, options, callbacks = {}) {
+      const normalized = normalize(text, options.lang);
+      engine.speak(normalized.text, options, {
+        ...callbacks,
+        onBoundary: callbacks.onBoundary && ((event) => callbacks.onBoundary?.(toSourceBoundary(normalized, event)))
+      });
+    },
+
+    render: engine.render && (async (text, options) => {
+      const normalized = normalize(text, options.lang);
+      const audio = await engine.render!(normalized.text, options);
+      return { ...audio, boundaries: audio.boundaries.map(boundary => toSourceBoundary(normalized, boundary)) };
+    })
+  };
+}
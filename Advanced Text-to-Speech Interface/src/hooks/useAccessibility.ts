@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  applyAccessibilitySettings,
+  loadAccessibilitySettings,
+  saveAccessibilitySettings
+} from '../lib/accessibility';
+import type { AccessibilitySettings } from '../lib/accessibility';
+
+/** Accessibility settings, persisted to localStorage and applied to the document */
+export function useAccessibility() {
+  const [settings, setSettings] = useState(loadAccessibilitySettings);
+
+  useEffect(() => {
+    applyAccessibilitySettings(settings);
+    saveAccessibilitySettings(settings);
+  }, [settings]);
+
+  const update = useCallback((patch: Partial<AccessibilitySettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  return { settings, update };
+}
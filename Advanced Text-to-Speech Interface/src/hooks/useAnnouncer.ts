@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface Announcement {
+  /** Changes with every announcement, so repeating a message announces it again */
+  id: number;
+  message: string;
+  /** Interrupts the screen reader instead of waiting for it to finish */
+  assertive: boolean;
+}
+
+/** Messages for the live regions; polite ones are dropped while announcements are off */
+export function useAnnouncer(enabled: boolean) {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const enabledRef = useRef(enabled);
+
+  useEffect(() => {
+    enabledRef.current = enabled;
+  }, [enabled]);
+
+  // Stable, so effects that announce a change only run when the change happens
+  const announce = useCallback((message: string, assertive = false) => {
+    if (!enabledRef.current && !assertive) return;
+    setAnnouncement(prev => ({ id: (prev?.id ?? 0) + 1, message, assertive }));
+  }, []);
+
+  return { announcement, announce };
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BatchItem, BatchJob } from '../lib/batch';
+
+export type BatchStatus = 'idle' | 'running' | 'paused' | 'finished' | 'cancelled';
+
+/** Result of voicing one item; audio is only there when the engine renders it */
+export interface BatchOutput {
+  audio?: Blob;
+  duration?: number;
+  note?: string;
+}
+
+export type BatchRunner = (item: BatchItem, signal: AbortSignal) => Promise<BatchOutput>;
+
+export interface BatchQueue {
+  jobs: BatchJob[];
+  status: BatchStatus;
+  load: (items: BatchItem[]) => void;
+  start: () => void;
+  pause: () => void;
+  cancel: () => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  clear: () => void;
+}
+
+/** Tries per item, counting the first; failures past this are left for a manual retry */
+export const MAX_BATCH_ATTEMPTS = 3;
+
+const newJob = (item: BatchItem): BatchJob => ({ item, status: 'pending', attempts: 0, error: null, duration: null });
+
+/**
+ * Voices batch items one at a time. Failed items are retried automatically
+ * a few times; pausing returns the current item to the queue and cancelling
+ * drops everything still waiting. A run token, as in the speech queue,
+ * keeps an aborted item from reporting into a newer run.
+ */
+export function useBatchQueue(runner: BatchRunner): BatchQueue {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [status, setStatus] = useState<BatchStatus>('idle');
+  const jobsRef = useRef<BatchJob[]>([]);
+  const runRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+  const runnerRef = useRef(runner);
+
+  useEffect(() => {
+    runnerRef.current = runner;
+  });
+
+  const commit = useCallback((next: BatchJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+  }, []);
+
+  const update = useCallback((id: string, patch: (job: BatchJob) => Partial<BatchJob>) => {
+    commit(jobsRef.current.map(job => (job.item.id === id ? { ...job, ...patch(job) } : job)));
+  }, [commit]);
+
+  const process = useCallback(async () => {
+    const run = ++runRef.current;
+    setStatus('running');
+
+    for (let job = jobsRef.current.find(j => j.status === 'pending'); job; job = jobsRef.current.find(j => j.status === 'pending')) {
+      const controller = new AbortController();
+      const attempt = job.attempts + 1;
+      const startedAt = performance.now();
+      controllerRef.current = controller;
+      update(job.item.id, () => ({ status: 'running', attempts: attempt, error: null }));
+
+      try {
+        const output = await runnerRef.current(job.item, controller.signal);
+        if (run !== runRef.current) return;
+        update(job.item.id, () => ({
+          status: 'done',
+          audio: output.audio,
+          note: output.note,
+          duration: output.duration ?? performance.now() - startedAt
+        }));
+      } catch (error) {
+        // Pause and cancel have already settled the job
+        if (run !== runRef.current) return;
+        console.error(`Batch item ${job.item.id} failed:`, error);
+        update(job.item.id, () => ({
+          status: attempt < MAX_BATCH_ATTEMPTS ? 'pending' : 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    }
+
+    controllerRef.current = null;
+    setStatus('finished');
+  }, [update]);
+
+  const halt = useCallback((settle: (job: BatchJob) => Partial<BatchJob>) => {
+    runRef.current++;
+    controllerRef.current?.abort(new DOMException('Batch stopped', 'AbortError'));
+    controllerRef.current = null;
+    commit(jobsRef.current.map(job => ({ ...job, ...settle(job) })));
+  }, [commit]);
+
+  // The interrupted item goes back to the queue without using up one of its tries
+  const pause = useCallback(() => {
+    halt(job => (job.status === 'running' ? { status: 'pending', attempts: job.attempts - 1 } : {}));
+    setStatus('paused');
+  }, [halt]);
+
+  const cancel = useCallback(() => {
+    halt(job => (job.status === 'running' || job.status === 'pending' ? { status: 'cancelled' } : {}));
+    setStatus('cancelled');
+  }, [halt]);
+
+  const load = useCallback((items: BatchItem[]) => {
+    halt(() => ({}));
+    commit(items.map(newJob));
+    setStatus('idle');
+  }, [halt, commit]);
+
+  const clear = useCallback(() => load([]), [load]);
+
+  const requeue = useCallback((matches: (job: BatchJob) => boolean) => {
+    commit(jobsRef.current.map(job => (matches(job) ? newJob(job.item) : job)));
+    if (status !== 'running') process();
+  }, [commit, status, process]);
+
+  // Abort whatever is still running when the app goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    jobs,
+    status,
+    load,
+    start: process,
+    pause,
+    cancel,
+    retry: (id) => requeue(job => job.item.id === id),
+    retryFailed: () => requeue(job => job.status === 'failed' || job.status === 'cancelled'),
+    clear
+  };
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RecognitionSession, SpeechRecognizer } from '../recognizers';
+
+export interface Dictation {
+  isListening: boolean;
+  /** Words heard so far that the recognizer may still revise */
+  interim: string;
+  error: string | null;
+  start: (lang?: string) => void;
+  stop: () => void;
+}
+
+/** Continuous dictation; each final phrase is handed to onText as it is recognized */
+export function useDictation(recognizer: SpeechRecognizer | null, onText: (text: string) => void): Dictation {
+  const [isListening, setIsListening] = useState(false);
+  const [interim, setInterim] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<RecognitionSession | null>(null);
+  const textRef = useRef(onText);
+
+  useEffect(() => {
+    textRef.current = onText;
+  }, [onText]);
+
+  const start = useCallback((lang?: string) => {
+    if (!recognizer || sessionRef.current) return;
+    setError(null);
+    try {
+      const session: RecognitionSession = recognizer.start({ lang, continuous: true }, {
+        onResult: (result) => {
+          if (sessionRef.current !== session) return;
+          if (!result.isFinal) {
+            setInterim(result.transcript);
+            return;
+          }
+          setInterim('');
+          const text = result.transcript.trim();
+          if (text) textRef.current(text);
+        },
+        onError: (recognitionError) => {
+          if (sessionRef.current !== session) return;
+          console.error('Dictation failed:', recognitionError);
+          setError(recognitionError.message);
+        },
+        onEnd: () => {
+          if (sessionRef.current !== session) return;
+          sessionRef.current = null;
+          setIsListening(false);
+          setInterim('');
+        }
+      });
+      sessionRef.current = session;
+      setIsListening(true);
+    } catch (startError) {
+      console.error('Dictation failed:', startError);
+      setError(startError instanceof Error ? startError.message : 'Dictation could not start');
+    }
+  }, [recognizer]);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop();
+  }, []);
+
+  // A different recognizer, or leaving the page, ends the session
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.abort();
+    setIsListening(false);
+    setInterim('');
+  }, [recognizer]);
+
+  return { isListening, interim, error, start, stop };
+}
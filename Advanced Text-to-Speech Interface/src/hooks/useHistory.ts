@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteHistoryEntry,
+  deleteProject,
+  getHistoryEntry,
+  listHistory,
+  listProjects,
+  putHistoryEntry,
+  putProject
+} from '../lib/historyStore';
+import type { HistoryEntry, Project } from '../lib/historyStore';
+import { exportLibraryJson, exportLibraryZip, importLibrary } from '../lib/libraryBundle';
+import { createId } from '../lib/ids';
+
+/** Generation history and projects, mirrored from IndexedDB into React state */
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isAvailable, setIsAvailable] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const [storedEntries, storedProjects] = await Promise.all([listHistory(), listProjects()]);
+      setEntries(storedEntries);
+      setProjects(storedProjects);
+    } catch (error) {
+      console.error('Could not load history:', error);
+      setIsAvailable(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const add = useCallback(async (entry: HistoryEntry) => {
+    setEntries(prev => [entry, ...prev]);
+    await putHistoryEntry(entry).catch(error => console.error('Could not save history entry:', error));
+  }, []);
+
+  const update = useCallback(async (id: string, patch: Partial<HistoryEntry>) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+    try {
+      // Patch the stored copy so updates right after add() are not lost
+      const stored = await getHistoryEntry(id);
+      if (stored) await putHistoryEntry({ ...stored, ...patch });
+    } catch (error) {
+      console.error('Could not update history entry:', error);
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    await deleteHistoryEntry(id).catch(error => console.error('Could not delete history entry:', error));
+  }, []);
+
+  const createProject = useCallback(async (name: string) => {
+    const project: Project = { id: createId(), name, createdAt: Date.now() };
+    setProjects(prev => [...prev, project].sort((a, b) => a.name.localeCompare(b.name)));
+    await putProject(project).catch(error => console.error('Could not save project:', error));
+    return project;
+  }, []);
+
+  const removeProject = useCallback(async (id: string) => {
+    // Entries in a deleted project are kept, just ungrouped
+    const orphaned = entries.filter(entry => entry.projectId === id);
+    setProjects(prev => prev.filter(project => project.id !== id));
+    setEntries(prev => prev.map(entry => entry.projectId === id ? { ...entry, projectId: null } : entry));
+    try {
+      await Promise.all(orphaned.map(entry => putHistoryEntry({ ...entry, projectId: null })));
+      await deleteProject(id);
+    } catch (error) {
+      console.error('Could not delete project:', error);
+    }
+  }, [entries]);
+
+  const exportBundle = useCallback((format: 'zip' | 'json') =>
+    format === 'zip' ? exportLibraryZip({ entries, projects }) : exportLibraryJson({ entries, projects }),
+  [entries, projects]);
+
+  /** Merge a bundle into the library; entries with the same id are replaced */
+  const importBundle = useCallback(async (file: File) => {
+    const library = await importLibrary(file);
+    await Promise.all([
+      ...library.projects.map(putProject),
+      ...library.entries.map(putHistoryEntry)
+    ]);
+    await reload();
+    return library.entries.length;
+  }, [reload]);
+
+  return {
+    entries,
+    projects,
+    isAvailable,
+    add,
+    update,
+    remove,
+    createProject,
+    removeProject,
+    exportBundle,
+    importBundle
+  };
+}
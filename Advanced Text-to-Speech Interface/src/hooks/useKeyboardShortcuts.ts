@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+
+/** Handlers keyed by `KeyboardEvent.key`, with letters lower-cased and the space bar as 'Space' */
+export type ShortcutMap = Record<string, () => void>;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const shortcutKey = (event: KeyboardEvent) =>
+  event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+/**
+ * Page-wide single-key shortcuts. They stay out of the way of typing, of
+ * modifier combinations, and of keys a focused control already handled.
+ */
+export function useKeyboardShortcuts(shortcuts: ShortcutMap, enabled = true) {
+  const shortcutsRef = useRef(shortcuts);
+
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return;
+      const key = shortcutKey(event);
+      // Space on a focused button already clicks it
+      if (key === 'Space' && event.target instanceof HTMLButtonElement) return;
+      const handler = shortcutsRef.current[key];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
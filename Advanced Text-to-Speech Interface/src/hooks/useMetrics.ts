@@ -0,0 +1,20 @@
+import { useCallback, useMemo, useState } from 'react';
+import { summarizeMetrics } from '../lib/metrics';
+import type { SynthesisMeasurement } from '../lib/metrics';
+
+// Keep the session history bounded on long-running tabs
+const MAX_MEASUREMENTS = 500;
+
+export function useMetrics() {
+  const [measurements, setMeasurements] = useState<SynthesisMeasurement[]>([]);
+
+  const record = useCallback((measurement: SynthesisMeasurement) => {
+    setMeasurements(prev => [...prev, measurement].slice(-MAX_MEASUREMENTS));
+  }, []);
+
+  const clear = useCallback(() => setMeasurements([]), []);
+
+  const summary = useMemo(() => summarizeMetrics(measurements), [measurements]);
+
+  return { measurements, summary, record, clear };
+}
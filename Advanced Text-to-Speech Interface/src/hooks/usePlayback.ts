@@ -0,0 +1,354 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { BoundaryEvent, RenderedAudio, TtsEngine } from '../engines';
+import { createId } from '../lib/ids';
+import { phraseOptions } from '../lib/prosody';
+import type { ProsodyPhrase } from '../lib/prosody';
+import { sentenceSpans } from '../lib/segments';
+
+export type PlaybackState = 'idle' | 'speaking' | 'paused' | 'ended' | 'error';
+type PlaybackEvent = 'start' | 'pause' | 'resume' | 'end' | 'stop' | 'fail';
+
+// Events a state does not list are ignored, so late callbacks cannot revive a stopped run
+const TRANSITIONS: Record<PlaybackState, Partial<Record<PlaybackEvent, PlaybackState>>> = {
+  idle: { start: 'speaking', fail: 'error' },
+  speaking: { start: 'speaking', pause: 'paused', end: 'ended', stop: 'idle', fail: 'error' },
+  // Media elements fire pause just before ended
+  paused: { start: 'speaking', resume: 'speaking', end: 'ended', stop: 'idle', fail: 'error' },
+  ended: { start: 'speaking', stop: 'idle' },
+  error: { start: 'speaking', stop: 'idle' }
+};
+
+const transition = (state: PlaybackState, event: PlaybackEvent) => TRANSITIONS[state][event] ?? state;
+
+/** What the player plays: the generated text with the exact phrase options it was generated with */
+export interface PlaybackSource {
+  text: string;
+  phrases: ProsodyPhrase[];
+  /** Rendered clip played through the media element; without one the text is spoken live */
+  audio: RenderedAudio | null;
+}
+
+export interface Playback {
+  state: PlaybackState;
+  error: string | null;
+  loop: boolean;
+  setLoop: (loop: boolean) => void;
+  toggle: () => void;
+  stop: () => void;
+  restart: () => void;
+  /** Play from a character offset of the source text */
+  seekToChar: (charIndex: number) => void;
+  /** Move the playhead of rendered audio without changing whether it plays */
+  seekToTime: (seconds: number) => void;
+  nextSentence: () => void;
+  previousSentence: () => void;
+}
+
+interface PlaybackEvents {
+  /** Character offset of the word being played, or null when nothing is */
+  onPosition: (charIndex: number | null) => void;
+  /**
+   * Length of a complete read of live speech, excluding time spent paused,
+   * with the word boundaries timed from its start
+   */
+  onFullRead?: (durationMs: number, boundaries: BoundaryEvent[]) => void;
+}
+
+const boundaryAtTime = (audio: RenderedAudio, seconds: number) => {
+  const boundaries = audio.boundaries;
+  let index = boundaries.length - 1;
+  while (index > 0 && boundaries[index].elapsedTime > seconds) index--;
+  return boundaries[index];
+};
+
+/**
+ * Plays one generated request, either as rendered audio through a media
+ * element or as live speech, one utterance per phrase, behind a single state
+ * machine. Replays always reuse the source's phrases, so a varied take sounds
+ * the same every time.
+ */
+export function usePlayback(
+  engine: TtsEngine,
+  mediaRef: RefObject<HTMLAudioElement>,
+  source: PlaybackSource | null,
+  events: PlaybackEvents
+): Playback {
+  const [state, dispatch] = useReducer(transition, 'idle');
+  const [error, setError] = useState<string | null>(null);
+  const [loop, setLoop] = useState(false);
+  const runRef = useRef(0);
+  const positionRef = useRef<number | null>(null);
+  // Live speech without native pause is cancelled and restarted from here
+  const resumeFromRef = useRef<number | null>(null);
+  const pausedRef = useRef(false);
+  // The next phrase, held back when a phrase ends while paused
+  const pendingRef = useRef<(() => void) | null>(null);
+  const timingRef = useRef({ startedAt: 0, pausedAt: 0, pausedTotal: 0, boundaries: [] as BoundaryEvent[] });
+  const eventsRef = useRef(events);
+  const loopRef = useRef(loop);
+  const audio = source?.audio ?? null;
+  const sentences = useMemo(() => (source ? sentenceSpans(source.text) : []), [source]);
+
+  useEffect(() => {
+    eventsRef.current = events;
+    loopRef.current = loop;
+  });
+
+  const report = useCallback((charIndex: number | null) => {
+    positionRef.current = charIndex;
+    eventsRef.current.onPosition(charIndex);
+  }, []);
+
+  const speak = useCallback((from: number) => {
+    if (!source) return;
+    const run = ++runRef.current;
+    const take = createId();
+    const timing = timingRef.current;
+    engine.cancel();
+    resumeFromRef.current = null;
+    pausedRef.current = false;
+    pendingRef.current = null;
+    timing.startedAt = 0;
+    timing.pausedTotal = 0;
+    timing.boundaries = [];
+    setError(null);
+    dispatch('start');
+    report(from);
+
+    const finish = () => {
+      if (from === 0 && timing.startedAt) {
+        eventsRef.current.onFullRead?.(performance.now() - timing.startedAt - timing.pausedTotal, timing.boundaries);
+      }
+      if (loopRef.current) {
+        speak(0);
+        return;
+      }
+      dispatch('end');
+      report(null);
+    };
+
+    const speakPhrase = (index: number) => {
+      if (run !== runRef.current) return;
+      const phrase = source.phrases[index];
+      if (!phrase) {
+        finish();
+        return;
+      }
+      if (phrase.end <= from) {
+        speakPhrase(index + 1);
+        return;
+      }
+      const offset = Math.max(from, phrase.start);
+      engine.speak(source.text.slice(offset, phrase.end), phraseOptions(source, index, take), {
+        onStart: () => {
+          if (run === runRef.current && !timing.startedAt) timing.startedAt = performance.now();
+        },
+        onBoundary: (event) => {
+          if (run !== runRef.current) return;
+          report(offset + event.charIndex);
+          if (timing.startedAt) {
+            timing.boundaries.push({
+              charIndex: offset + event.charIndex,
+              charLength: event.charLength,
+              elapsedTime: (performance.now() - timing.startedAt - timing.pausedTotal) / 1000
+            });
+          }
+        },
+        onEnd: () => {
+          if (run !== runRef.current) return;
+          if (pausedRef.current) pendingRef.current = () => speakPhrase(index + 1);
+          else speakPhrase(index + 1);
+        },
+        onError: (speechError) => {
+          if (run !== runRef.current) return;
+          console.error('Speech playback failed:', speechError);
+          setError(speechError.message);
+          dispatch('fail');
+          report(null);
+        }
+      });
+    };
+
+    speakPhrase(0);
+  }, [engine, source, report]);
+
+  const playMedia = useCallback(() => {
+    mediaRef.current?.play().catch((playError) => {
+      console.error('Playback failed:', playError);
+      setError(playError instanceof Error ? playError.message : 'Playback failed');
+      dispatch('fail');
+    });
+  }, [mediaRef]);
+
+  const seekToChar = useCallback((charIndex: number) => {
+    const media = mediaRef.current;
+    if (audio && media) {
+      const boundary = audio.boundaries.find(b => b.charIndex + b.charLength > charIndex);
+      media.currentTime = boundary?.elapsedTime ?? 0;
+      report(boundary?.charIndex ?? null);
+      playMedia();
+    } else {
+      speak(charIndex);
+    }
+  }, [audio, mediaRef, report, playMedia, speak]);
+
+  const seekToTime = useCallback((seconds: number) => {
+    const media = mediaRef.current;
+    if (!audio || !media) return;
+    media.currentTime = seconds;
+    report(boundaryAtTime(audio, seconds)?.charIndex ?? null);
+  }, [audio, mediaRef, report]);
+
+  const pause = useCallback(() => {
+    if (audio) {
+      mediaRef.current?.pause();
+    } else if (engine.capabilities.pauseResume) {
+      engine.pause();
+      pausedRef.current = true;
+      timingRef.current.pausedAt = performance.now();
+      dispatch('pause');
+    } else {
+      runRef.current++;
+      engine.cancel();
+      resumeFromRef.current = positionRef.current ?? 0;
+      dispatch('pause');
+    }
+  }, [audio, engine, mediaRef]);
+
+  const resume = useCallback(() => {
+    if (audio) {
+      playMedia();
+    } else if (resumeFromRef.current !== null) {
+      speak(resumeFromRef.current);
+    } else {
+      const timing = timingRef.current;
+      const pending = pendingRef.current;
+      timing.pausedTotal += performance.now() - timing.pausedAt;
+      pausedRef.current = false;
+      pendingRef.current = null;
+      engine.resume();
+      dispatch('resume');
+      pending?.();
+    }
+  }, [audio, engine, playMedia, speak]);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    const media = mediaRef.current;
+    if (audio && media) {
+      media.pause();
+      media.currentTime = 0;
+    } else {
+      engine.cancel();
+    }
+    resumeFromRef.current = null;
+    pausedRef.current = false;
+    pendingRef.current = null;
+    dispatch('stop');
+    report(null);
+  }, [audio, engine, mediaRef, report]);
+
+  const restart = useCallback(() => seekToChar(0), [seekToChar]);
+
+  const toggle = useCallback(() => {
+    if (state === 'speaking') pause();
+    else if (state === 'paused') resume();
+    else if (audio) playMedia();
+    else speak(0);
+  }, [state, audio, pause, resume, playMedia, speak]);
+
+  const currentSentence = () => {
+    const position = positionRef.current;
+    if (position === null) return -1;
+    let index = sentences.length - 1;
+    while (index > 0 && sentences[index].start > position) index--;
+    return index;
+  };
+
+  const nextSentence = () => {
+    const next = sentences[currentSentence() + 1];
+    if (next) seekToChar(next.start);
+  };
+
+  // Like a track list: back to the start of this sentence first, then to the one before
+  const previousSentence = () => {
+    const index = currentSentence();
+    if (index < 0) return;
+    const position = positionRef.current ?? 0;
+    const target = position > sentences[index].start ? sentences[index] : sentences[Math.max(0, index - 1)];
+    seekToChar(target.start);
+  };
+
+  useEffect(() => {
+    // The media element drives the state for rendered audio, including its own controls
+    const media = mediaRef.current;
+    if (!audio || !media) return;
+    const handlePlay = () => {
+      setError(null);
+      dispatch('start');
+    };
+    const handlePause = () => {
+      if (!media.ended) dispatch('pause');
+    };
+    const handleEnded = () => {
+      if (loopRef.current) {
+        media.currentTime = 0;
+        playMedia();
+        return;
+      }
+      dispatch('end');
+      report(null);
+    };
+    const handleError = () => {
+      setError('The generated audio could not be played');
+      dispatch('fail');
+    };
+    media.addEventListener('play', handlePlay);
+    media.addEventListener('pause', handlePause);
+    media.addEventListener('ended', handleEnded);
+    media.addEventListener('error', handleError);
+    return () => {
+      media.removeEventListener('play', handlePlay);
+      media.removeEventListener('pause', handlePause);
+      media.removeEventListener('ended', handleEnded);
+      media.removeEventListener('error', handleError);
+    };
+  }, [audio, mediaRef, playMedia, report]);
+
+  useEffect(() => {
+    // Rendered audio has no live boundary events, so follow the playhead through its word timings
+    if (state !== 'speaking' || !audio) return;
+    let frame = 0;
+    const follow = () => {
+      report(boundaryAtTime(audio, mediaRef.current?.currentTime ?? 0)?.charIndex ?? null);
+      frame = requestAnimationFrame(follow);
+    };
+    follow();
+    return () => cancelAnimationFrame(frame);
+  }, [state, audio, mediaRef, report]);
+
+  // A new request or engine starts over from idle
+  useEffect(() => {
+    runRef.current++;
+    resumeFromRef.current = null;
+    pausedRef.current = false;
+    pendingRef.current = null;
+    setError(null);
+    dispatch('stop');
+  }, [engine, source]);
+
+  return {
+    state,
+    error,
+    loop,
+    setLoop,
+    toggle,
+    stop,
+    restart,
+    seekToChar,
+    seekToTime,
+    nextSentence,
+    previousSentence
+  };
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadPresets, savePresets } from '../lib/presets';
+import type { VoicePreset } from '../lib/presets';
+import { createId } from '../lib/ids';
+
+/** Named voice presets, persisted to localStorage on every change */
+export function usePresets() {
+  const [presets, setPresets] = useState<VoicePreset[]>(loadPresets);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  /** Saving under an existing name replaces that preset */
+  const save = useCallback((preset: Omit<VoicePreset, 'id' | 'createdAt'>) => {
+    const saved: VoicePreset = { ...preset, id: createId(), createdAt: Date.now() };
+    setPresets(prev => [
+      ...prev.filter(existing => existing.name.toLowerCase() !== preset.name.toLowerCase()),
+      saved
+    ].sort((a, b) => a.name.localeCompare(b.name)));
+    return saved;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+  }, []);
+
+  return { presets, save, remove };
+}
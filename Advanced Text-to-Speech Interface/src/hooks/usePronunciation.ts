@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createLexiconEntry } from '../lib/lexicon';
+import type { LexiconEntry } from '../lib/lexicon';
+import type { BuiltInRuleGroup } from '../lib/normalize';
+import { createNormalizer, loadPronunciationSettings, savePronunciationSettings } from '../lib/pronunciation';
+
+/** Pronunciation dictionary and normalization switches, persisted to localStorage */
+export function usePronunciation() {
+  const [settings, setSettings] = useState(loadPronunciationSettings);
+
+  useEffect(() => {
+    savePronunciationSettings(settings);
+  }, [settings]);
+
+  const normalizer = useMemo(() => createNormalizer(settings), [settings]);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setSettings(prev => ({ ...prev, enabled }));
+  }, []);
+
+  const toggleBuiltIn = useCallback((group: BuiltInRuleGroup) => {
+    setSettings(prev => ({ ...prev, builtIns: { ...prev.builtIns, [group]: !prev.builtIns[group] } }));
+  }, []);
+
+  const addEntry = useCallback((patch?: Partial<LexiconEntry>) => {
+    setSettings(prev => ({ ...prev, entries: [...prev.entries, createLexiconEntry(patch)] }));
+  }, []);
+
+  const updateEntry = useCallback((id: string, patch: Partial<LexiconEntry>) => {
+    setSettings(prev => ({
+      ...prev,
+      entries: prev.entries.map(entry => entry.id === id ? { ...entry, ...patch } : entry)
+    }));
+  }, []);
+
+  const removeEntry = useCallback((id: string) => {
+    setSettings(prev => ({ ...prev, entries: prev.entries.filter(entry => entry.id !== id) }));
+  }, []);
+
+  /** Imported entries replace existing ones with the same pattern */
+  const importEntries = useCallback((entries: LexiconEntry[]) => {
+    setSettings(prev => {
+      const key = (entry: LexiconEntry) => `${entry.match}:${entry.caseSensitive ? entry.pattern : entry.pattern.toLowerCase()}`;
+      const incoming = new Set(entries.map(key));
+      return { ...prev, entries: [...prev.entries.filter(entry => !incoming.has(key(entry))), ...entries] };
+    });
+  }, []);
+
+  return { settings, normalizer, setEnabled, toggleBuiltIn, addEntry, updateEntry, removeEntry, importEntries };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PlaybackState } from './usePlayback';
+import type { RecognitionSession, SpeechRecognizer } from '../recognizers';
+import { compareTranscript } from '../lib/roundTrip';
+import type { RoundTripReport } from '../lib/roundTrip';
+
+export type RoundTripStatus = 'idle' | 'listening' | 'checking' | 'done' | 'error';
+
+export interface RoundTripRequest {
+  /** The written text the speech was generated from */
+  source: string;
+  /** What the engine is actually given, for recognizers that do not listen */
+  spokenText: string;
+  lang?: string;
+}
+
+export interface RoundTrip {
+  status: RoundTripStatus;
+  report: RoundTripReport | null;
+  error: string | null;
+  /** Listen with the recognizer while play() plays the speech, then compare */
+  start: (recognizer: SpeechRecognizer, request: RoundTripRequest, play: () => void) => void;
+  /** Abandon a running check and clear the last result */
+  cancel: () => void;
+}
+
+interface Run {
+  session: RecognitionSession | null;
+  finals: string[];
+  /** Playback has been seen speaking, so its end is the end of the take */
+  played: boolean;
+}
+
+/**
+ * Plays the generated speech into a recognizer and diffs the transcript
+ * against the source. The take ends when the player stops speaking;
+ * recognizers without a microphone transcribe at once and nothing is played.
+ */
+export function useRoundTrip(playbackState: PlaybackState): RoundTrip {
+  const [status, setStatus] = useState<RoundTripStatus>('idle');
+  const [report, setReport] = useState<RoundTripReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<Run | null>(null);
+
+  const cancel = useCallback(() => {
+    const run = runRef.current;
+    runRef.current = null;
+    run?.session?.abort();
+    setReport(null);
+    setError(null);
+    setStatus('idle');
+  }, []);
+
+  const start = useCallback((recognizer: SpeechRecognizer, request: RoundTripRequest, play: () => void) => {
+    runRef.current?.session?.abort();
+    const run: Run = { session: null, finals: [], played: false };
+    runRef.current = run;
+    setReport(null);
+    setError(null);
+    setStatus('listening');
+
+    try {
+      run.session = recognizer.start({ lang: request.lang, continuous: true, spokenText: request.spokenText }, {
+        onResult: (result) => {
+          if (runRef.current === run && result.isFinal) run.finals.push(result.transcript.trim());
+        },
+        onError: (recognitionError) => {
+          if (runRef.current !== run) return;
+          console.error('Round-trip recognition failed:', recognitionError);
+          runRef.current = null;
+          run.session?.abort();
+          setError(recognitionError.message);
+          setStatus('error');
+        },
+        onEnd: () => {
+          if (runRef.current !== run) return;
+          runRef.current = null;
+          setReport(compareTranscript(request.source, run.finals.filter(Boolean).join(' ')));
+          setStatus('done');
+        }
+      });
+    } catch (startError) {
+      console.error('Round-trip recognition failed:', startError);
+      runRef.current = null;
+      setError(startError instanceof Error ? startError.message : 'The recognizer could not start');
+      setStatus('error');
+      return;
+    }
+
+    if (recognizer.capabilities.microphone) {
+      play();
+    } else {
+      setStatus('checking');
+      run.session.stop();
+    }
+  }, []);
+
+  useEffect(() => {
+    const run = runRef.current;
+    if (!run || status !== 'listening') return;
+    if (playbackState === 'speaking') {
+      run.played = true;
+    } else if (run.played && playbackState !== 'paused') {
+      // Give the recognizer the last words before it stops listening
+      setStatus('checking');
+      run.session?.stop();
+    }
+  }, [playbackState, status]);
+
+  useEffect(() => () => runRef.current?.session?.abort(), []);
+
+  return { status, report, error, start, cancel };
+}
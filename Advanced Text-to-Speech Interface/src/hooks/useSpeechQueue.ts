@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SynthesisOptions, TtsEngine } from '../engines';
+import type { TextChunk } from '../lib/chunker';
+import { createId } from '../lib/ids';
+import { phraseOptions, planProsody } from '../lib/prosody';
+import type { ProsodyPlan, ProsodySettings } from '../lib/prosody';
+
+export type QueueStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface SpeechQueue {
+  status: QueueStatus;
+  /** Chunk currently being (or next to be) spoken */
+  currentIndex: number;
+  playFrom: (index: number) => void;
+  /** Start speaking at a character offset of the whole document */
+  playFromPosition: (charIndex: number) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  next: () => void;
+  previous: () => void;
+}
+
+/**
+ * Speaks chunks one after another, advancing on each end event and
+ * honouring per-chunk option overrides and trailing pauses. With prosody
+ * settings each chunk is spoken phrase by phrase with its own seeded
+ * variation. A run token guards against late callbacks from utterances
+ * cancelled by a seek.
+ */
+export function useSpeechQueue(
+  engine: TtsEngine,
+  chunks: TextChunk[],
+  options: SynthesisOptions | null,
+  prosody: ProsodySettings | null,
+  onBoundary?: (charIndex: number) => void
+): SpeechQueue {
+  const [status, setStatus] = useState<QueueStatus>('idle');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const runRef = useRef(0);
+  const boundaryRef = useRef(onBoundary);
+
+  useEffect(() => {
+    boundaryRef.current = onBoundary;
+  }, [onBoundary]);
+
+  const speakChunk = useCallback((index: number, run: number, startOffset?: number) => {
+    if (!options || run !== runRef.current) return;
+    if (index >= chunks.length) {
+      setStatus('finished');
+      setCurrentIndex(0);
+      return;
+    }
+
+    const chunk = chunks[index];
+    const offset = Math.max(chunk.start, Math.min(startOffset ?? chunk.start, chunk.end));
+    setCurrentIndex(index);
+    setStatus('playing');
+
+    // Stale timers are harmless: the run token stops them from advancing a newer run
+    const advance = () => {
+      const pause = chunk.pauseAfter ?? 0;
+      if (pause > 0) {
+        setTimeout(() => speakChunk(index + 1, run), pause * 1000);
+      } else {
+        speakChunk(index + 1, run);
+      }
+    };
+
+    const from = offset - chunk.start;
+    if (!chunk.text.slice(from).trim()) {
+      advance();
+      return;
+    }
+
+    // Chunks are planned whole, so starting mid-chunk keeps the variation; each chunk gets its own seed
+    const chunkOptions = { ...options, ...chunk.options };
+    const plan: ProsodyPlan = prosody
+      ? planProsody(chunk.text, chunkOptions, { ...prosody, seed: (prosody.seed + chunk.index) >>> 0, emphasis: false })
+      : { text: chunk.text, phrases: [{ start: 0, end: chunk.text.length, emphasis: false, options: chunkOptions }] };
+    const take = createId();
+
+    const speakPhrase = (phraseIndex: number) => {
+      if (run !== runRef.current) return;
+      const phrase = plan.phrases[phraseIndex];
+      if (!phrase) {
+        advance();
+        return;
+      }
+      if (phrase.end <= from) {
+        speakPhrase(phraseIndex + 1);
+        return;
+      }
+      const start = Math.max(from, phrase.start);
+      engine.speak(plan.text.slice(start, phrase.end), phraseOptions(plan, phraseIndex, take), {
+        onBoundary: (event) => {
+          if (run === runRef.current) boundaryRef.current?.(chunk.start + start + event.charIndex);
+        },
+        onEnd: () => speakPhrase(phraseIndex + 1),
+        onError: (error) => {
+          console.error(`Chunk ${index + 1} failed:`, error);
+          advance();
+        }
+      });
+    };
+
+    speakPhrase(0);
+  }, [engine, chunks, options, prosody]);
+
+  const playFrom = useCallback((index: number, startOffset?: number) => {
+    engine.cancel();
+    runRef.current++;
+    speakChunk(Math.max(0, Math.min(index, chunks.length - 1)), runRef.current, startOffset);
+  }, [engine, chunks.length, speakChunk]);
+
+  const playFromPosition = useCallback((charIndex: number) => {
+    const index = chunks.findIndex(chunk => charIndex < chunk.end);
+    if (index >= 0) playFrom(index, charIndex);
+  }, [chunks, playFrom]);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    engine.cancel();
+    setStatus('idle');
+  }, [engine]);
+
+  const pause = useCallback(() => {
+    if (engine.capabilities.pauseResume) {
+      engine.pause();
+      setStatus('paused');
+    } else {
+      // Without native pause, stopping keeps the position so play resumes from this chunk
+      stop();
+    }
+  }, [engine, stop]);
+
+  const resume = useCallback(() => {
+    if (status === 'paused') {
+      engine.resume();
+      setStatus('playing');
+    } else {
+      playFrom(currentIndex);
+    }
+  }, [engine, status, currentIndex, playFrom]);
+
+  // A new document or engine invalidates whatever is playing
+  useEffect(() => {
+    runRef.current++;
+    setStatus('idle');
+    setCurrentIndex(0);
+    return () => engine.cancel();
+  }, [engine, chunks]);
+
+  return {
+    status,
+    currentIndex,
+    playFrom: (index) => playFrom(index),
+    playFromPosition,
+    pause,
+    resume,
+    stop,
+    next: () => playFrom(currentIndex + 1),
+    previous: () => playFrom(currentIndex - 1)
+  };
+}
@@ -0,0 +1,93 @@
+// Display and assistive settings. They are applied as data attributes and a
+// root font size on <html>, so index.css and the rem-based Tailwind sizes pick
+// them up without any component knowing about them.
+
+export type Theme = 'dark' | 'light' | 'contrast';
+export type ReadingFont = 'default' | 'dyslexic';
+
+export interface AccessibilitySettings {
+  theme: Theme;
+  font: ReadingFont;
+  /** Multiplier for every text and control size */
+  textScale: number;
+  reduceMotion: boolean;
+  /** Announce playback and generation changes to screen readers; errors are always announced */
+  announcements: boolean;
+}
+
+export const THEMES: { id: Theme; label: string }[] = [
+  { id: 'dark', label: 'Dark' },
+  { id: 'light', label: 'Light' },
+  { id: 'contrast', label: 'High contrast' }
+];
+
+export const READING_FONTS: { id: ReadingFont; label: string; description: string }[] = [
+  { id: 'default', label: 'Standard', description: 'The system interface font' },
+  {
+    id: 'dyslexic',
+    label: 'Dyslexia-friendly',
+    description: 'OpenDyslexic or Lexend when installed, otherwise a plain rounded font, with wider letter and line spacing'
+  }
+];
+
+export const TEXT_SCALE_MIN = 0.875;
+export const TEXT_SCALE_MAX = 1.5;
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  theme: 'dark',
+  font: 'default',
+  textScale: 1,
+  reduceMotion: false,
+  announcements: true
+};
+
+const STORAGE_KEY = 'advanced-tts:accessibility';
+
+const isTheme = (value: unknown): value is Theme => THEMES.some(theme => theme.id === value);
+const isReadingFont = (value: unknown): value is ReadingFont => READING_FONTS.some(font => font.id === value);
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  const defaults = {
+    ...DEFAULT_ACCESSIBILITY_SETTINGS,
+    // First visits follow the system preferences
+    theme: window.matchMedia?.('(prefers-contrast: more)').matches
+      ? 'contrast'
+      : window.matchMedia?.('(prefers-color-scheme: light)').matches ? 'light' : 'dark',
+    reduceMotion: window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false
+  } satisfies AccessibilitySettings;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return defaults;
+    return {
+      theme: isTheme(stored.theme) ? stored.theme : defaults.theme,
+      font: isReadingFont(stored.font) ? stored.font : defaults.font,
+      textScale: typeof stored.textScale === 'number'
+        ? Math.min(TEXT_SCALE_MAX, Math.max(TEXT_SCALE_MIN, stored.textScale))
+        : defaults.textScale,
+      reduceMotion: typeof stored.reduceMotion === 'boolean' ? stored.reduceMotion : defaults.reduceMotion,
+      announcements: typeof stored.announcements === 'boolean' ? stored.announcements : defaults.announcements
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Could not save accessibility settings:', error);
+  }
+}
+
+export function applyAccessibilitySettings(settings: AccessibilitySettings, root = document.documentElement) {
+  root.dataset.theme = settings.theme;
+  root.dataset.font = settings.font;
+  root.dataset.motion = settings.reduceMotion ? 'reduced' : 'full';
+  root.style.fontSize = `${settings.textScale * 100}%`;
+  root.style.colorScheme = settings.theme === 'light' ? 'light' : 'dark';
+}
+
+/** Scrolling for scripted scrollIntoView calls, which the CSS motion setting does not reach */
+export const scrollBehavior = (): ScrollBehavior =>
+  document.documentElement.dataset.motion === 'reduced' ? 'auto' : 'smooth';
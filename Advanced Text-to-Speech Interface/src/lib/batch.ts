@@ -0,0 +1,203 @@
+// Batch synthesis input and reports. A batch file (CSV, plain text or
+// Markdown) becomes a list of items, each voiced separately and named by id.
+
+import { csvRow, parseCsv } from './csv';
+import { createZip } from './zip';
+
+export interface BatchItem {
+  /** Unique, filename-safe identifier */
+  id: string;
+  text: string;
+  /** Voice id, name or language tag; empty uses the selected voice */
+  voice?: string;
+  pitch?: number;
+  speed?: number;
+}
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  item: BatchItem;
+  status: BatchJobStatus;
+  attempts: number;
+  error: string | null;
+  /** Speaking or rendering time in ms once done */
+  duration: number | null;
+  audio?: Blob;
+  /** Anything worth knowing about a job that still succeeded, like a voice fallback */
+  note?: string;
+}
+
+export const BATCH_FILE_TYPES = '.csv,.txt,.md,.markdown,text/csv,text/plain,text/markdown';
+
+const CSV_COLUMNS = ['id', 'text', 'voice', 'pitch', 'speed'] as const;
+
+const slugify = (value: string) =>
+  value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w.-]+/g, '-').replace(/^[-.]+|[-.]+$/g, '').slice(0, 60);
+
+const padded = (index: number) => String(index).padStart(3, '0');
+
+// Ids become file names inside the ZIP, so they must be safe and unique
+function withUniqueIds(items: BatchItem[]): BatchItem[] {
+  const seen = new Set<string>();
+  return items.map((item, index) => {
+    const base = slugify(item.id) || `item-${padded(index + 1)}`;
+    let id = base;
+    for (let n = 2; seen.has(id); n++) id = `${base}-${n}`;
+    seen.add(id);
+    return { ...item, id };
+  });
+}
+
+function parseNumber(value: string | undefined, column: string, row: number) {
+  if (value === undefined || !value.trim()) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) throw new Error(`Row ${row}: ${column} "${value}" is not a positive number`);
+  return number;
+}
+
+function parseCsvItems(content: string): BatchItem[] {
+  const rows = parseCsv(content);
+  if (rows.length === 0) return [];
+
+  // A header row names the columns; without one they are taken in the documented order
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('text');
+  const columns = hasHeader ? header : rows[0].length === 1 ? ['text'] : [...CSV_COLUMNS];
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? row[index] : undefined;
+  };
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const text = column(row, 'text')?.trim();
+    if (!text) return [];
+    return [{
+      id: column(row, 'id')?.trim() ?? '',
+      text,
+      voice: column(row, 'voice')?.trim() || undefined,
+      pitch: parseNumber(column(row, 'pitch'), 'pitch', line),
+      speed: parseNumber(column(row, 'speed'), 'speed', line)
+    }];
+  });
+}
+
+const parseTextItems = (content: string): BatchItem[] =>
+  content.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(text => ({ id: '', text }));
+
+// Markdown keeps emphasis marks, which the prosody planner turns into stress
+const stripInlineMarkdown = (text: string) => text
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/`([^`]+)`/g, '$1')
+  .replace(/<[^>]+>/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Each paragraph or list item is one prompt, named after the heading above it
+function parseMarkdownItems(content: string): BatchItem[] {
+  const items: BatchItem[] = [];
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+  let section = '';
+  let sectionCount = 0;
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = stripInlineMarkdown(paragraph.join(' '));
+    paragraph = [];
+    if (!text) return;
+    sectionCount++;
+    items.push({ id: section ? `${section}-${padded(sectionCount)}` : '', text });
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    const listItem = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (heading) {
+      flush();
+      section = slugify(stripInlineMarkdown(heading[1]));
+      sectionCount = 0;
+    } else if (listItem) {
+      flush();
+      paragraph.push(listItem[1]);
+    } else if (!line.trim() || /^\s*(?:[-*_]\s*){3,}$/.test(line)) {
+      flush();
+    } else {
+      paragraph.push(line.replace(/^\s*>\s?/, ''));
+    }
+  }
+  flush();
+  return items;
+}
+
+/** Parse a batch file by its extension; anything unknown is read as plain text */
+export function parseBatchFile(name: string, content: string): BatchItem[] {
+  const extension = name.toLowerCase().split('.').pop();
+  const items = extension === 'csv'
+    ? parseCsvItems(content)
+    : extension === 'md' || extension === 'markdown'
+      ? parseMarkdownItems(content)
+      : parseTextItems(content);
+  if (items.length === 0) throw new Error(`${name} has no text to synthesize`);
+  return withUniqueIds(items);
+}
+
+export interface BatchSummary {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  pending: number;
+  /** Sum of the measured durations of finished jobs, in ms */
+  totalDuration: number;
+}
+
+export function summarizeBatch(jobs: BatchJob[]): BatchSummary {
+  const count = (status: BatchJobStatus) => jobs.filter(job => job.status === status).length;
+  return {
+    total: jobs.length,
+    done: count('done'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+    pending: count('pending') + count('running'),
+    totalDuration: jobs.reduce((sum, job) => sum + (job.status === 'done' ? job.duration ?? 0 : 0), 0)
+  };
+}
+
+export const batchAudioName = (job: BatchJob) => (job.audio ? `${job.item.id}.wav` : null);
+
+export function batchReportCsv(jobs: BatchJob[]): string {
+  const header = ['id', 'status', 'attempts', 'duration_ms', 'file', 'voice', 'pitch', 'speed', 'note', 'error', 'text'];
+  const rows = jobs.map(job => csvRow([
+    job.item.id,
+    job.status,
+    job.attempts,
+    job.duration === null ? null : Math.round(job.duration),
+    batchAudioName(job),
+    job.item.voice,
+    job.item.pitch,
+    job.item.speed,
+    job.note,
+    job.error,
+    job.item.text
+  ]));
+  return [csvRow(header), ...rows].join('\n');
+}
+
+/** Audio files named by id, plus the report so the ZIP explains itself */
+export async function exportBatchZip(jobs: BatchJob[]): Promise<Blob> {
+  const files = await Promise.all(jobs.flatMap(job => {
+    const name = batchAudioName(job);
+    return name && job.audio ? [job.audio.arrayBuffer().then(buffer => ({ name, data: new Uint8Array(buffer) }))] : [];
+  }));
+  return createZip([...files, { name: 'report.csv', data: new TextEncoder().encode(batchReportCsv(jobs)) }]);
+}
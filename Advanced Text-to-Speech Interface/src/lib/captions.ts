@@ -0,0 +1,276 @@
+// Subtitles from word timings: sentence-level cues for SRT and WebVTT, plus a
+// JSON timing map. Cues never run past a sentence, and a long sentence is split
+// wherever the next word would break the duration or line limits.
+
+import type { BoundaryEvent } from '../engines';
+import { sentenceSpans, wordSpans } from './segments';
+import type { TextSpan } from './segments';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'json';
+
+export const CAPTION_FORMAT_LABELS: Record<CaptionFormat, string> = {
+  srt: 'SRT',
+  vtt: 'WebVTT',
+  json: 'JSON timing map'
+};
+
+const MIME_TYPES: Record<CaptionFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json'
+};
+
+export interface CaptionSettings {
+  format: CaptionFormat;
+  /** Longest a cue stays on screen, in seconds */
+  maxCueDuration: number;
+  /** Characters per caption line */
+  maxLineLength: number;
+  maxLines: number;
+  /** Add word timings: karaoke timestamps in WebVTT and a word list in the JSON map */
+  wordTimings: boolean;
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  format: 'srt',
+  maxCueDuration: 7,
+  maxLineLength: 42,
+  maxLines: 2,
+  wordTimings: false
+};
+
+/** What the captions are timed against: the spoken text and its word boundaries */
+export interface SpeechTimings {
+  text: string;
+  boundaries: BoundaryEvent[];
+  /** Seconds */
+  duration: number;
+}
+
+export interface TimedWord {
+  text: string;
+  charIndex: number;
+  charLength: number;
+  start: number;
+  end: number;
+}
+
+interface CaptionToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface PendingCue {
+  tokens: CaptionToken[];
+  words: TimedWord[];
+  charStart: number;
+  charEnd: number;
+}
+
+export interface Caption {
+  start: number;
+  end: number;
+  charStart: number;
+  charEnd: number;
+  /** Tokens of each line, as wrapped */
+  lines: CaptionToken[][];
+  words: TimedWord[];
+}
+
+// A pause after a word (the end of a sentence, a paragraph gap) is not part of it
+const MAX_WORD_DURATION = 1.5;
+
+/** Time every word of the text, interpolating words the engine reported no boundary for */
+export function timeWords({ text, boundaries, duration }: SpeechTimings): TimedWord[] {
+  const spans = wordSpans(text);
+  const starts = spans.map(() => NaN);
+  let index = 0;
+  for (const boundary of [...boundaries].sort((a, b) => a.charIndex - b.charIndex)) {
+    while (index < spans.length && spans[index].end <= boundary.charIndex) index++;
+    if (index < spans.length && Number.isNaN(starts[index])) starts[index] = boundary.elapsedTime;
+  }
+
+  // Untimed words share the time between their timed neighbours by length
+  for (let i = 0; i < spans.length; i++) {
+    if (!Number.isNaN(starts[i])) continue;
+    let next = i;
+    while (next < spans.length && Number.isNaN(starts[next])) next++;
+    const from = i > 0 ? starts[i - 1] : 0;
+    const to = next < spans.length ? starts[next] : duration;
+    const fromChar = i > 0 ? spans[i - 1].start : 0;
+    const toChar = next < spans.length ? spans[next].start : text.length;
+    for (let j = i; j < next; j++) {
+      starts[j] = from + ((to - from) * (spans[j].start - fromChar)) / Math.max(1, toChar - fromChar);
+    }
+    i = next - 1;
+  }
+
+  return spans.map((span, i) => {
+    const start = starts[i];
+    const next = i + 1 < spans.length ? starts[i + 1] : duration;
+    return {
+      text: text.slice(span.start, span.end),
+      charIndex: span.start,
+      charLength: span.end - span.start,
+      start,
+      end: Math.max(start, Math.min(next, start + MAX_WORD_DURATION, duration))
+    };
+  });
+}
+
+// Greedy wrap; a token longer than a line gets a line of its own
+function wrap(tokens: CaptionToken[], maxLineLength: number): CaptionToken[][] {
+  const lines: CaptionToken[][] = [];
+  let line: CaptionToken[] = [];
+  let length = 0;
+  for (const token of tokens) {
+    if (line.length > 0 && length + 1 + token.text.length > maxLineLength) {
+      lines.push(line);
+      line = [];
+      length = 0;
+    }
+    length += (line.length > 0 ? 1 : 0) + token.text.length;
+    line.push(token);
+  }
+  if (line.length > 0) lines.push(line);
+  return lines;
+}
+
+// Sentences that touch ("$3.50", "e.g.") were split inside a word and are one
+function captionSentences(text: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  for (const span of sentenceSpans(text)) {
+    const previous = sentences[sentences.length - 1];
+    if (previous && previous.end === span.start) previous.end = span.end;
+    else sentences.push({ ...span });
+  }
+  return sentences;
+}
+
+export function buildCaptions(timings: SpeechTimings, settings: CaptionSettings): Caption[] {
+  const { text } = timings;
+  const words = timeWords(timings);
+  const captions: Caption[] = [];
+  let wordIndex = 0;
+
+  for (const sentence of captionSentences(text)) {
+    // Whitespace-separated tokens keep punctuation attached to the word it follows
+    const tokens = Array.from(text.slice(sentence.start, sentence.end).matchAll(/\S+/g), (match) => {
+      const start = sentence.start + (match.index ?? 0);
+      return { text: match[0], start, end: start + match[0].length };
+    });
+    let cue: PendingCue | null = null;
+    let lastTime = words[wordIndex - 1]?.end ?? 0;
+
+    for (const token of tokens) {
+      const tokenWords: TimedWord[] = [];
+      while (wordIndex < words.length && words[wordIndex].charIndex < token.end) {
+        if (words[wordIndex].charIndex >= token.start) tokenWords.push(words[wordIndex]);
+        wordIndex++;
+      }
+      const timed: CaptionToken = {
+        text: token.text,
+        start: tokenWords[0]?.start ?? lastTime,
+        end: tokenWords[tokenWords.length - 1]?.end ?? lastTime
+      };
+      lastTime = timed.end;
+
+      if (cue) {
+        const cueStart = cue.tokens[0].start;
+        const fits = wrap([...cue.tokens, timed], settings.maxLineLength).length <= settings.maxLines
+          && timed.end - cueStart <= settings.maxCueDuration;
+        if (!fits) {
+          captions.push(toCaption(cue, settings));
+          cue = null;
+        }
+      }
+      if (!cue) cue = { tokens: [], words: [], charStart: token.start, charEnd: token.end };
+      cue.tokens.push(timed);
+      cue.words.push(...tokenWords);
+      cue.charEnd = token.end;
+    }
+    if (cue) captions.push(toCaption(cue, settings));
+  }
+
+  // A cue ends no later than the next one starts
+  for (let i = 0; i + 1 < captions.length; i++) {
+    captions[i].end = Math.max(captions[i].start, Math.min(captions[i].end, captions[i + 1].start));
+  }
+  return captions;
+}
+
+function toCaption(cue: PendingCue, settings: CaptionSettings): Caption {
+  return {
+    start: cue.tokens[0].start,
+    end: cue.tokens[cue.tokens.length - 1].end,
+    charStart: cue.charStart,
+    charEnd: cue.charEnd,
+    lines: wrap(cue.tokens, settings.maxLineLength),
+    words: cue.words
+  };
+}
+
+/** HH:MM:SS plus milliseconds after the given separator */
+export function formatCueTime(seconds: number, separator: ',' | '.') {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const lineText = (line: CaptionToken[]) => line.map(token => token.text).join(' ');
+
+export function toSrt(captions: Caption[]) {
+  return captions
+    .map((caption, index) => [
+      String(index + 1),
+      `${formatCueTime(caption.start, ',')} --> ${formatCueTime(caption.end, ',')}`,
+      ...caption.lines.map(lineText)
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toWebVtt(captions: Caption[], wordTimings = false) {
+  const cues = captions.map((caption) => {
+    const lines = caption.lines.map(line => line.map((token, index) => {
+      // Karaoke timestamps mark when each following word is reached
+      const isFirst = index === 0 && line === caption.lines[0];
+      const stamp = wordTimings && !isFirst ? `<${formatCueTime(token.start, '.')}>` : '';
+      return stamp + escapeVtt(token.text);
+    }).join(' '));
+    return [`${formatCueTime(caption.start, '.')} --> ${formatCueTime(caption.end, '.')}`, ...lines].join('\n');
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export function toTimingMap(timings: SpeechTimings, captions: Caption[], wordTimings = false) {
+  return {
+    text: timings.text,
+    duration: roundTime(timings.duration),
+    cues: captions.map(caption => ({
+      start: roundTime(caption.start),
+      end: roundTime(caption.end),
+      charStart: caption.charStart,
+      charEnd: caption.charEnd,
+      text: caption.lines.map(lineText).join('\n'),
+      ...(wordTimings && {
+        words: caption.words.map(word => ({ ...word, start: roundTime(word.start), end: roundTime(word.end) }))
+      })
+    }))
+  };
+}
+
+/** The caption file for the settings' format */
+export function captionFile(timings: SpeechTimings, settings: CaptionSettings): Blob {
+  const captions = buildCaptions(timings, settings);
+  const content = settings.format === 'srt'
+    ? toSrt(captions)
+    : settings.format === 'vtt'
+      ? toWebVtt(captions, settings.wordTimings)
+      : JSON.stringify(toTimingMap(timings, captions, settings.wordTimings), null, 2);
+  return new Blob([content], { type: `${MIME_TYPES[settings.format]};charset=utf-8` });
+}
@@ -0,0 +1,200 @@
+// Splits long documents into utterance-sized chunks. Chrome's speechSynthesis
+// silently stops after roughly 15 seconds of speech, so chunks stay short and
+// always end on a sentence (or, failing that, a word) boundary.
+
+import type { SynthesisOptions } from '../engines';
+import { sentenceSpans, trimSpan } from './segments';
+import type { TextSpan } from './segments';
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  /** Character offsets of the chunk within the source text */
+  start: number;
+  end: number;
+  /** Zero-based paragraph the chunk belongs to */
+  paragraph: number;
+  /** Overrides applied on top of the document's synthesis options */
+  options?: Partial<SynthesisOptions>;
+  /** Silence after the chunk, in seconds */
+  pauseAfter?: number;
+}
+
+/** A run of text with its own voicing, e.g. one SSML segment or one dialogue turn */
+export interface VoicedSegment {
+  text: string;
+  options?: Partial<SynthesisOptions>;
+  pauseAfter?: number;
+  /** Label shown when seeking, defaults to the start of the text */
+  label?: string;
+}
+
+export interface Paragraph {
+  index: number;
+  start: number;
+  end: number;
+  /** First chunk of the paragraph */
+  firstChunk: number;
+  preview: string;
+}
+
+export const DEFAULT_MAX_CHUNK_CHARS = 220;
+
+function splitParagraphs(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const pattern = /\n\s*\n/g;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const span = trimSpan(text, cursor, match.index);
+    if (span) spans.push(span);
+    cursor = match.index + match[0].length;
+  }
+  const last = trimSpan(text, cursor, text.length);
+  if (last) spans.push(last);
+  return spans;
+}
+
+// Break an over-long sentence at the last word boundary that fits
+function splitLongSpan(text: string, span: TextSpan, maxChars: number): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let start = span.start;
+  while (span.end - start > maxChars) {
+    let cut = text.lastIndexOf(' ', start + maxChars);
+    if (cut <= start) cut = start + maxChars;
+    const piece = trimSpan(text, start, cut);
+    if (piece) spans.push(piece);
+    start = cut;
+  }
+  const rest = trimSpan(text, start, span.end);
+  if (rest) spans.push(rest);
+  return spans;
+}
+
+export function chunkText(text: string, maxChars = DEFAULT_MAX_CHUNK_CHARS): { chunks: TextChunk[]; paragraphs: Paragraph[] } {
+  const chunks: TextChunk[] = [];
+  const paragraphs: Paragraph[] = [];
+
+  splitParagraphs(text).forEach((paragraphSpan, paragraphIndex) => {
+    paragraphs.push({
+      index: paragraphIndex,
+      start: paragraphSpan.start,
+      end: paragraphSpan.end,
+      firstChunk: chunks.length,
+      preview: text.slice(paragraphSpan.start, Math.min(paragraphSpan.end, paragraphSpan.start + 60))
+    });
+
+    // Greedily pack whole sentences into chunks
+    let current: TextSpan | null = null;
+    const flush = () => {
+      if (!current) return;
+      chunks.push({
+        index: chunks.length,
+        text: text.slice(current.start, current.end),
+        start: current.start,
+        end: current.end,
+        paragraph: paragraphIndex
+      });
+      current = null;
+    };
+
+    sentenceSpans(text, paragraphSpan)
+      .flatMap(sentence => splitLongSpan(text, sentence, maxChars))
+      .forEach((sentence) => {
+        if (current && sentence.end - current.start <= maxChars) {
+          current.end = sentence.end;
+        } else {
+          flush();
+          current = { ...sentence };
+        }
+      });
+    flush();
+  });
+
+  return { chunks, paragraphs };
+}
+
+/**
+ * Chunk a sequence of voiced segments. Each segment becomes a seekable
+ * "paragraph" and its chunks inherit the segment's options and pause.
+ */
+export function chunkSegments(segments: VoicedSegment[], maxChars = DEFAULT_MAX_CHUNK_CHARS) {
+  const chunks: TextChunk[] = [];
+  const paragraphs: Paragraph[] = [];
+  let text = '';
+
+  segments.forEach((segment, paragraphIndex) => {
+    if (text) text += segments[paragraphIndex - 1].pauseAfter ? '\n' : ' ';
+    const offset = text.length;
+    text += segment.text;
+
+    paragraphs.push({
+      index: paragraphIndex,
+      start: offset,
+      end: text.length,
+      firstChunk: chunks.length,
+      preview: segment.label ?? (segment.text.slice(0, 60) || '(pause)')
+    });
+
+    const pieces = segment.text ? chunkText(segment.text, maxChars).chunks : [];
+    if (pieces.length === 0) {
+      // A bare pause still takes a slot in the queue
+      chunks.push({ index: chunks.length, text: '', start: offset, end: offset, paragraph: paragraphIndex, pauseAfter: segment.pauseAfter });
+      return;
+    }
+    pieces.forEach((piece, pieceIndex) => {
+      chunks.push({
+        index: chunks.length,
+        text: piece.text,
+        start: offset + piece.start,
+        end: offset + piece.end,
+        paragraph: paragraphIndex,
+        options: segment.options,
+        pauseAfter: pieceIndex === pieces.length - 1 ? segment.pauseAfter : undefined
+      });
+    });
+  });
+
+  return { text, chunks, paragraphs };
+}
+
+/**
+ * Split chunks wherever the voicing changes, e.g. at a switch of language.
+ * Spans are in source coordinates; each piece takes its span's options.
+ */
+export function splitChunksBySpans(
+  text: string,
+  document: { chunks: TextChunk[]; paragraphs: Paragraph[] },
+  spans: (TextSpan & { options?: Partial<SynthesisOptions> })[]
+) {
+  const chunks: TextChunk[] = [];
+  const paragraphs = document.paragraphs.map(paragraph => ({ ...paragraph }));
+
+  document.chunks.forEach((chunk) => {
+    const paragraph = paragraphs[chunk.paragraph];
+    if (paragraph.firstChunk === chunk.index) paragraph.firstChunk = chunks.length;
+
+    const pieces = spans
+      .filter(span => span.start < chunk.end && span.end > chunk.start)
+      .map(span => ({ span: trimSpan(text, Math.max(span.start, chunk.start), Math.min(span.end, chunk.end)), options: span.options }))
+      .filter((piece): piece is { span: TextSpan; options: Partial<SynthesisOptions> | undefined } => piece.span !== null);
+
+    if (pieces.length === 0) {
+      chunks.push({ ...chunk, index: chunks.length });
+      return;
+    }
+    pieces.forEach(({ span, options }, pieceIndex) => {
+      chunks.push({
+        ...chunk,
+        index: chunks.length,
+        text: text.slice(span.start, span.end),
+        start: span.start,
+        end: span.end,
+        options: { ...chunk.options, ...options },
+        pauseAfter: pieceIndex === pieces.length - 1 ? chunk.pauseAfter : undefined
+      });
+    });
+  });
+
+  return { chunks, paragraphs };
+}
@@ -0,0 +1,242 @@
+// Document import: turns text, Markdown, web pages, e-books, Word files and
+// PDFs into clean reading text plus a table of contents. Every format is
+// reduced to a list of blocks first; blocks become paragraphs of the text,
+// which is what the long-document queue splits on.
+
+import { readDocx } from './docx';
+import { readEpub } from './epub';
+import { htmlBlocks, mainContent } from './htmlText';
+import { readPdf } from './pdf';
+import { crc32 } from './zip';
+
+export type DocumentFormat = 'txt' | 'md' | 'html' | 'epub' | 'docx' | 'pdf';
+
+export const DOCUMENT_FILE_TYPES = '.txt,.text,.md,.markdown,.html,.htm,.xhtml,.epub,.docx,.pdf';
+
+export interface DocumentBlock {
+  text: string;
+  /** Heading level from 1; absent for body text */
+  level?: number;
+  /** Table of contents label for a block that is not a heading, e.g. the start of a PDF page */
+  anchor?: string;
+}
+
+export interface ExtractedDocument {
+  title?: string;
+  blocks: DocumentBlock[];
+}
+
+export interface DocumentHeading {
+  title: string;
+  level: number;
+  /** Offset of the entry within the document text */
+  start: number;
+}
+
+export interface ImportedDocument {
+  /** Derived from the content, so the same document is recognised when imported again */
+  id: string;
+  fileName: string;
+  title: string;
+  format: DocumentFormat;
+  text: string;
+  headings: DocumentHeading[];
+  /** The text was cut to the length limit */
+  truncated: boolean;
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  epub: 'epub',
+  docx: 'docx',
+  pdf: 'pdf'
+};
+
+export function documentFormat(fileName: string): DocumentFormat | null {
+  return EXTENSIONS[fileName.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+}
+
+const HEADING_WORDS = /^(chapter|part|book|section|prologue|epilogue|preface|foreword|introduction|conclusion|appendix|afterword)\b/i;
+
+function isPlainHeading(line: string) {
+  if (line.length > 80 || /[.,;:!?]$/.test(line)) return false;
+  return HEADING_WORDS.test(line) || (/[A-Z]/.test(line) && line === line.toUpperCase());
+}
+
+// Project Gutenberg texts wrap the book in licence boilerplate
+function stripGutenberg(text: string) {
+  const start = /^\*\*\*\s*START OF (THE|THIS) PROJECT GUTENBERG.*$/im.exec(text);
+  const end = /^\*\*\*\s*END OF (THE|THIS) PROJECT GUTENBERG.*$/im.exec(text);
+  if (!start) return text;
+  return text.slice(start.index + start[0].length, end && end.index > start.index ? end.index : text.length);
+}
+
+export function plainTextBlocks(source: string): DocumentBlock[] {
+  return stripGutenberg(source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'))
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => {
+      // Hard-wrapped lines belong to one paragraph
+      const text = paragraph.replace(/\s*\n\s*/g, ' ');
+      return !paragraph.includes('\n') && isPlainHeading(text) ? { text, level: 1 } : { text };
+    });
+}
+
+function inlineMarkdown(text: string) {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<https?:[^>]+>/g, '')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/`+([^`]+)`+/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?=\W|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function markdownBlocks(source: string): ExtractedDocument {
+  let text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+  const frontMatter = /^---\n([\s\S]*?)\n---\n/.exec(text);
+  if (frontMatter) {
+    title = /^title:\s*["']?(.+?)["']?\s*$/m.exec(frontMatter[1])?.[1];
+    text = text.slice(frontMatter[0].length);
+  }
+
+  const blocks: DocumentBlock[] = [];
+  let lines: string[] = [];
+  let fence: string | null = null;
+  const flush = () => {
+    const paragraph = inlineMarkdown(lines.join(' '));
+    if (paragraph) blocks.push({ text: paragraph });
+    lines = [];
+  };
+
+  for (const raw of text.split('\n')) {
+    // Code is not read aloud
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(raw);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const line = raw.replace(/^\s*(>\s?)+/, '');
+    const heading = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const headingText = inlineMarkdown(heading[2]);
+      if (headingText) blocks.push({ text: headingText, level: heading[1].length });
+    } else if (/^\s*(=+|-+)\s*$/.test(line) && lines.length === 1) {
+      // Setext heading: the underline follows a single line of text
+      const headingText = inlineMarkdown(lines[0]);
+      lines = [];
+      if (headingText) blocks.push({ text: headingText, level: line.trim()[0] === '=' ? 1 : 2 });
+    } else if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\[[^\]]+\]:\s+\S/.test(line)) {
+      flush();
+    } else if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) {
+      // Table separator row
+    } else if (/^\s*\|/.test(line)) {
+      flush();
+      lines.push(line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).filter(Boolean).join(', '));
+      flush();
+    } else if (/^\s*([-*+]|\d+[.)])\s+/.test(line)) {
+      flush();
+      lines.push(line.replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, ''));
+    } else {
+      lines.push(line.trim());
+    }
+  }
+  flush();
+
+  return { title: title ?? blocks.find(block => block.level === 1)?.text, blocks };
+}
+
+function readHtml(source: string): ExtractedDocument {
+  const page = new DOMParser().parseFromString(source, 'text/html');
+  const blocks = htmlBlocks(mainContent(page), { stripBoilerplate: true });
+  const title = page.title.trim() || blocks.find(block => block.level === 1)?.text;
+  return { title, blocks };
+}
+
+async function extract(file: File, format: DocumentFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'txt':
+      return { blocks: plainTextBlocks(await file.text()) };
+    case 'md':
+      return markdownBlocks(await file.text());
+    case 'html':
+      return readHtml(await file.text());
+    case 'epub':
+      return readEpub(await file.arrayBuffer());
+    case 'docx':
+      return readDocx(await file.arrayBuffer());
+    case 'pdf':
+      return readPdf(await file.arrayBuffer());
+  }
+}
+
+/** Join blocks into paragraphs and collect headings and anchors as the table of contents */
+export function assembleDocument(blocks: DocumentBlock[]) {
+  let text = '';
+  const headings: DocumentHeading[] = [];
+  for (const block of blocks) {
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += block.text;
+    if (block.level) headings.push({ title: block.text, level: block.level, start });
+    else if (block.anchor) headings.push({ title: block.anchor, level: 1, start });
+  }
+  return { text, headings };
+}
+
+export async function importDocument(file: File, maxChars = Infinity): Promise<ImportedDocument> {
+  const format = documentFormat(file.name);
+  if (!format) throw new Error(`Unsupported document type: ${file.name}`);
+
+  const extracted = await extract(file, format);
+  const blocks = extracted.blocks.filter(block => block.text.trim());
+  if (blocks.length === 0) {
+    throw new Error(format === 'pdf'
+      ? `${file.name} has no text layer; scanned PDFs need to be run through OCR first`
+      : `${file.name} contains no readable text`);
+  }
+
+  const { text, headings } = assembleDocument(blocks);
+  const truncated = text.length > maxChars;
+  return {
+    id: `${crc32(new TextEncoder().encode(text)).toString(16)}-${text.length}`,
+    fileName: file.name,
+    title: extracted.title?.trim() || file.name.replace(/\.[^.]+$/, ''),
+    format,
+    text: truncated ? text.slice(0, maxChars) : text,
+    headings: truncated ? headings.filter(heading => heading.start < maxChars) : headings,
+    truncated
+  };
+}
+
+/** The table of contents entry a position falls under */
+export function headingAt(headings: DocumentHeading[], position: number): DocumentHeading | null {
+  let current: DocumentHeading | null = null;
+  for (const heading of headings) {
+    if (heading.start > position) break;
+    current = heading;
+  }
+  return current;
+}
@@ -0,0 +1,63 @@
+// Word documents: the paragraphs of the main body with their heading levels.
+// Headers, footers and comments live in other parts and are never read.
+
+import type { DocumentBlock, ExtractedDocument } from './documents';
+import { readZip } from './zip';
+
+const parseXml = (source: string) => new DOMParser().parseFromString(source, 'application/xml');
+
+// Heading levels by style id, from the style names ("heading 2") or outline levels
+function headingStyles(stylesXml: string | undefined) {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+  for (const style of Array.from(parseXml(stylesXml).getElementsByTagName('w:style'))) {
+    const id = style.getAttribute('w:styleId');
+    const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') ?? '';
+    const outline = style.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+    const heading = /^heading (\d)$/i.exec(name);
+    const level = /^title$/i.test(name) ? 1 : heading ? Number(heading[1]) : outline ? Number(outline) + 1 : 0;
+    if (id && level > 0 && level <= 9) levels.set(id, level);
+  }
+  return levels;
+}
+
+// Text boxes nest paragraphs inside paragraphs; each run belongs to its closest one
+function owningParagraph(node: Element) {
+  let parent = node.parentElement;
+  while (parent && parent.nodeName !== 'w:p') parent = parent.parentElement;
+  return parent;
+}
+
+function paragraphText(paragraph: Element) {
+  let text = '';
+  for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+    if (owningParagraph(node) !== paragraph) continue;
+    if (node.nodeName === 'w:t') text += node.textContent ?? '';
+    else if (node.nodeName === 'w:tab' || node.nodeName === 'w:br' || node.nodeName === 'w:cr') text += ' ';
+    else if (node.nodeName === 'w:noBreakHyphen') text += '-';
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export async function readDocx(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(buffer)).map(entry => [entry.name, decoder.decode(entry.data)]));
+  const body = files.get('word/document.xml');
+  if (!body) throw new Error('Not a Word document: word/document.xml is missing');
+
+  const styles = headingStyles(files.get('word/styles.xml'));
+  const blocks: DocumentBlock[] = [];
+  for (const paragraph of Array.from(parseXml(body).getElementsByTagName('w:p'))) {
+    const text = paragraphText(paragraph);
+    if (!text) continue;
+    const properties = Array.from(paragraph.children).find(child => child.nodeName === 'w:pPr');
+    const styleId = properties?.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') ?? '';
+    const outline = properties?.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+    const level = outline ? Number(outline) + 1 : styles.get(styleId) ?? Number(/^Heading(\d)$/.exec(styleId)?.[1] ?? 0);
+    blocks.push(level > 0 && level <= 9 ? { text, level } : { text });
+  }
+
+  const core = files.get('docProps/core.xml');
+  const title = core ? parseXml(core).getElementsByTagName('dc:title')[0]?.textContent ?? undefined : undefined;
+  return { title, blocks };
+}
@@ -0,0 +1,15 @@
+/** Save a blob through a temporary object URL */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Filesystem-safe timestamp for generated file names */
+export const fileTimestamp = (date = new Date()) =>
+  date.toISOString().replace(/[:.]/g, '-').slice(0, 19);
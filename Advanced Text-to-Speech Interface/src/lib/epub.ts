@@ -0,0 +1,93 @@
+// EPUB 2 and 3 books: the chapters listed in the spine, in reading order.
+
+import type { DocumentBlock, ExtractedDocument } from './documents';
+import { htmlBlocks } from './htmlText';
+import { readZip } from './zip';
+
+const parseXml = (source: string, type: DOMParserSupportedType = 'application/xml') =>
+  new DOMParser().parseFromString(source, type);
+
+// Paths inside the archive are relative to the file that mentions them
+function resolvePath(base: string, href: string) {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+const byLocalName = (root: Document | Element, name: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(element => element.localName === name);
+
+// Chapter titles from the navigation document (EPUB 3) or the NCX (EPUB 2)
+function navigationLabels(files: Map<string, string>, navPath: string | undefined, ncxPath: string | undefined) {
+  const labels = new Map<string, string>();
+  const add = (base: string, href: string | null, label: string | null | undefined) => {
+    const path = href && resolvePath(base, href);
+    if (path && label?.trim() && !labels.has(path)) labels.set(path, label.replace(/\s+/g, ' ').trim());
+  };
+
+  const nav = navPath ? files.get(navPath) : undefined;
+  if (navPath && nav) {
+    const toc = byLocalName(parseXml(nav, 'application/xhtml+xml'), 'nav')
+      .find(element => element.getAttribute('epub:type') === 'toc') ?? null;
+    if (toc) byLocalName(toc, 'a').forEach(link => add(navPath, link.getAttribute('href'), link.textContent));
+  }
+  const ncx = ncxPath ? files.get(ncxPath) : undefined;
+  if (ncxPath && ncx) {
+    byLocalName(parseXml(ncx), 'navPoint').forEach((point) => {
+      const label = byLocalName(point, 'text')[0]?.textContent;
+      add(ncxPath, byLocalName(point, 'content')[0]?.getAttribute('src') ?? null, label);
+    });
+  }
+  return labels;
+}
+
+function chapterBlocks(source: string): DocumentBlock[] {
+  let page = parseXml(source, 'application/xhtml+xml');
+  // Not every book is well-formed XHTML; the HTML parser forgives
+  if (page.getElementsByTagName('parsererror').length > 0) page = parseXml(source, 'text/html');
+  const body = byLocalName(page, 'body')[0] ?? page.documentElement;
+  return htmlBlocks(body);
+}
+
+export async function readEpub(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(buffer)).map(entry => [entry.name, decoder.decode(entry.data)]));
+
+  const container = files.get('META-INF/container.xml');
+  const opfPath = container && byLocalName(parseXml(container), 'rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath ? files.get(opfPath) : undefined;
+  if (!opfPath || !opf) throw new Error('Not an EPUB book: its package document is missing');
+
+  const pkg = parseXml(opf);
+  const manifest = new Map(byLocalName(pkg, 'item').map(item => [item.getAttribute('id') ?? '', item]));
+  const pathOf = (item: Element | undefined) => {
+    const href = item?.getAttribute('href');
+    return href ? resolvePath(opfPath, href) : undefined;
+  };
+
+  const navItem = Array.from(manifest.values()).find(item => /\bnav\b/.test(item.getAttribute('properties') ?? ''));
+  const spine = byLocalName(pkg, 'spine')[0];
+  const ncxItem = manifest.get(spine?.getAttribute('toc') ?? '');
+  const labels = navigationLabels(files, pathOf(navItem), pathOf(ncxItem));
+
+  const blocks: DocumentBlock[] = [];
+  for (const itemref of spine ? byLocalName(spine, 'itemref') : []) {
+    const item = manifest.get(itemref.getAttribute('idref') ?? '');
+    const path = pathOf(item);
+    // The navigation document is a table of contents, not part of the text
+    if (!path || item === navItem) continue;
+    const source = files.get(path);
+    if (!source) continue;
+
+    const chapter = chapterBlocks(source);
+    const label = labels.get(path);
+    if (chapter.length > 0 && label && !chapter.some(block => block.level)) chapter[0] = { ...chapter[0], anchor: label };
+    blocks.push(...chapter);
+  }
+
+  const title = byLocalName(pkg, 'title')[0]?.textContent?.trim();
+  return { title, blocks };
+}
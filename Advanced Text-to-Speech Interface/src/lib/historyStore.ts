@@ -0,0 +1,97 @@
+// Generation history and named projects, persisted in IndexedDB so rendered
+// audio blobs survive reloads alongside their text and settings.
+
+import type { InputMode, VoiceSettings } from './settings';
+
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  inputMode: InputMode;
+  engineId: string;
+  voiceId: string;
+  voiceName: string;
+  voiceSettings: VoiceSettings;
+  /** Variation seed of the take; missing for entries made before seeds existed */
+  seed?: number;
+  createdAt: number;
+  /** Measured length of the speech in ms, once known */
+  duration: number | null;
+  audio?: Blob;
+  favorite: boolean;
+  projectId: string | null;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'advanced-tts';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const PROJECT_STORE = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await run<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export const getHistoryEntry = (id: string) =>
+  run<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', store => store.get(id));
+
+export const putHistoryEntry = (entry: HistoryEntry) =>
+  run(HISTORY_STORE, 'readwrite', store => store.put(entry)).then(() => entry);
+
+export const deleteHistoryEntry = (id: string) =>
+  run(HISTORY_STORE, 'readwrite', store => store.delete(id)).then(() => undefined);
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await run<Project[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const putProject = (project: Project) =>
+  run(PROJECT_STORE, 'readwrite', store => store.put(project)).then(() => project);
+
+export const deleteProject = (id: string) =>
+  run(PROJECT_STORE, 'readwrite', store => store.delete(id)).then(() => undefined);
@@ -0,0 +1,95 @@
+// Reading text from HTML and XHTML: block elements become paragraphs,
+// headings keep their level, and page furniture is left out.
+
+import type { DocumentBlock } from './documents';
+
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'nav', 'footer', 'aside', 'form', 'button', 'select',
+  'textarea', 'iframe', 'svg', 'math', 'canvas', 'video', 'audio', 'object', 'embed', 'menu', 'dialog', 'head'
+]);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'blockquote', 'pre',
+  'table', 'thead', 'tbody', 'tr', 'caption', 'figure', 'figcaption', 'address', 'hr', 'body'
+]);
+
+const SKIPPED_ROLES = /^(navigation|banner|contentinfo|complementary|search|menu|menubar|toolbar|dialog|alert)$/;
+
+// Class and id words that mark site chrome on web pages
+const BOILERPLATE = /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|sidebar|footer|masthead|cookies?|consent|share|sharing|social|comments?|ads?|advert\w*|promo|related|subscribe|newsletter|skip-link|sr-only|visually-hidden)($|[\s_-])/i;
+
+export interface HtmlTextOptions {
+  /** Also drop elements that look like site chrome by their class names and link density */
+  stripBoilerplate?: boolean;
+}
+
+function isSkipped(element: Element, stripBoilerplate: boolean) {
+  const tag = element.localName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return true;
+  if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') return true;
+  if (/display:\s*none|visibility:\s*hidden/i.test(element.getAttribute('style') ?? '')) return true;
+  if (SKIPPED_ROLES.test(element.getAttribute('role') ?? '')) return true;
+  // A site header is chrome, a chapter header with its title is not
+  if (tag === 'header' && !element.querySelector('h1, h2, h3, h4, h5, h6')) return true;
+  if (!stripBoilerplate || /^h[1-6]$/.test(tag)) return false;
+  return BOILERPLATE.test(`${element.getAttribute('class') ?? ''} ${element.id}`);
+}
+
+/** The element holding the page's own content: <main>, else the largest <article>, else <body> */
+export function mainContent(page: Document): Element {
+  const main = page.querySelector('main, [role="main"]');
+  if (main) return main;
+  const articles = Array.from(page.querySelectorAll('article'));
+  if (articles.length > 0) {
+    return articles.reduce((largest, article) =>
+      (article.textContent?.length ?? 0) > (largest.textContent?.length ?? 0) ? article : largest);
+  }
+  return page.body ?? page.documentElement;
+}
+
+export function htmlBlocks(root: Element, { stripBoilerplate = false }: HtmlTextOptions = {}): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let text = '';
+  let linkText = '';
+  let level: number | undefined;
+
+  const flush = () => {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    const links = linkText.replace(/\s+/g, ' ').trim();
+    // Short runs of mostly links are menus, tag lists and "read more" rows
+    const isLinkList = stripBoilerplate && !level && links.length > clean.length * 0.6 && clean.split(' ').length < 20;
+    if (clean && !isLinkList) blocks.push(level ? { text: clean, level } : { text: clean });
+    text = '';
+    linkText = '';
+    level = undefined;
+  };
+
+  const visit = (node: Node, inLink: boolean) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      text += node.nodeValue ?? '';
+      if (inLink) linkText += node.nodeValue ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    if (isSkipped(element, stripBoilerplate)) return;
+
+    const tag = element.localName.toLowerCase();
+    const heading = /^h([1-6])$/.exec(tag);
+    if (tag === 'br') {
+      text += ' ';
+    } else if (heading || BLOCK_TAGS.has(tag)) {
+      flush();
+      if (heading) level = Number(heading[1]);
+      element.childNodes.forEach(child => visit(child, inLink));
+      flush();
+    } else {
+      element.childNodes.forEach(child => visit(child, inLink || tag === 'a'));
+      if (tag === 'td' || tag === 'th') text += ' ';
+    }
+  };
+
+  visit(root, false);
+  flush();
+  return blocks;
+}
@@ -0,0 +1,3 @@
+/** Short, sortable-ish unique id for locally created records */
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
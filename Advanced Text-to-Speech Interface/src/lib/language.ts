@@ -0,0 +1,197 @@
+// Lightweight offline language identification. Non-Latin scripts are decided
+// by their Unicode block; Latin text is scored against common function words
+// and characteristic letters. Good enough to pick a voice, not a linguist.
+
+import { sentenceSpans } from './segments';
+import type { TextSpan } from './segments';
+
+export interface DetectedLanguage {
+  /** Base language code, e.g. 'de' */
+  lang: string;
+  /** 0–1, how clearly the winner beat the runner-up */
+  confidence: number;
+}
+
+export interface LanguageSpan extends TextSpan {
+  /** Null when the span gave no usable signal */
+  lang: string | null;
+}
+
+type Script = 'latin' | 'cyrillic' | 'greek' | 'arabic' | 'hebrew' | 'devanagari' | 'thai' | 'hangul' | 'cjk';
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['devanagari', /\p{Script=Devanagari}/u],
+  ['thai', /\p{Script=Thai}/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u]
+];
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Latin text only counts as a language on clear evidence; "No." alone ties Spanish and Italian
+const MIN_SPAN_WORDS = 3;
+const MIN_SPAN_CONFIDENCE = 0.5;
+
+// No single letters or common English words, which would let ordinary English score as another language
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'of', 'to', 'in', 'that', 'it', 'you', 'with', 'for', 'this', 'have', 'not', 'be', 'on', 'what', 'we'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'es', 'en', 'un', 'una', 'por', 'con', 'para', 'se', 'del', 'pero', 'muy', 'está'],
+  fr: ['le', 'la', 'les', 'de', 'et', 'est', 'un', 'une', 'des', 'du', 'que', 'pas', 'pour', 'dans', 'il', 'je', 'vous', 'nous', 'avec', 'ce'],
+  de: ['der', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'sie', 'zu', 'mit', 'den', 'auf', 'es', 'für', 'auch', 'sich', 'wir', 'dem'],
+  it: ['il', 'lo', 'la', 'di', 'che', 'un', 'una', 'non', 'con', 'sono', 'gli', 'del', 'della', 'mi', 'ma', 'ci', 'questo'],
+  pt: ['os', 'de', 'que', 'um', 'uma', 'não', 'para', 'da', 'em', 'se', 'mas', 'você', 'muito'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'niet', 'dat', 'ik', 'je', 'met', 'op', 'zijn', 'voor', 'maar', 'ook', 'wat', 'er', 'wij', 'dit'],
+  sv: ['och', 'är', 'att', 'det', 'som', 'en', 'ett', 'på', 'inte', 'jag', 'med', 'för', 'av', 'den', 'har', 'till', 'vi', 'du', 'om'],
+  pl: ['nie', 'jest', 'się', 'na', 'że', 'jak', 'ale', 'co', 'tak', 'od', 'po', 'mnie', 'być', 'czy'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ne', 'ile', 'çok', 'ben', 'sen', 'gibi', 'var', 'değil', 'mi', 'ama', 'daha', 'olarak', 'en']
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([lang, words]) => [lang, new Set(words)])
+);
+
+// Letters that are strong evidence on their own
+const MARKERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  fr: /[œçêèëîôû]/g,
+  de: /[ßäöü]/g,
+  pt: /[ãõ]/g,
+  pl: /[ąęłńśźż]/g,
+  tr: /[ğşı]/g,
+  sv: /[å]/g
+};
+
+function scriptOf(char: string): Script | null {
+  for (const [script, pattern] of SCRIPT_PATTERNS) {
+    if (pattern.test(char)) return script;
+  }
+  return null;
+}
+
+function classifyScript(script: Script, text: string): DetectedLanguage | null {
+  switch (script) {
+    case 'cyrillic': return { lang: /[іїєґ]/i.test(text) ? 'uk' : 'ru', confidence: 0.8 };
+    case 'greek': return { lang: 'el', confidence: 1 };
+    case 'arabic': return { lang: /[پچژگ]/.test(text) ? 'fa' : 'ar', confidence: 0.8 };
+    case 'hebrew': return { lang: 'he', confidence: 1 };
+    case 'devanagari': return { lang: 'hi', confidence: 0.9 };
+    case 'thai': return { lang: 'th', confidence: 1 };
+    case 'hangul': return { lang: 'ko', confidence: 1 };
+    case 'cjk': return { lang: KANA.test(text) ? 'ja' : 'zh', confidence: 0.9 };
+    default: return null;
+  }
+}
+
+function classifyLatin(text: string): DetectedLanguage | null {
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+  if (words.length === 0) return null;
+
+  const scores = Object.keys(STOPWORDS).map((lang) => {
+    let score = words.reduce((sum, word) => sum + (STOPWORD_SETS[lang].has(word) ? 1 : 0), 0);
+    score += (lower.match(MARKERS[lang] ?? /$^/g)?.length ?? 0) * 0.5;
+    return { lang, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score === 0) return null;
+  return { lang: best.lang, confidence: (best.score - second.score) / best.score };
+}
+
+function dominantScript(text: string): Script | null {
+  const counts = new Map<Script, number>();
+  for (const char of text) {
+    const script = scriptOf(char);
+    if (script) counts.set(script, (counts.get(script) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+/** Identify the dominant language of a passage */
+export function detectLanguage(text: string): DetectedLanguage | null {
+  const dominant = dominantScript(text);
+  if (!dominant) return null;
+  return dominant === 'latin' ? classifyLatin(text) : classifyScript(dominant, text);
+}
+
+/**
+ * The language of a passage when it is clear enough to act on, or null.
+ * Other scripts are told by their letters; Latin text needs a few words and
+ * a clear winner.
+ */
+export function confidentLanguage(text: string): string | null {
+  const dominant = dominantScript(text);
+  if (!dominant) return null;
+  if (dominant !== 'latin') return classifyScript(dominant, text)?.lang ?? null;
+  if ((text.match(/\p{L}+/gu)?.length ?? 0) < MIN_SPAN_WORDS) return null;
+  const detected = classifyLatin(text);
+  return detected && detected.confidence >= MIN_SPAN_CONFIDENCE ? detected.lang : null;
+}
+
+// Runs of one script; punctuation, digits and spaces join the run they sit in
+function scriptRuns(text: string): (TextSpan & { script: Script })[] {
+  const runs: (TextSpan & { script: Script })[] = [];
+  let index = 0;
+  for (const char of text) {
+    const script = scriptOf(char);
+    const last = runs[runs.length - 1];
+    if (script && (!last || last.script !== script)) {
+      if (last) last.end = index;
+      runs.push({ start: last ? index : 0, end: text.length, script });
+    }
+    index += char.length;
+  }
+  return runs;
+}
+
+/**
+ * Split text into contiguous spans of one language. Script changes always
+ * split; Latin text is judged sentence by sentence, and sentences too short
+ * or ambiguous to judge take the language of their neighbours.
+ */
+export function languageSpans(text: string): LanguageSpan[] {
+  const spans: (LanguageSpan & { script: Script })[] = [];
+  scriptRuns(text).forEach((run) => {
+    if (run.script !== 'latin') {
+      spans.push({ ...run, lang: classifyScript(run.script, text.slice(run.start, run.end))?.lang ?? null });
+      return;
+    }
+    const sentences = sentenceSpans(text, run);
+    if (sentences.length === 0) {
+      spans.push({ ...run, lang: null });
+      return;
+    }
+    sentences.forEach((sentence, index) => {
+      const start = index === 0 ? run.start : sentence.start;
+      const end = index === sentences.length - 1 ? run.end : sentences[index + 1].start;
+      spans.push({ start, end, script: 'latin', lang: confidentLanguage(text.slice(sentence.start, sentence.end)) });
+    });
+  });
+
+  // Unknown spans inherit the nearest known language in the same script
+  const fallback = detectLanguage(text)?.lang ?? null;
+  const known = spans.map(span => span.lang);
+  spans.forEach((span, index) => {
+    if (span.lang) return;
+    const sameScript = (other: LanguageSpan & { script: Script }, otherIndex: number) =>
+      other.script === span.script && known[otherIndex] !== null;
+    const before = spans.slice(0, index).reverse().find((other, offset) => sameScript(other, index - 1 - offset));
+    const after = spans.slice(index + 1).find((other, offset) => sameScript(other, index + 1 + offset));
+    span.lang = before?.lang ?? after?.lang ?? spans[index - 1]?.lang ?? fallback;
+  });
+
+  return spans.reduce<LanguageSpan[]>((merged, { start, end, lang }) => {
+    const last = merged[merged.length - 1];
+    if (last && last.lang === lang) {
+      last.end = end;
+    } else {
+      merged.push({ start, end, lang });
+    }
+    return merged;
+  }, []);
+}
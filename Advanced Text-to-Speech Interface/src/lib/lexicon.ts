@@ -0,0 +1,95 @@
+// User pronunciation dictionary. Word rules match whole words only; regex
+// rules use JavaScript syntax and may refer to groups as $1 in the replacement.
+
+import type { NormalizationRule } from './normalize';
+import { createId } from './ids';
+
+export type LexiconMatch = 'word' | 'regex';
+
+export interface LexiconEntry {
+  id: string;
+  match: LexiconMatch;
+  pattern: string;
+  replacement: string;
+  caseSensitive: boolean;
+  enabled: boolean;
+}
+
+interface LexiconFile {
+  format: 'advanced-tts-lexicon';
+  version: 1;
+  entries: Omit<LexiconEntry, 'id'>[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function compileEntry(entry: LexiconEntry): RegExp {
+  const flags = `g${entry.caseSensitive ? '' : 'i'}`;
+  if (entry.match === 'regex') return new RegExp(entry.pattern, flags);
+  // Letter/digit lookarounds instead of \b so entries like 'C++' or '.NET' work
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(entry.pattern.trim())}(?![\\p{L}\\p{N}_])`, `${flags}u`);
+}
+
+/** Why an entry cannot be used, or null when it is fine */
+export function lexiconEntryError(entry: LexiconEntry): string | null {
+  if (!entry.pattern.trim()) return 'Pattern is empty';
+  try {
+    if (compileEntry(entry).test('')) return 'Pattern matches empty text';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+  return null;
+}
+
+/** Rules for the enabled, valid entries, in dictionary order */
+export function lexiconRules(entries: LexiconEntry[]): NormalizationRule[] {
+  return entries
+    .filter(entry => entry.enabled && !lexiconEntryError(entry))
+    .map((entry) => {
+      const pattern = compileEntry(entry);
+      const single = new RegExp(pattern.source, pattern.flags.replace('g', ''));
+      return {
+        pattern,
+        replace: ([match]) => entry.match === 'regex' ? match.replace(single, entry.replacement) : entry.replacement
+      };
+    });
+}
+
+export const createLexiconEntry = (patch: Partial<LexiconEntry> = {}): LexiconEntry => ({
+  id: createId(),
+  match: 'word',
+  pattern: '',
+  replacement: '',
+  caseSensitive: false,
+  enabled: true,
+  ...patch
+});
+
+export function serializeLexicon(entries: LexiconEntry[]): string {
+  const file: LexiconFile = {
+    format: 'advanced-tts-lexicon',
+    version: 1,
+    entries: entries.map(({ match, pattern, replacement, caseSensitive, enabled }) =>
+      ({ match, pattern, replacement, caseSensitive, enabled }))
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseLexiconFile(json: string): LexiconEntry[] {
+  const data = JSON.parse(json) as Partial<LexiconFile>;
+  if (data.format !== 'advanced-tts-lexicon' || data.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error('Not a pronunciation dictionary file');
+  }
+  return data.entries.map((entry, index) => {
+    if (typeof entry.pattern !== 'string' || typeof entry.replacement !== 'string') {
+      throw new Error(`Dictionary entry ${index + 1} needs a pattern and a replacement`);
+    }
+    return createLexiconEntry({
+      match: entry.match === 'regex' ? 'regex' : 'word',
+      pattern: entry.pattern,
+      replacement: entry.replacement,
+      caseSensitive: entry.caseSensitive === true,
+      enabled: entry.enabled !== false
+    });
+  });
+}
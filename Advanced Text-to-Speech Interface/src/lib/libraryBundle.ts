@@ -0,0 +1,180 @@
+// Shareable library bundles. A ZIP holds library.json plus one audio file per
+// entry; the JSON form inlines audio as base64 so it stays a single file.
+
+import type { HistoryEntry, Project } from './historyStore';
+import { isSeed } from './random';
+import { isInputMode, isVoiceSettings } from './settings';
+import { createZip, readZip } from './zip';
+
+const FORMAT = 'advanced-tts-library';
+const MANIFEST_NAME = 'library.json';
+
+type BundledEntry = Omit<HistoryEntry, 'audio'> & {
+  audioFile?: string;
+  audioType?: string;
+  audioData?: string;
+};
+
+interface LibraryManifest {
+  format: typeof FORMAT;
+  version: 1;
+  exportedAt: string;
+  projects: Project[];
+  entries: BundledEntry[];
+}
+
+export interface Library {
+  entries: HistoryEntry[];
+  projects: Project[];
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm'
+};
+
+const extensionFor = (type: string) => AUDIO_EXTENSIONS[type.split(';')[0]] ?? 'bin';
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBlob(data: string, type: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+// Copy fields explicitly so stray bundle properties never reach the database
+const toStoredEntry = (entry: BundledEntry | HistoryEntry, audio?: Blob): HistoryEntry => ({
+  id: entry.id,
+  text: entry.text,
+  inputMode: entry.inputMode,
+  engineId: entry.engineId,
+  voiceId: entry.voiceId,
+  voiceName: entry.voiceName,
+  voiceSettings: entry.voiceSettings,
+  seed: isSeed(entry.seed) ? entry.seed : undefined,
+  createdAt: entry.createdAt,
+  duration: entry.duration,
+  audio,
+  favorite: entry.favorite,
+  projectId: entry.projectId
+});
+
+const toStoredProject = (project: Project): Project => ({ id: project.id, name: project.name, createdAt: project.createdAt });
+
+const stripAudio = (entry: HistoryEntry): BundledEntry => {
+  const bundled: BundledEntry = toStoredEntry(entry);
+  delete (bundled as HistoryEntry).audio;
+  return bundled;
+};
+
+const manifest = (projects: Project[], entries: BundledEntry[]): LibraryManifest => ({
+  format: FORMAT,
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  projects,
+  entries
+});
+
+export async function exportLibraryZip({ entries, projects }: Library): Promise<Blob> {
+  const files: { name: string; data: Uint8Array }[] = [];
+  const bundled = await Promise.all(entries.map(async (entry) => {
+    const result = stripAudio(entry);
+    if (entry.audio) {
+      const name = `audio/${entry.id}.${extensionFor(entry.audio.type)}`;
+      files.push({ name, data: new Uint8Array(await entry.audio.arrayBuffer()) });
+      result.audioFile = name;
+      result.audioType = entry.audio.type;
+    }
+    return result;
+  }));
+
+  const json = new TextEncoder().encode(JSON.stringify(manifest(projects, bundled), null, 2));
+  return createZip([{ name: MANIFEST_NAME, data: json }, ...files]);
+}
+
+export async function exportLibraryJson({ entries, projects }: Library): Promise<Blob> {
+  const bundled = await Promise.all(entries.map(async (entry) => {
+    const result = stripAudio(entry);
+    if (entry.audio) {
+      result.audioType = entry.audio.type;
+      result.audioData = await blobToBase64(entry.audio);
+    }
+    return result;
+  }));
+  return new Blob([JSON.stringify(manifest(projects, bundled))], { type: 'application/json' });
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// The first field of a bundled entry that could not be stored and re-run, if any
+function invalidEntryField(entry: BundledEntry): string | null {
+  if (!isString(entry.id)) return 'id';
+  if (!isString(entry.text)) return 'text';
+  if (!isInputMode(entry.inputMode)) return 'inputMode';
+  if (!isString(entry.engineId)) return 'engineId';
+  if (!isString(entry.voiceId)) return 'voiceId';
+  if (!isString(entry.voiceName)) return 'voiceName';
+  if (!isVoiceSettings(entry.voiceSettings)) return 'voiceSettings';
+  if (!Number.isFinite(entry.createdAt)) return 'createdAt';
+  if (entry.duration !== null && !(Number.isFinite(entry.duration) && entry.duration >= 0)) return 'duration';
+  if (typeof entry.favorite !== 'boolean') return 'favorite';
+  if (entry.projectId !== null && !isString(entry.projectId)) return 'projectId';
+  return null;
+}
+
+function parseManifest(json: string): LibraryManifest {
+  const data = JSON.parse(json) as Partial<LibraryManifest>;
+  if (data.format !== FORMAT || data.version !== 1 || !Array.isArray(data.entries) || !Array.isArray(data.projects)) {
+    throw new Error('Not an Advanced TTS library bundle');
+  }
+  data.projects.forEach((project, index) => {
+    if (!isString(project?.id) || !isString(project.name) || !Number.isFinite(project.createdAt)) {
+      throw new Error(`Library project ${index + 1} is malformed`);
+    }
+  });
+  data.entries.forEach((entry, index) => {
+    const field = entry && typeof entry === 'object' ? invalidEntryField(entry) : 'entry';
+    if (field) throw new Error(`Library entry ${index + 1} is malformed: invalid ${field}`);
+  });
+  return data as LibraryManifest;
+}
+
+export async function importLibrary(file: File): Promise<Library> {
+  const buffer = await file.arrayBuffer();
+  const isZip = new DataView(buffer).byteLength >= 4 && new DataView(buffer).getUint32(0, true) === 0x04034b50;
+
+  if (!isZip) {
+    const data = parseManifest(new TextDecoder().decode(buffer));
+    return {
+      projects: data.projects.map(toStoredProject),
+      entries: data.entries.map(entry => toStoredEntry(
+        entry,
+        entry.audioData ? base64ToBlob(entry.audioData, entry.audioType ?? 'audio/wav') : undefined
+      ))
+    };
+  }
+
+  const files = new Map((await readZip(buffer)).map(entry => [entry.name, entry.data]));
+  const json = files.get(MANIFEST_NAME);
+  if (!json) throw new Error(`Bundle is missing ${MANIFEST_NAME}`);
+  const data = parseManifest(new TextDecoder().decode(json));
+
+  return {
+    projects: data.projects.map(toStoredProject),
+    entries: data.entries.map(entry => {
+      const bytes = entry.audioFile ? files.get(entry.audioFile) : undefined;
+      return toStoredEntry(entry, bytes ? new Blob([bytes], { type: entry.audioType ?? 'audio/wav' }) : undefined);
+    })
+  };
+}
@@ -0,0 +1,88 @@
+// Measured synthesis telemetry. Every number here comes from a real event
+// timestamp; nothing is estimated or simulated.
+
+import { csvCell } from './csv';
+
+export type MeasurementOutcome = 'success' | 'error' | 'cancelled';
+
+export interface SynthesisMeasurement {
+  id: string;
+  engineId: string;
+  voiceId: string;
+  characters: number;
+  /** Wall-clock time the request was made, ms since epoch */
+  requestedAt: number;
+  /** Request to first audible output, ms */
+  timeToFirstAudio: number | null;
+  /** Audible speaking time excluding pauses, ms */
+  speakingDuration: number | null;
+  /** Time spent rendering audio for engines that produce buffers, ms */
+  renderTime: number | null;
+  outcome: MeasurementOutcome;
+  error?: string;
+}
+
+export interface MetricsSummary {
+  total: number;
+  completed: number;
+  errors: number;
+  cancelled: number;
+  /** Share of finished (non-cancelled) requests that succeeded, 0..1, or null without data */
+  successRate: number | null;
+  averageTimeToFirstAudio: number | null;
+  averageCharsPerSecond: number | null;
+  averageRenderTime: number | null;
+  totalSpeakingTime: number;
+  errorsByVoice: Record<string, number>;
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export const formatMs = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+};
+
+export const charsPerSecond = (measurement: SynthesisMeasurement) =>
+  measurement.speakingDuration ? measurement.characters / (measurement.speakingDuration / 1000) : null;
+
+export function summarizeMetrics(measurements: SynthesisMeasurement[]): MetricsSummary {
+  const successes = measurements.filter(m => m.outcome === 'success');
+  const errors = measurements.filter(m => m.outcome === 'error');
+  const finished = successes.length + errors.length;
+
+  const errorsByVoice: Record<string, number> = {};
+  errors.forEach(m => {
+    const voice = m.voiceId || 'default';
+    errorsByVoice[voice] = (errorsByVoice[voice] ?? 0) + 1;
+  });
+
+  return {
+    total: measurements.length,
+    completed: successes.length,
+    errors: errors.length,
+    cancelled: measurements.length - finished,
+    successRate: finished ? successes.length / finished : null,
+    averageTimeToFirstAudio: average(measurements.flatMap(m => m.timeToFirstAudio ?? [])),
+    averageCharsPerSecond: average(successes.flatMap(m => charsPerSecond(m) ?? [])),
+    averageRenderTime: average(measurements.flatMap(m => m.renderTime ?? [])),
+    totalSpeakingTime: successes.reduce((sum, m) => sum + (m.speakingDuration ?? 0), 0),
+    errorsByVoice
+  };
+}
+
+const CSV_COLUMNS: (keyof SynthesisMeasurement)[] = [
+  'id', 'requestedAt', 'engineId', 'voiceId', 'characters', 'timeToFirstAudio',
+  'speakingDuration', 'renderTime', 'outcome', 'error'
+];
+
+export function metricsToCsv(measurements: SynthesisMeasurement[]): string {
+  const rows = measurements.map(m => CSV_COLUMNS.map(column =>
+    csvCell(column === 'requestedAt' ? new Date(m.requestedAt).toISOString() : m[column])
+  ).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export const metricsToJson = (measurements: SynthesisMeasurement[]) =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), measurements }, null, 2);
@@ -0,0 +1,350 @@
+// Text normalization before synthesis. Rules rewrite matches into speakable
+// words; rewritten pieces are never touched by later rules, so every piece
+// keeps an exact link back to the source text for read-along highlighting.
+
+import { MONTHS, digitsToWords, integerToWords, numberToWords, ordinalToWords, yearToWords } from './numberWords';
+
+export interface NormalizationRule {
+  pattern: RegExp;
+  /** Speakable replacement, or null to leave the match alone */
+  replace: (match: RegExpMatchArray) => string | null;
+}
+
+export type BuiltInRuleGroup = 'urls' | 'abbreviations' | 'currencies' | 'dates' | 'units' | 'numbers';
+
+export type BuiltInRuleSettings = Record<BuiltInRuleGroup, boolean>;
+
+export const BUILT_IN_RULE_GROUPS: { id: BuiltInRuleGroup; label: string; example: string }[] = [
+  { id: 'urls', label: 'URLs & email', example: 'www.example.com' },
+  { id: 'abbreviations', label: 'Abbreviations', example: 'Dr., e.g., HTML' },
+  { id: 'currencies', label: 'Currencies', example: '$12.50, €3M' },
+  { id: 'dates', label: 'Dates & times', example: '2024-03-15, 9:30 pm' },
+  { id: 'units', label: 'Units', example: '5 km, 20%, 3.5 GB' },
+  { id: 'numbers', label: 'Numbers', example: '1,204, 3rd, 1999' }
+];
+
+export const DEFAULT_BUILT_IN_RULES: BuiltInRuleSettings = {
+  urls: true,
+  abbreviations: true,
+  currencies: true,
+  dates: true,
+  units: true,
+  numbers: true
+};
+
+interface Piece {
+  text: string;
+  sourceStart: number;
+  sourceEnd: number;
+  replaced: boolean;
+}
+
+export interface NormalizedPiece extends Piece {
+  /** Offsets of the piece in the normalized text */
+  start: number;
+  end: number;
+}
+
+export interface NormalizedText {
+  text: string;
+  pieces: NormalizedPiece[];
+  /** Map a range of the normalized text back onto the source text */
+  toSource: (start: number, end: number) => { start: number; end: number };
+}
+
+// Numbers may not touch letters or other digits, so 'mp3' and 'A4' stay intact
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const BEFORE = String.raw`(?<![\p{L}\p{N}.,])`;
+const AFTER = String.raw`(?![\p{L}\p{N}]|[.,]\d)`;
+
+const SPOKEN_SYMBOLS: Record<string, string> = {
+  '.': ' dot ',
+  '/': ' slash ',
+  '-': ' dash ',
+  '_': ' underscore ',
+  '@': ' at ',
+  ':': ' colon ',
+  '?': ' question mark ',
+  '=': ' equals ',
+  '&': ' and ',
+  '#': ' hash ',
+  '~': ' tilde '
+};
+
+const speakAddress = (address: string) =>
+  address.replace(/[./\-_@:?=&#~]/g, symbol => SPOKEN_SYMBOLS[symbol]).replace(/\s+/g, ' ').trim();
+
+const URL_RULES: NormalizationRule[] = [
+  {
+    pattern: /\b(?:https?:\/\/|www\.)[^\s<>"]*[^\s<>".,!?;:)'"]/gi,
+    replace: ([url]) => speakAddress(url.replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, ''))
+  },
+  {
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+    replace: ([email]) => speakAddress(email)
+  }
+];
+
+const ABBREVIATIONS: Record<string, string> = {
+  'Dr.': 'Doctor',
+  'Mr.': 'Mister',
+  'Mrs.': 'Missus',
+  'Ms.': 'Miz',
+  'Prof.': 'Professor',
+  'Jr.': 'Junior',
+  'Sr.': 'Senior',
+  'Inc.': 'Incorporated',
+  'Ltd.': 'Limited',
+  'Co.': 'Company',
+  'Dept.': 'Department',
+  'approx.': 'approximately',
+  'etc.': 'et cetera',
+  'e.g.': 'for example',
+  'i.e.': 'that is',
+  'vs.': 'versus',
+  'Jan.': 'January',
+  'Feb.': 'February',
+  'Aug.': 'August',
+  'Sept.': 'September',
+  'Oct.': 'October',
+  'Nov.': 'November',
+  'Dec.': 'December'
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ABBREVIATION_RULES: NormalizationRule[] = [
+  {
+    pattern: new RegExp(`(?<![\\p{L}.])(?:${Object.keys(ABBREVIATIONS).map(escapeRegExp).join('|')})`, 'gu'),
+    replace: ([abbreviation]) => ABBREVIATIONS[abbreviation]
+  },
+  {
+    pattern: /\bNo\.(?=\s*\d)/g,
+    replace: () => 'number'
+  },
+  {
+    // Acronyms without vowels cannot be read as a word, so spell them out,
+    // except units such as the GB in '3.5 GB', which the units rules read
+    pattern: /\b[B-DF-HJ-NP-TV-XZ]{2,5}s?\b/g,
+    replace: ({ 0: acronym, index = 0, input = '' }) => {
+      if (acronym in UNITS && /\d\s?$/.test(input.slice(0, index))) return null;
+      return acronym.endsWith('s') ? `${acronym.slice(0, -1).split('').join(' ')}'s` : acronym.split('').join(' ');
+    }
+  }
+];
+
+const CURRENCIES: Record<string, { one: string; many: string; cent: string; cents: string }> = {
+  '$': { one: 'dollar', many: 'dollars', cent: 'cent', cents: 'cents' },
+  '€': { one: 'euro', many: 'euros', cent: 'cent', cents: 'cents' },
+  '£': { one: 'pound', many: 'pounds', cent: 'penny', cents: 'pence' },
+  '¥': { one: 'yen', many: 'yen', cent: 'sen', cents: 'sen' }
+};
+
+const MAGNITUDES: Record<string, string> = {
+  k: 'thousand',
+  thousand: 'thousand',
+  m: 'million',
+  million: 'million',
+  bn: 'billion',
+  b: 'billion',
+  billion: 'billion'
+};
+
+const CURRENCY_RULES: NormalizationRule[] = [
+  {
+    pattern: new RegExp(`([$€£¥])\\s?(${NUMBER})(?:\\s?(k|m|bn|b|thousand|million|billion)\\b)?`, 'gi'),
+    replace: ([, symbol, amount, magnitude]) => {
+      const currency = CURRENCIES[symbol];
+      if (magnitude) return `${numberToWords(amount)} ${MAGNITUDES[magnitude.toLowerCase()]} ${currency.many}`;
+      const [whole, cents = ''] = amount.replace(/,/g, '').split('.');
+      // Only two decimals read as cents; '$1.5' is one point five dollars
+      if (cents && cents.length !== 2) return `${numberToWords(amount)} ${currency.many}`;
+      const units = Number(whole);
+      const main = `${integerToWords(units)} ${units === 1 ? currency.one : currency.many}`;
+      const centValue = Number(cents || '0');
+      if (!centValue) return main;
+      const centWords = `${integerToWords(centValue)} ${centValue === 1 ? currency.cent : currency.cents}`;
+      return units ? `${main} and ${centWords}` : centWords;
+    }
+  }
+];
+
+const dayAndMonth = (month: number, day: number) =>
+  month >= 1 && month <= 12 && day >= 1 && day <= 31 ? `${MONTHS[month - 1]} ${ordinalToWords(day)}` : null;
+
+const DATE_RULES: NormalizationRule[] = [
+  {
+    // ISO 8601: 2024-03-15
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    replace: ([, year, month, day]) => {
+      const date = dayAndMonth(Number(month), Number(day));
+      return date && `${date}, ${yearToWords(Number(year))}`;
+    }
+  },
+  {
+    // US order, unless the first part cannot be a month: 3/15/2024, 15/3/2024
+    pattern: /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+    replace: ([, first, second, year]) => {
+      const date = Number(first) > 12
+        ? dayAndMonth(Number(second), Number(first))
+        : dayAndMonth(Number(first), Number(second));
+      return date && `${date}, ${yearToWords(Number(year))}`;
+    }
+  },
+  {
+    pattern: /\b(\d{1,2}):(\d{2})(?:\s?([ap])\.?m\b\.?)?/gi,
+    replace: ({ 0: whole, 1: hours, 2: minutes, 3: meridiem, index = 0, input = '' }) => {
+      const hour = Number(hours);
+      const minute = Number(minutes);
+      if (hour > 23 || minute > 59) return null;
+      // 14:00 is 'fourteen hundred', 9:00 is 'nine o'clock', 9:00 pm just 'nine PM'
+      const onTheHour = hour === 0 || hour > 12 ? ' hundred' : ' o\'clock';
+      const spokenMinutes = minute === 0
+        ? (meridiem ? '' : onTheHour)
+        : ` ${minute < 10 ? 'oh ' : ''}${integerToWords(minute)}`;
+      // A final period also ends the sentence unless the sentence carries on after 'p.m.'
+      const period = whole.endsWith('.') && !/^\s+[\p{Ll}\d]/u.test(input.slice(index + whole.length)) ? '.' : '';
+      return `${integerToWords(hour)}${spokenMinutes}${meridiem ? ` ${meridiem.toUpperCase()} M` : ''}${period}`;
+    }
+  }
+];
+
+const UNITS: Record<string, [string, string]> = {
+  '%': ['percent', 'percent'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  'mph': ['mile per hour', 'miles per hour'],
+  'km': ['kilometer', 'kilometers'],
+  'cm': ['centimeter', 'centimeters'],
+  'mm': ['millimeter', 'millimeters'],
+  'm': ['meter', 'meters'],
+  'mi': ['mile', 'miles'],
+  'ft': ['foot', 'feet'],
+  'kg': ['kilogram', 'kilograms'],
+  'mg': ['milligram', 'milligrams'],
+  'g': ['gram', 'grams'],
+  'lb': ['pound', 'pounds'],
+  'lbs': ['pound', 'pounds'],
+  'ml': ['milliliter', 'milliliters'],
+  'l': ['liter', 'liters'],
+  'TB': ['terabyte', 'terabytes'],
+  'GB': ['gigabyte', 'gigabytes'],
+  'MB': ['megabyte', 'megabytes'],
+  'KB': ['kilobyte', 'kilobytes'],
+  'GHz': ['gigahertz', 'gigahertz'],
+  'MHz': ['megahertz', 'megahertz'],
+  'kHz': ['kilohertz', 'kilohertz'],
+  'Hz': ['hertz', 'hertz'],
+  'ms': ['millisecond', 'milliseconds'],
+  'min': ['minute', 'minutes'],
+  'h': ['hour', 'hours'],
+  's': ['second', 'seconds']
+};
+
+// Longest units first so 'km/h' wins over 'km' and 'ms' over 'm'
+const UNIT_PATTERN = Object.keys(UNITS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+const UNIT_RULES: NormalizationRule[] = [
+  {
+    pattern: new RegExp(`${BEFORE}(-?(?:${NUMBER}))\\s?(${UNIT_PATTERN})${AFTER}`, 'gu'),
+    replace: ([match, amount, unit]) => {
+      // '1990s' and '80s' are decades, not seconds
+      if (unit === 's' && match === `${amount}s` && amount.endsWith('0')) return null;
+      const [one, many] = UNITS[unit];
+      return `${numberToWords(amount)} ${Number(amount.replace(/,/g, '')) === 1 ? one : many}`;
+    }
+  }
+];
+
+const NUMBER_RULES: NormalizationRule[] = [
+  {
+    pattern: new RegExp(`${BEFORE}(\\d+)(st|nd|rd|th)${AFTER}`, 'giu'),
+    replace: ([, digits]) => ordinalToWords(Number(digits))
+  },
+  {
+    // Standalone four-digit numbers in this range are almost always years
+    pattern: new RegExp(`${BEFORE}(1[1-9]\\d\\d|20\\d\\d)${AFTER}`, 'gu'),
+    replace: ([year]) => yearToWords(Number(year))
+  },
+  {
+    pattern: new RegExp(`${BEFORE}(-?(?:${NUMBER}))${AFTER}`, 'gu'),
+    // Leading zeros mean an identifier such as 007, read digit by digit
+    replace: ([number]) => /^0\d/.test(number) ? digitsToWords(number) : numberToWords(number)
+  }
+];
+
+const BUILT_IN_RULES: Record<BuiltInRuleGroup, NormalizationRule[]> = {
+  urls: URL_RULES,
+  abbreviations: ABBREVIATION_RULES,
+  currencies: CURRENCY_RULES,
+  dates: DATE_RULES,
+  units: UNIT_RULES,
+  numbers: NUMBER_RULES
+};
+
+/** Built-in rules in the order they must run, e.g. currencies before plain numbers */
+export const builtInRules = (settings: BuiltInRuleSettings): NormalizationRule[] =>
+  BUILT_IN_RULE_GROUPS.filter(group => settings[group.id]).flatMap(group => BUILT_IN_RULES[group.id]);
+
+function applyRule(pieces: Piece[], rule: NormalizationRule): Piece[] {
+  const result: Piece[] = [];
+  pieces.forEach((piece) => {
+    if (piece.replaced) {
+      result.push(piece);
+      return;
+    }
+    let cursor = 0;
+    for (const match of piece.text.matchAll(rule.pattern)) {
+      const index = match.index ?? 0;
+      if (!match[0] || index < cursor) continue;
+      const replacement = rule.replace(match);
+      if (replacement === null) continue;
+      if (index > cursor) {
+        result.push({ text: piece.text.slice(cursor, index), sourceStart: piece.sourceStart + cursor, sourceEnd: piece.sourceStart + index, replaced: false });
+      }
+      result.push({ text: replacement, sourceStart: piece.sourceStart + index, sourceEnd: piece.sourceStart + index + match[0].length, replaced: true });
+      cursor = index + match[0].length;
+    }
+    if (cursor === 0) {
+      result.push(piece);
+    } else if (cursor < piece.text.length) {
+      result.push({ text: piece.text.slice(cursor), sourceStart: piece.sourceStart + cursor, sourceEnd: piece.sourceEnd, replaced: false });
+    }
+  });
+  return result;
+}
+
+export function normalizeText(text: string, rules: NormalizationRule[]): NormalizedText {
+  const pieces = rules.reduce(applyRule, [{ text, sourceStart: 0, sourceEnd: text.length, replaced: false }]);
+
+  let offset = 0;
+  const positioned: NormalizedPiece[] = pieces.map((piece) => {
+    const start = offset;
+    offset += piece.text.length;
+    return { ...piece, start, end: offset };
+  });
+
+  const pieceAt = (index: number) => {
+    let low = 0;
+    let high = positioned.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (positioned[mid].start <= index) low = mid;
+      else high = mid - 1;
+    }
+    return positioned[low];
+  };
+
+  const toSource = (start: number, end: number) => {
+    if (positioned.length === 0) return { start: 0, end: 0 };
+    const first = pieceAt(start);
+    const last = pieceAt(Math.max(start, end - 1));
+    return {
+      start: first.replaced ? first.sourceStart : first.sourceStart + (start - first.start),
+      end: last.replaced ? last.sourceEnd : Math.min(last.sourceEnd, last.sourceStart + (end - last.start))
+    };
+  };
+
+  return { text: positioned.map(piece => piece.text).join(''), pieces: positioned, toSource };
+}
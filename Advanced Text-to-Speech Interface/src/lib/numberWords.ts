@@ -0,0 +1,83 @@
+// English number words for the normalizer.
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+export const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : '');
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (!hundreds) return belowHundred(rest);
+  return `${ONES[hundreds]} hundred${rest ? ` ${belowHundred(rest)}` : ''}`;
+}
+
+export function integerToWords(n: number): string {
+  if (!Number.isSafeInteger(n)) return String(n);
+  if (n < 0) return `minus ${integerToWords(-n)}`;
+  if (n < 1000) return belowThousand(n);
+  // Beyond trillions, read the digits instead
+  if (n >= 1000 ** SCALES.length) return digitsToWords(String(n));
+
+  const groups: string[] = [];
+  let scale = 0;
+  while (n > 0) {
+    const group = n % 1000;
+    if (group) groups.unshift(`${belowThousand(group)}${SCALES[scale] ? ` ${SCALES[scale]}` : ''}`);
+    n = Math.floor(n / 1000);
+    scale++;
+  }
+  return groups.join(' ');
+}
+
+export const digitsToWords = (digits: string) =>
+  Array.from(digits, digit => ONES[Number(digit)] ?? digit).join(' ');
+
+/** '1,234.56' → 'one thousand two hundred thirty-four point five six' */
+export function numberToWords(raw: string): string {
+  const negative = raw.startsWith('-');
+  const [whole, fraction] = raw.replace(/^-/, '').replace(/,/g, '').split('.');
+  let words = whole.length > 15 ? digitsToWords(whole) : integerToWords(Number(whole || '0'));
+  if (fraction) words += ` point ${digitsToWords(fraction)}`;
+  return negative ? `minus ${words}` : words;
+}
+
+/** Years are read in pairs: 1999 → 'nineteen ninety-nine', 2005 → 'two thousand five' */
+export function yearToWords(year: number): string {
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (year >= 2000 && year < 2010) return integerToWords(year);
+  if (low === 0) return `${belowHundred(high)} hundred`;
+  return `${belowHundred(high)} ${low < 10 ? `oh ${ONES[low]}` : belowHundred(low)}`;
+}
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth'
+};
+
+export function ordinalToWords(n: number): string {
+  const words = integerToWords(n);
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (ORDINAL_EXCEPTIONS[last]) return ORDINAL_EXCEPTIONS[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
@@ -0,0 +1,836 @@
+// Text-layer extraction from PDF files. It reads just enough of the format to
+// follow the text operators of each page: objects and object streams, Flate
+// and ASCII filters, font encodings and ToUnicode maps, glyph widths for word
+// spacing, and the outline for chapter titles. Scans without a text layer come
+// out empty; there is no OCR.
+
+import type { DocumentBlock, ExtractedDocument } from './documents';
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+/** Raw string bytes, one character per byte */
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+class PdfOperator {
+  constructor(readonly name: string) {}
+}
+
+class PdfStream {
+  constructor(readonly dict: PdfDict, readonly data: Uint8Array) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfStream | PdfDict | PdfValue[];
+
+interface PdfPage {
+  node: PdfDict;
+  /** Resources of the page or the nearest ancestor that has them */
+  resources: PdfValue | undefined;
+}
+
+const isWhite = (c: string) => c === ' ' || c === '\n' || c === '\r' || c === '\t' || c === '\f' || c === '\0';
+const isDelimiter = (c: string) => '()<>[]{}/%'.includes(c);
+
+function binaryString(bytes: Uint8Array) {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return result;
+}
+
+function toBytes(binary: string) {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+class Lexer {
+  pos: number;
+
+  constructor(readonly src: string, pos = 0) {
+    this.pos = pos;
+  }
+
+  skipSpace() {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const c = src[this.pos];
+      if (c === '%') {
+        while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') this.pos++;
+      } else if (isWhite(c)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private literalString() {
+    const { src } = this;
+    let depth = 1;
+    let result = '';
+    while (this.pos < src.length) {
+      const c = src[this.pos++];
+      if (c === '\\') {
+        const next = src[this.pos++];
+        if (next in ESCAPES) result += ESCAPES[next];
+        else if (next === '\r') this.pos += src[this.pos] === '\n' ? 1 : 0;
+        else if (next === '\n') continue;
+        else if (next >= '0' && next <= '7') {
+          let octal = next;
+          while (octal.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') octal += src[this.pos++];
+          result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else {
+          result += next;
+        }
+      } else if (c === '(') {
+        depth++;
+        result += c;
+      } else if (c === ')') {
+        if (--depth === 0) break;
+        result += c;
+      } else {
+        result += c;
+      }
+    }
+    return new PdfString(result);
+  }
+
+  private hexString() {
+    const end = this.src.indexOf('>', this.pos);
+    let hex = this.src.slice(this.pos, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end < 0 ? this.src.length : end + 1;
+    if (hex.length % 2) hex += '0';
+    let result = '';
+    for (let i = 0; i < hex.length; i += 2) result += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    return new PdfString(result);
+  }
+
+  private regular() {
+    const start = this.pos;
+    while (this.pos < this.src.length && !isWhite(this.src[this.pos]) && !isDelimiter(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  /** The next value or operator; undefined at the end of the input */
+  token(): PdfValue | PdfOperator | undefined {
+    this.skipSpace();
+    const { src } = this;
+    if (this.pos >= src.length) return undefined;
+    const c = src[this.pos];
+
+    if (c === '(') {
+      this.pos++;
+      return this.literalString();
+    }
+    if (c === '<') {
+      if (src[this.pos + 1] === '<') {
+        this.pos += 2;
+        return this.dict();
+      }
+      this.pos++;
+      return this.hexString();
+    }
+    if (c === '[') {
+      this.pos++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        this.skipSpace();
+        if (this.pos >= src.length) return array;
+        if (src[this.pos] === ']') {
+          this.pos++;
+          return array;
+        }
+        const value = this.value();
+        if (value !== undefined) array.push(value);
+      }
+    }
+    if (c === '/') {
+      this.pos++;
+      return new PdfName(this.regular().replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+    }
+    if (c === ']' || c === '>' || c === ')' || c === '{' || c === '}') {
+      this.pos++;
+      return new PdfOperator(c);
+    }
+
+    const word = this.regular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+    return new PdfOperator(word);
+  }
+
+  /** A value, reading "num gen R" as a reference */
+  value(): PdfValue | undefined {
+    const token = this.token();
+    if (token instanceof PdfOperator) return undefined;
+    if (typeof token === 'number' && Number.isInteger(token)) {
+      const saved = this.pos;
+      const gen = this.token();
+      if (typeof gen === 'number' && Number.isInteger(gen)) {
+        const keyword = this.token();
+        if (keyword instanceof PdfOperator && keyword.name === 'R') return new PdfRef(token, gen);
+      }
+      this.pos = saved;
+    }
+    return token;
+  }
+
+  private dict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.src.length) return dict;
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        return dict;
+      }
+      const key = this.token();
+      if (!(key instanceof PdfName)) continue;
+      const value = this.value();
+      if (value !== undefined) dict.set(key.name, value);
+    }
+  }
+}
+
+async function inflate(data: Uint8Array) {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function asciiHex(data: Uint8Array) {
+  const token = new Lexer(`<${binaryString(data).split('>')[0]}>`).token();
+  return toBytes(token instanceof PdfString ? token.bytes : '');
+}
+
+function ascii85(data: Uint8Array) {
+  const source = binaryString(data).replace(/\s/g, '').replace(/^<~/, '').split('~>')[0];
+  const bytes: number[] = [];
+  let group: number[] = [];
+  const emit = (values: number[], count: number) => {
+    let value = 0;
+    for (const digit of values) value = value * 85 + digit;
+    for (let i = 0; i < count; i++) bytes.push((value >>> (24 - i * 8)) & 0xff);
+  };
+  for (const c of source) {
+    if (c === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(c.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      emit(group, 4);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(84);
+    emit(group, count);
+  }
+  return new Uint8Array(bytes);
+}
+
+class PdfFile {
+  private objects = new Map<string, PdfValue>();
+  private decoded = new Map<PdfStream, Promise<Uint8Array>>();
+
+  constructor(readonly src: string, private bytes: Uint8Array) {}
+
+  static async open(buffer: ArrayBuffer) {
+    const bytes = new Uint8Array(buffer);
+    const file = new PdfFile(binaryString(bytes), bytes);
+    if (!file.src.startsWith('%PDF')) throw new Error('Not a PDF file');
+    if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(file.src)) throw new Error('Encrypted PDFs are not supported');
+    file.scanObjects();
+    await file.unpackObjectStreams();
+    return file;
+  }
+
+  // Scanning for "n g obj" instead of trusting the xref table also reads
+  // damaged files; later definitions (incremental updates) win
+  private scanObjects() {
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.src))) {
+      const lexer = new Lexer(this.src, pattern.lastIndex);
+      let value = lexer.value() ?? null;
+      lexer.skipSpace();
+      if (value instanceof Map && this.src.startsWith('stream', lexer.pos)) {
+        let start = lexer.pos + 6;
+        if (this.src[start] === '\r') start++;
+        if (this.src[start] === '\n') start++;
+        const length = value.get('Length');
+        let end = typeof length === 'number' ? start + length : -1;
+        if (end < 0 || !/^\s*endstream/.test(this.src.slice(end, end + 20))) {
+          end = this.src.indexOf('endstream', start);
+          if (end < 0) end = this.src.length;
+          while (end > start && (this.src[end - 1] === '\n' || this.src[end - 1] === '\r')) end--;
+        }
+        value = new PdfStream(value, this.bytes.subarray(start, end));
+        pattern.lastIndex = end;
+      }
+      this.objects.set(`${match[1]} ${match[2]}`, value);
+    }
+  }
+
+  private async unpackObjectStreams() {
+    for (const value of Array.from(this.objects.values())) {
+      if (!(value instanceof PdfStream) || this.name(value.dict.get('Type')) !== 'ObjStm') continue;
+      const data = binaryString(await this.decode(value));
+      const first = this.get(value.dict.get('First'));
+      const count = this.get(value.dict.get('N'));
+      if (typeof first !== 'number' || typeof count !== 'number') continue;
+      const header = new Lexer(data.slice(0, first));
+      for (let i = 0; i < count; i++) {
+        const num = header.token();
+        const offset = header.token();
+        if (typeof num !== 'number' || typeof offset !== 'number') break;
+        const key = `${num} 0`;
+        if (!this.objects.has(key)) this.objects.set(key, new Lexer(data, first + offset).value() ?? null);
+      }
+    }
+  }
+
+  get(value: PdfValue | undefined): PdfValue | undefined {
+    let resolved = value;
+    for (let depth = 0; resolved instanceof PdfRef && depth < 32; depth++) {
+      resolved = this.objects.get(`${resolved.num} ${resolved.gen}`);
+    }
+    return resolved instanceof PdfRef ? undefined : resolved;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.get(value);
+    if (resolved instanceof Map) return resolved;
+    return resolved instanceof PdfStream ? resolved.dict : undefined;
+  }
+
+  array(value: PdfValue | undefined): PdfValue[] {
+    const resolved = this.get(value);
+    return Array.isArray(resolved) ? resolved : resolved === undefined || resolved === null ? [] : [resolved];
+  }
+
+  name(value: PdfValue | undefined) {
+    const resolved = this.get(value);
+    return resolved instanceof PdfName ? resolved.name : undefined;
+  }
+
+  decode(stream: PdfStream): Promise<Uint8Array> {
+    let decoded = this.decoded.get(stream);
+    if (!decoded) {
+      decoded = (async () => {
+        let data = stream.data;
+        for (const filter of this.array(stream.dict.get('Filter'))) {
+          const name = this.name(filter);
+          if (name === 'FlateDecode' || name === 'Fl') data = await inflate(data);
+          else if (name === 'ASCIIHexDecode' || name === 'AHx') data = asciiHex(data);
+          else if (name === 'ASCII85Decode' || name === 'A85') data = ascii85(data);
+          else throw new Error(`Unsupported PDF filter ${name}`);
+        }
+        return data;
+      })();
+      this.decoded.set(stream, decoded);
+    }
+    return decoded;
+  }
+
+  async text(value: PdfValue | undefined) {
+    const resolved = this.get(value);
+    if (!(resolved instanceof PdfStream)) return '';
+    try {
+      return binaryString(await this.decode(resolved));
+    } catch (error) {
+      // Damaged or exotic streams cost one page or font, not the document
+      console.warn('Skipping unreadable PDF stream:', error);
+      return '';
+    }
+  }
+
+  root() {
+    const matches = Array.from(this.src.matchAll(/\/Root\s+(\d+)\s+(\d+)\s+R/g));
+    const last = matches[matches.length - 1];
+    return last ? this.dict(new PdfRef(Number(last[1]), Number(last[2]))) : undefined;
+  }
+
+  /** Pages in reading order */
+  pages(): PdfPage[] {
+    const pages: PdfPage[] = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, resources: PdfValue | undefined) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const ownResources = node.get('Resources') ?? resources;
+      if (this.name(node.get('Type')) === 'Page' || (!node.has('Kids') && node.has('Contents'))) {
+        pages.push({ node, resources: ownResources });
+      } else {
+        this.array(node.get('Kids')).forEach(kid => walk(this.dict(kid), ownResources));
+      }
+    };
+    walk(this.dict(this.root()?.get('Pages')), undefined);
+
+    if (pages.length === 0) {
+      // No usable page tree: fall back to the page objects in file order
+      for (const value of this.objects.values()) {
+        if (value instanceof Map && this.name(value.get('Type')) === 'Page') pages.push({ node: value, resources: value.get('Resources') });
+      }
+    }
+    return pages;
+  }
+
+  /** The explicit destination array behind a link or outline target, following named destinations */
+  destination(target: PdfValue | undefined): PdfValue[] {
+    let resolved = this.get(target);
+    if (resolved instanceof PdfName || resolved instanceof PdfString) {
+      const key = resolved instanceof PdfName ? resolved.name : resolved.bytes;
+      const root = this.root();
+      resolved = this.get(this.dict(root?.get('Dests'))?.get(key))
+        ?? this.get(this.lookupName(this.dict(this.dict(root?.get('Names'))?.get('Dests')), key));
+    }
+    if (resolved instanceof Map) resolved = this.get(resolved.get('D'));
+    return Array.isArray(resolved) ? resolved : [];
+  }
+
+  private lookupName(node: PdfDict | undefined, key: string, depth = 0): PdfValue | undefined {
+    if (!node || depth > 32) return undefined;
+    const names = this.array(node.get('Names'));
+    for (let i = 0; i + 1 < names.length; i += 2) {
+      const name = this.get(names[i]);
+      if (name instanceof PdfString && name.bytes === key) return names[i + 1];
+    }
+    for (const kid of this.array(node.get('Kids'))) {
+      const found = this.lookupName(this.dict(kid), key, depth + 1);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  }
+}
+
+/** A PDF text string: UTF-16 with a byte order mark, otherwise close enough to Latin-1 */
+function textString(value: PdfValue | undefined) {
+  if (!(value instanceof PdfString)) return '';
+  const { bytes } = value;
+  if (bytes.startsWith('\xfe\xff')) {
+    let result = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    return result;
+  }
+  return bytes;
+}
+
+const utf16 = (bytes: string) => textString(new PdfString(`\xfe\xff${bytes}`));
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', quoteleft: '‘', quotedblleft: '“', quotedblright: '”', parenleft: '(',
+  parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/', colon: ':',
+  semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  bracketright: ']', underscore: '_', endash: '–', emdash: '—', bullet: '•', ellipsis: '…', fi: 'fi',
+  fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', zero: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+};
+
+function glyphChar(name: string) {
+  if (name.length === 1) return name;
+  const unicode = /^uni([0-9A-F]{4})$/.exec(name);
+  return unicode ? String.fromCharCode(parseInt(unicode[1], 16)) : GLYPH_NAMES[name] ?? '';
+}
+
+interface Font {
+  codeLength: number;
+  toUnicode: Map<number, string>;
+  differences: Map<number, string>;
+  /** Advance of a code in text space units (thousandths of an em) */
+  widths: Map<number, number>;
+  defaultWidth: number;
+}
+
+function parseCMap(source: string, font: Font) {
+  const lexer = new Lexer(source);
+  const operands: PdfValue[] = [];
+  const code = (value: PdfValue) => (value instanceof PdfString ? [...value.bytes].reduce((n, c) => n * 256 + c.charCodeAt(0), 0) : 0);
+  for (let token = lexer.token(); token !== undefined; token = lexer.token()) {
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+    if (token.name === 'endcodespacerange' && operands[0] instanceof PdfString) {
+      font.codeLength = Math.max(1, operands[0].bytes.length);
+    } else if (token.name === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const target = operands[i + 1];
+        if (target instanceof PdfString) font.toUnicode.set(code(operands[i]), utf16(target.bytes));
+      }
+    } else if (token.name === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const low = code(operands[i]);
+        const high = Math.min(code(operands[i + 1]), low + 0xffff);
+        const target = operands[i + 2];
+        for (let c = low; c <= high; c++) {
+          if (Array.isArray(target)) {
+            const entry = target[c - low];
+            if (entry instanceof PdfString) font.toUnicode.set(c, utf16(entry.bytes));
+          } else if (target instanceof PdfString) {
+            // The last byte counts up through the range
+            const base = utf16(target.bytes);
+            font.toUnicode.set(c, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + c - low));
+          }
+        }
+      }
+    }
+    // Also drops the entry count in front of each begin… section
+    operands.length = 0;
+  }
+}
+
+async function loadFont(pdf: PdfFile, dict: PdfDict | undefined): Promise<Font> {
+  const font: Font = { codeLength: 1, toUnicode: new Map(), differences: new Map(), widths: new Map(), defaultWidth: 500 };
+  if (!dict) return font;
+
+  if (pdf.name(dict.get('Subtype')) === 'Type0') {
+    font.codeLength = 2;
+    const descendant = pdf.dict(pdf.array(dict.get('DescendantFonts'))[0]);
+    const defaultWidth = pdf.get(descendant?.get('DW'));
+    font.defaultWidth = typeof defaultWidth === 'number' ? defaultWidth : 1000;
+    const widths = pdf.array(descendant?.get('W'));
+    for (let i = 0; i < widths.length;) {
+      const first = pdf.get(widths[i]);
+      const next = pdf.get(widths[i + 1]);
+      if (typeof first !== 'number') break;
+      if (Array.isArray(next)) {
+        next.forEach((width, offset) => font.widths.set(first + offset, Number(pdf.get(width)) || 0));
+        i += 2;
+      } else {
+        const width = Number(pdf.get(widths[i + 2])) || 0;
+        for (let c = first; c <= Number(next) && c - first < 0x10000; c++) font.widths.set(c, width);
+        i += 3;
+      }
+    }
+  } else {
+    const firstChar = Number(pdf.get(dict.get('FirstChar'))) || 0;
+    pdf.array(dict.get('Widths')).forEach((width, index) => font.widths.set(firstChar + index, Number(pdf.get(width)) || 0));
+    let code = 0;
+    for (const entry of pdf.array(pdf.dict(dict.get('Encoding'))?.get('Differences'))) {
+      const value = pdf.get(entry);
+      if (typeof value === 'number') code = value;
+      else if (value instanceof PdfName) font.differences.set(code++, glyphChar(value.name));
+    }
+  }
+
+  const toUnicode = await pdf.text(dict.get('ToUnicode'));
+  if (toUnicode) parseCMap(toUnicode, font);
+  return font;
+}
+
+const WINDOWS_1252 = new TextDecoder('windows-1252');
+
+function decodeCodes(font: Font, bytes: string): { text: string; width: number; spaces: number } {
+  let text = '';
+  let width = 0;
+  let spaces = 0;
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    let code = 0;
+    for (let j = 0; j < font.codeLength; j++) code = code * 256 + bytes.charCodeAt(i + j);
+    const char = font.toUnicode.get(code)
+      ?? font.differences.get(code)
+      ?? (font.codeLength === 1 ? WINDOWS_1252.decode(new Uint8Array([code])) : '');
+    text += char;
+    width += font.widths.get(code) ?? font.defaultWidth;
+    if (font.codeLength === 1 && code === 32) spaces++;
+  }
+  return { text, width, spaces };
+}
+
+interface TextLine {
+  text: string;
+  y: number;
+  size: number;
+}
+
+async function pageLines(pdf: PdfFile, page: PdfPage): Promise<TextLine[]> {
+  const contents = await Promise.all(pdf.array(page.node.get('Contents')).map(part => pdf.text(part)));
+  const fontDicts = pdf.dict(pdf.dict(page.resources)?.get('Font'));
+  const fonts = new Map<string, Promise<Font>>();
+  const fontNamed = (name: string) => {
+    if (!fonts.has(name)) fonts.set(name, loadFont(pdf, pdf.dict(fontDicts?.get(name))));
+    return fonts.get(name)!;
+  };
+
+  const lines: TextLine[] = [];
+  let line: TextLine | null = null;
+  let font: Font | null = null;
+  let size = 12;
+  let leading = 0;
+  let charSpacing = 0;
+  let wordSpacing = 0;
+  let scale = 1;
+  let lineX = 0;
+  let lineY = 0;
+  let penX = 0;
+
+  const fontSize = () => Math.abs(size * scale) || 1;
+  const append = (text: string) => {
+    if (!line) {
+      line = { text: '', y: lineY, size: fontSize() };
+      lines.push(line);
+    }
+    line.text += text;
+  };
+  const space = () => {
+    if (line && !/\s$/.test(line.text)) line.text += ' ';
+  };
+  const moveTo = (x: number, y: number) => {
+    if (line && Math.abs(y - line.y) > fontSize() * 0.5) {
+      line = null;
+    } else if (line && x - penX > fontSize() * 0.15) {
+      // A jump forward on the same line separates words
+      space();
+    }
+    lineX = x;
+    lineY = y;
+    penX = x;
+  };
+  const show = (bytes: string) => {
+    if (!font) return;
+    const { text, width, spaces } = decodeCodes(font, bytes);
+    append(text);
+    penX += ((width / 1000) * size + charSpacing * text.length + wordSpacing * spaces) * scale;
+  };
+
+  const lexer = new Lexer(contents.join('\n'));
+  const operands: PdfValue[] = [];
+  const num = (index: number) => Number(operands[index]) || 0;
+  for (let token = lexer.token(); token !== undefined; token = lexer.token()) {
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+    switch (token.name) {
+      case 'BT':
+        // A new text object often carries on the line of the last one, so the line stays open
+        scale = 1;
+        lineX = 0;
+        lineY = 0;
+        break;
+      case 'Tf':
+        font = operands[0] instanceof PdfName ? await fontNamed(operands[0].name) : null;
+        size = num(1);
+        break;
+      case 'TL':
+        leading = num(0);
+        break;
+      case 'Tc':
+        charSpacing = num(0);
+        break;
+      case 'Tw':
+        wordSpacing = num(0);
+        break;
+      case 'TD':
+        leading = -num(1);
+        moveTo(lineX + num(0) * scale, lineY + num(1) * scale);
+        break;
+      case 'Td':
+        moveTo(lineX + num(0) * scale, lineY + num(1) * scale);
+        break;
+      case 'Tm':
+        scale = Math.abs(num(3)) || Math.abs(num(0)) || 1;
+        moveTo(num(4), num(5));
+        break;
+      case 'T*':
+        moveTo(lineX, lineY - leading * scale);
+        break;
+      case 'Tj':
+        if (operands[0] instanceof PdfString) show(operands[0].bytes);
+        break;
+      case "'":
+        moveTo(lineX, lineY - leading * scale);
+        if (operands[0] instanceof PdfString) show(operands[0].bytes);
+        break;
+      case '"':
+        wordSpacing = num(0);
+        charSpacing = num(1);
+        moveTo(lineX, lineY - leading * scale);
+        if (operands[2] instanceof PdfString) show(operands[2].bytes);
+        break;
+      case 'TJ':
+        for (const part of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (part instanceof PdfString) {
+            show(part.bytes);
+          } else if (typeof part === 'number') {
+            penX -= (part / 1000) * size * scale;
+            if (part < -150) space();
+          }
+        }
+        break;
+      case 'BI': {
+        // Inline image data is binary; skip to its end marker
+        const end = lexer.src.slice(lexer.pos).search(/\sEI(?=\s|$)/);
+        lexer.pos = end < 0 ? lexer.src.length : lexer.pos + end + 3;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+
+  return lines
+    .map(entry => ({ ...entry, text: entry.text.replace(/\s+/g, ' ').trim() }))
+    .filter(entry => entry.text);
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+const PAGE_NUMBER = /^(page\s+)?(\d+|[ivxlcdm]+)(\s+(of|\/)\s+\d+)?$/i;
+const furnitureKey = (text: string) => text.toLowerCase().replace(/\d+/g, '');
+
+// Running heads, footers and page numbers repeat at the edges of many pages;
+// a chapter's running head only repeats for as long as the chapter lasts
+function stripPageFurniture(pages: TextLine[][]) {
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set([lines[0], lines[1], lines[lines.length - 2], lines[lines.length - 1]].filter(Boolean).map(line => furnitureKey(line.text)));
+    edges.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  }
+  const repeated = (line: TextLine) => (counts.get(furnitureKey(line.text)) ?? 0) >= Math.max(3, pages.length / 5);
+
+  return pages.map(lines => lines.filter((line, index) => {
+    const atEdge = index < 2 || index >= lines.length - 2;
+    return !atEdge || !(PAGE_NUMBER.test(line.text) || repeated(line));
+  }));
+}
+
+function joinLines(lines: TextLine[]) {
+  return lines.reduce((text, line) => {
+    if (!text) return line.text;
+    // A word hyphenated across lines is joined back together
+    if (/[a-z]-$/.test(text) && /^[a-z]/.test(line.text)) return text.slice(0, -1) + line.text;
+    return `${text} ${line.text}`;
+  }, '');
+}
+
+function paragraphs(lines: TextLine[], bodySize: number) {
+  const gaps = lines.slice(1).map((line, index) => lines[index].y - line.y).filter(gap => gap > 0);
+  const lineGap = median(gaps) || bodySize * 1.2;
+  const longest = Math.max(...lines.map(line => line.text.length));
+  const result: { lines: TextLine[]; size: number }[] = [];
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const current = result[result.length - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    const startsNew = !previous ||
+      gap > lineGap * 1.5 ||
+      gap < 0 ||
+      Math.abs(line.size - previous.size) > 0.5 ||
+      // A short line ending a sentence closes its paragraph
+      (previous.text.length < longest * 0.7 && /[.!?:"”’)]$/.test(previous.text));
+    if (startsNew || !current) result.push({ lines: [line], size: line.size });
+    else current.lines.push(line);
+  });
+  return result.map(paragraph => ({ text: joinLines(paragraph.lines), size: paragraph.size }));
+}
+
+interface OutlineEntry {
+  title: string;
+  level: number;
+  /** Index of the page the entry points to, when it can be resolved */
+  page: number;
+}
+
+function readOutline(pdf: PdfFile, pages: PdfPage[]): OutlineEntry[] {
+  const pageIndex = new Map(pages.map((page, index) => [page.node, index]));
+  const entries: OutlineEntry[] = [];
+  const seen = new Set<PdfDict>();
+  const walk = (item: PdfDict | undefined, level: number) => {
+    while (item && !seen.has(item) && entries.length < 2000) {
+      seen.add(item);
+      const title = textString(pdf.get(item.get('Title'))).replace(/\s+/g, ' ').trim();
+      const target = pdf.dict(pdf.destination(item.get('Dest') ?? pdf.dict(item.get('A'))?.get('D'))[0]);
+      if (title) entries.push({ title, level, page: (target && pageIndex.get(target)) ?? -1 });
+      walk(pdf.dict(item.get('First')), level + 1);
+      item = pdf.dict(item.get('Next'));
+    }
+  };
+  walk(pdf.dict(pdf.dict(pdf.root()?.get('Outlines'))?.get('First')), 1);
+  return entries;
+}
+
+const comparable = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Outline titles are matched to the paragraphs they name, in order and from
+// the page they point to, so a printed table of contents is passed over
+function applyOutline(blocks: DocumentBlock[], pageStarts: number[], outline: OutlineEntry[]) {
+  let cursor = 0;
+  let matched = 0;
+  for (const entry of outline) {
+    const title = comparable(entry.title);
+    if (!title) continue;
+    const from = Math.max(cursor, pageStarts[entry.page] ?? 0);
+    const index = blocks.findIndex((block, i) => i >= from && comparable(block.text).startsWith(title));
+    if (index < 0) continue;
+    const block = blocks[index];
+    if (comparable(block.text) === title) {
+      blocks[index] = { text: block.text, level: entry.level };
+    } else {
+      // The title runs into its first paragraph; split it off
+      const words = entry.title.split(/\s+/).length;
+      const parts = block.text.split(' ');
+      blocks.splice(index, 1, { text: parts.slice(0, words).join(' '), level: entry.level }, { text: parts.slice(words).join(' ') });
+      pageStarts.forEach((start, page) => {
+        if (start > index) pageStarts[page] = start + 1;
+      });
+    }
+    cursor = index + 1;
+    matched++;
+  }
+  return matched;
+}
+
+function pdfTitle(pdf: PdfFile) {
+  const info = Array.from(pdf.src.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)).pop();
+  const title = info ? textString(pdf.get(pdf.dict(new PdfRef(Number(info[1]), Number(info[2])))?.get('Title'))) : '';
+  return title.trim() || undefined;
+}
+
+export async function readPdf(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+  const pdf = await PdfFile.open(buffer);
+  const pages = pdf.pages();
+  const pageTexts = stripPageFurniture(await Promise.all(pages.map(page => pageLines(pdf, page))));
+  const bodySize = median(pageTexts.flat().map(line => line.size));
+
+  const blocks: DocumentBlock[] = [];
+  const pageStarts: number[] = [];
+  pageTexts.forEach((lines, index) => {
+    pageStarts[index] = blocks.length;
+    if (lines.length === 0) return;
+    for (const paragraph of paragraphs(lines, bodySize)) {
+      // Short paragraphs set noticeably larger than the body text are headings
+      const isHeading = paragraph.size > bodySize * 1.15 && paragraph.text.length < 120;
+      blocks.push(isHeading ? { text: paragraph.text, level: paragraph.size > bodySize * 1.6 ? 1 : 2 } : { text: paragraph.text });
+    }
+  });
+
+  // The outline is the author's own table of contents; font sizes are a guess, pages a last resort
+  const title = pdfTitle(pdf);
+  const outlined = blocks.map(block => ({ text: block.text }));
+  if (applyOutline(outlined, [...pageStarts], readOutline(pdf, pages)) > 0) return { title, blocks: outlined };
+  if (!blocks.some(block => block.level) && pageTexts.length > 1) {
+    pageTexts.forEach((lines, page) => {
+      const index = pageStarts[page];
+      if (lines.length > 0) blocks[index] = { ...blocks[index], anchor: `Page ${page + 1}` };
+    });
+  }
+  return { title, blocks };
+}
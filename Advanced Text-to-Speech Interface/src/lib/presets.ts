@@ -0,0 +1,43 @@
+// Named voice presets, kept in localStorage so they survive reloads.
+
+import type { VoiceSettings } from './settings';
+import type { VoiceReference } from './voices';
+
+export interface VoicePreset {
+  id: string;
+  name: string;
+  engineId: string;
+  /** Null keeps whatever voice is selected when the preset is applied */
+  voice: VoiceReference | null;
+  settings: VoiceSettings;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'advanced-tts:presets';
+
+const isPreset = (value: unknown): value is VoicePreset => {
+  const preset = value as VoicePreset;
+  return typeof preset?.id === 'string' &&
+    typeof preset.name === 'string' &&
+    typeof preset.engineId === 'string' &&
+    typeof preset.settings?.pitch === 'number' &&
+    typeof preset.settings.speed === 'number' &&
+    typeof preset.settings.temperature === 'number';
+};
+
+export function loadPresets(): VoicePreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: VoicePreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Could not save presets:', error);
+  }
+}
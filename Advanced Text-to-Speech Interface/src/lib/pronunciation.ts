@@ -0,0 +1,62 @@
+// Pronunciation settings and the normalizer built from them.
+
+import { confidentLanguage } from './language';
+import { lexiconRules } from './lexicon';
+import type { LexiconEntry } from './lexicon';
+import { DEFAULT_BUILT_IN_RULES, builtInRules, normalizeText } from './normalize';
+import type { BuiltInRuleSettings, NormalizedText } from './normalize';
+import { looksLikeSsml } from './ssml';
+
+export interface PronunciationSettings {
+  enabled: boolean;
+  builtIns: BuiltInRuleSettings;
+  entries: LexiconEntry[];
+}
+
+export const DEFAULT_PRONUNCIATION_SETTINGS: PronunciationSettings = {
+  enabled: true,
+  builtIns: DEFAULT_BUILT_IN_RULES,
+  entries: []
+};
+
+const STORAGE_KEY = 'advanced-tts:pronunciation';
+
+export function loadPronunciationSettings(): PronunciationSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || !Array.isArray(stored.entries)) return DEFAULT_PRONUNCIATION_SETTINGS;
+    return {
+      enabled: stored.enabled !== false,
+      builtIns: { ...DEFAULT_BUILT_IN_RULES, ...stored.builtIns },
+      entries: stored.entries
+    };
+  } catch {
+    return DEFAULT_PRONUNCIATION_SETTINGS;
+  }
+}
+
+export function savePronunciationSettings(settings: PronunciationSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Could not save pronunciation settings:', error);
+  }
+}
+
+/** Lang is the language of the whole request the text is part of; the text's own by default */
+export type Normalizer = (text: string, lang?: string | null) => NormalizedText;
+
+/**
+ * Dictionary rules run first so they can override the built-ins. The
+ * built-in expansions are English, so text clearly in another language only
+ * gets the dictionary.
+ */
+export function createNormalizer(settings: PronunciationSettings): Normalizer {
+  const dictionary = lexiconRules(settings.entries);
+  const withBuiltIns = [...dictionary, ...builtInRules(settings.builtIns)];
+
+  return (text, lang = confidentLanguage(text)) => {
+    if (!settings.enabled || looksLikeSsml(text)) return normalizeText(text, []);
+    return normalizeText(text, !lang || lang === 'en' ? withBuiltIns : dictionary);
+  };
+}
@@ -0,0 +1,239 @@
+// Expressive prosody. Text is split into phrases and each phrase gets its own
+// pitch and rate from a seeded contour, sentence intonation and emphasis.
+
+import type { RenderedAudio, SynthesisOptions, TtsEngine } from '../engines';
+import { createId } from './ids';
+import { confidentLanguage } from './language';
+import { createRandom } from './random';
+import { sentenceSpans, trimSpan } from './segments';
+import type { TextSpan } from './segments';
+
+export interface ProsodyPhrase extends TextSpan {
+  options: SynthesisOptions;
+  emphasis: boolean;
+}
+
+export interface ProsodyPlan {
+  /** The text to speak, with emphasis marks removed */
+  text: string;
+  phrases: ProsodyPhrase[];
+}
+
+export interface ProsodySettings {
+  /** 0 keeps the voice flat apart from intonation, 1 is the most expressive */
+  variation: number;
+  seed: number;
+  /** False reads emphasis marks as plain text, for callers that keep offsets into the source */
+  emphasis?: boolean;
+}
+
+// *word*, **some words** or _word_, but not snake_case or a lone asterisk
+const EMPHASIS_PATTERN = /(?<![\p{L}\p{N}*_])(\*\*|\*|_)(?=\S)([^*_\n]+?)(?<=\S)\1(?![\p{L}\p{N}*_])/gu;
+const PHRASE_BREAK_PATTERN = /[,;:](?=\s)|\s[—–-]\s/g;
+
+const EMPHASIS_PITCH = 1.15;
+const EMPHASIS_RATE = 0.85;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function stripEmphasis(source: string) {
+  const emphasized: TextSpan[] = [];
+  let text = '';
+  let last = 0;
+  for (const match of source.matchAll(EMPHASIS_PATTERN)) {
+    text += source.slice(last, match.index);
+    emphasized.push({ start: text.length, end: text.length + match[2].length });
+    text += match[2];
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return { text: text + source.slice(last), emphasized };
+}
+
+// Phrases end at clause punctuation and on either side of an emphasized stretch
+function splitPhrases(text: string, sentence: TextSpan, emphasized: TextSpan[]) {
+  const cuts = new Set([sentence.start, sentence.end]);
+  for (const match of text.slice(sentence.start, sentence.end).matchAll(PHRASE_BREAK_PATTERN)) {
+    cuts.add(sentence.start + (match.index ?? 0) + match[0].length);
+  }
+  for (const span of emphasized) {
+    if (span.start > sentence.start && span.start < sentence.end) cuts.add(span.start);
+    if (span.end > sentence.start && span.end < sentence.end) cuts.add(span.end);
+  }
+
+  const sorted = [...cuts].sort((a, b) => a - b);
+  const phrases: TextSpan[] = [];
+  sorted.slice(1).forEach((end, index) => {
+    const span = trimSpan(text, sorted[index], end);
+    if (!span) return;
+    // Punctuation left over after an emphasized word belongs to that word
+    const previous = phrases[phrases.length - 1];
+    if (previous && !/[\p{L}\p{N}]/u.test(text.slice(span.start, span.end))) previous.end = span.end;
+    else phrases.push(span);
+  });
+  return phrases;
+}
+
+/**
+ * Plan per-phrase options for a text. The same text, base options and seed
+ * always give the same plan, so a variation can be saved and reproduced.
+ */
+export function planProsody(source: string, base: SynthesisOptions, { variation, seed, emphasis = true }: ProsodySettings): ProsodyPlan {
+  const { text, emphasized } = emphasis ? stripEmphasis(source) : { text: source, emphasized: [] };
+  const random = createRandom(seed);
+  // Phrases are too short to tell their language, so they carry the request's
+  const lang = confidentLanguage(text);
+  const phrases: ProsodyPhrase[] = [];
+
+  for (const sentence of sentenceSpans(text)) {
+    const ending = text.slice(sentence.start, sentence.end).match(/[.!?…]*["')\]]*$/)?.[0] ?? '';
+    const question = ending.includes('?');
+    const exclamation = !question && ending.includes('!');
+    const spans = splitPhrases(text, sentence, emphasized);
+
+    spans.forEach((span, index) => {
+      // Always draw both numbers so one phrase's settings never shift the next phrase's randomness
+      const pitchWobble = (random() - 0.5) * 0.2 * variation;
+      const rateWobble = (random() - 0.5) * 0.12 * variation;
+      const position = spans.length > 1 ? index / (spans.length - 1) : 0.5;
+      const isLast = index === spans.length - 1;
+      const emphasis = emphasized.some(marked => span.start >= marked.start && span.start < marked.end);
+
+      // Pitch drifts down across the sentence, as it does in natural speech
+      let pitch = 1 + variation * 0.06 * (1 - 2 * position) + pitchWobble;
+      let rate = 1 + rateWobble;
+      if (question && isLast) {
+        pitch *= 1.08 + 0.2 * variation;
+        rate *= 0.95;
+      } else if (exclamation) {
+        pitch *= 1.04 + 0.1 * variation;
+        rate *= 1.03 + 0.06 * variation;
+      }
+      if (emphasis) {
+        pitch *= EMPHASIS_PITCH;
+        rate *= EMPHASIS_RATE;
+      }
+
+      phrases.push({
+        ...span,
+        emphasis,
+        options: {
+          ...base,
+          lang,
+          pitch: clamp(base.pitch * pitch, 0, 2),
+          rate: clamp(base.rate * rate, 0.1, 10)
+        }
+      });
+    });
+  }
+
+  return { text, phrases };
+}
+
+/** A phrase's options, marked as one call of the take that speaks or renders the plan */
+export function phraseOptions(plan: Pick<ProsodyPlan, 'phrases'>, index: number, take: string): SynthesisOptions {
+  return { ...plan.phrases[index].options, take: { id: take, last: index === plan.phrases.length - 1 } };
+}
+
+/** Speech stopped by something other than the caller, such as another player taking the engine over */
+export class SpeechCancelledError extends Error {
+  constructor() {
+    super('Speech was cancelled by another playback');
+    this.name = 'SpeechCancelledError';
+  }
+}
+
+/**
+ * Speak a plan phrase by phrase; resolves once the last phrase ends and
+ * rejects on error, on abort, and with SpeechCancelledError when the engine
+ * is cancelled from elsewhere.
+ */
+export function speakProsody(engine: TtsEngine, plan: ProsodyPlan, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    let settled = false;
+    const done = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', abort);
+      if (error) reject(error);
+      else resolve();
+    };
+    // Settle first, so the cancel this causes is not mistaken for someone else's
+    const abort = () => {
+      done(signal?.reason);
+      engine.cancel();
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+    const take = createId();
+
+    const speakPhrase = (index: number) => {
+      if (settled) return;
+      const phrase = plan.phrases[index];
+      if (!phrase) {
+        done();
+        return;
+      }
+      engine.speak(plan.text.slice(phrase.start, phrase.end), phraseOptions(plan, index, take), {
+        onEnd: () => speakPhrase(index + 1),
+        onError: done,
+        onCancel: () => done(new SpeechCancelledError())
+      });
+    };
+    speakPhrase(0);
+  });
+}
+
+export interface RenderedPhrase {
+  phrase: ProsodyPhrase;
+  /** Audio of this phrase alone, with boundaries already placed in the whole text and clip */
+  audio: RenderedAudio;
+  /** Start of the phrase within the whole clip, in seconds */
+  offset: number;
+}
+
+/** Render phrase after phrase, so callers can stream each one as soon as it is ready */
+export async function* renderPhrases(engine: TtsEngine, plan: ProsodyPlan): AsyncGenerator<RenderedPhrase> {
+  if (!engine.render) throw new Error(`${engine.label} cannot render audio`);
+  let offset = 0;
+  let sampleRate: number | null = null;
+  const take = createId();
+  for (const [index, phrase] of plan.phrases.entries()) {
+    const audio = await engine.render(plan.text.slice(phrase.start, phrase.end), phraseOptions(plan, index, take));
+    sampleRate ??= audio.sampleRate;
+    if (audio.sampleRate !== sampleRate) throw new Error('Phrases were rendered at different sample rates');
+    yield {
+      phrase,
+      offset,
+      audio: {
+        ...audio,
+        boundaries: audio.boundaries.map(boundary => ({
+          ...boundary,
+          charIndex: phrase.start + boundary.charIndex,
+          elapsedTime: offset + boundary.elapsedTime
+        }))
+      }
+    };
+    offset += audio.samples.length / audio.sampleRate;
+  }
+}
+
+/** Render each phrase with its own options and join them into one clip */
+export async function renderProsody(engine: TtsEngine, plan: ProsodyPlan): Promise<RenderedAudio> {
+  const parts: RenderedAudio[] = [];
+  for await (const { audio } of renderPhrases(engine, plan)) parts.push(audio);
+
+  const samples = new Float32Array(parts.reduce((total, audio) => total + audio.samples.length, 0));
+  let offset = 0;
+  for (const audio of parts) {
+    samples.set(audio.samples, offset);
+    offset += audio.samples.length;
+  }
+  return {
+    samples,
+    sampleRate: parts[0]?.sampleRate ?? 22050,
+    boundaries: parts.flatMap(audio => audio.boundaries)
+  };
+}
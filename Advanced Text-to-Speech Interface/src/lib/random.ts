@@ -0,0 +1,21 @@
+// Small seedable random numbers, so a varied take can be reproduced exactly.
+
+export const MAX_SEED = 0xffffffff;
+
+/** A fresh seed for when the user has not fixed one */
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) + 1;
+
+export const isSeed = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+
+/** Mulberry32: fast, good enough for prosody and identical on every platform */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
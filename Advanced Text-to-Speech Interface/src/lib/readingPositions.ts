@@ -0,0 +1,39 @@
+// Where each imported document was left off, kept in localStorage and keyed by
+// document id so a book picks up at the same place when it is opened again.
+
+export interface ReadingPosition {
+  title: string;
+  /** Character offset within the document text */
+  position: number;
+  length: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'advanced-tts:reading-positions';
+const MAX_REMEMBERED = 50;
+
+function loadAll(): Record<string, ReadingPosition> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadReadingPosition(documentId: string): ReadingPosition | null {
+  const position = loadAll()[documentId];
+  return typeof position?.position === 'number' ? position : null;
+}
+
+export function saveReadingPosition(documentId: string, position: Omit<ReadingPosition, 'updatedAt'>) {
+  // Only the most recently read documents are remembered
+  const entries = Object.entries({ ...loadAll(), [documentId]: { ...position, updatedAt: Date.now() } })
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_REMEMBERED);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.error('Could not save the reading position:', error);
+  }
+}
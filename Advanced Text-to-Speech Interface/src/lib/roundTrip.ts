@@ -0,0 +1,172 @@
+// Round-trip verification: the generated speech is transcribed again and the
+// transcript aligned word by word against the source text. Source words the
+// recognizer heard differently, or not at all, are flagged as likely
+// mispronunciations.
+
+import { numberToWords } from './numberWords';
+import { wordSpans } from './segments';
+
+export type WordVerdict = 'match' | 'misheard' | 'missing' | 'extra';
+
+export interface WordComparison {
+  verdict: WordVerdict;
+  /** The source word; absent for words only the recognizer heard */
+  word?: string;
+  /** Offset of the source word in the source text */
+  start?: number;
+  /** What the recognizer heard in its place */
+  heard?: string;
+}
+
+export interface FlaggedWord {
+  word: string;
+  /** Offset of the first occurrence in the source text */
+  start: number;
+  /** What the recognizer heard instead, or null when it heard nothing */
+  heard: string | null;
+  count: number;
+}
+
+export interface RoundTripReport {
+  transcript: string;
+  words: WordComparison[];
+  /** Share of source words heard correctly, 0 to 1 */
+  accuracy: number;
+  flagged: FlaggedWord[];
+}
+
+interface KeyToken {
+  key: string;
+  /** Index of the word the token came from */
+  word: number;
+}
+
+// Recognizers write numbers as digits or words, accents and apostrophes vary
+function wordKeys(word: string): string[] {
+  const spelled = /^\d+$/.test(word) ? numberToWords(word) : word;
+  return spelled
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+function keyTokens(words: string[]): KeyToken[] {
+  return words.flatMap((word, index) => wordKeys(word).map(key => ({ key, word: index })));
+}
+
+type Step = 'same' | 'substitute' | 'delete' | 'insert';
+
+// Word-level edit distance with the cheapest path traced back
+function align(source: KeyToken[], heard: KeyToken[]): Step[] {
+  const n = source.length;
+  const m = heard.length;
+  const width = m + 1;
+  const directions = new Uint8Array((n + 1) * width);
+  let previous = Uint32Array.from({ length: width }, (_, j) => j);
+  for (let j = 1; j <= m; j++) directions[j] = 3;
+  for (let i = 1; i <= n; i++) {
+    const row = new Uint32Array(width);
+    row[0] = i;
+    directions[i * width] = 2;
+    for (let j = 1; j <= m; j++) {
+      const same = source[i - 1].key === heard[j - 1].key;
+      const diagonal = previous[j - 1] + (same ? 0 : 1);
+      const deletion = previous[j] + 1;
+      const insertion = row[j - 1] + 1;
+      if (diagonal <= deletion && diagonal <= insertion) {
+        row[j] = diagonal;
+        directions[i * width + j] = same ? 0 : 1;
+      } else if (deletion <= insertion) {
+        row[j] = deletion;
+        directions[i * width + j] = 2;
+      } else {
+        row[j] = insertion;
+        directions[i * width + j] = 3;
+      }
+    }
+    previous = row;
+  }
+
+  const steps: Step[] = [];
+  const names: Step[] = ['same', 'substitute', 'delete', 'insert'];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const step = names[directions[i * width + j]];
+    steps.push(step);
+    if (step !== 'insert') i--;
+    if (step !== 'delete') j--;
+  }
+  return steps.reverse();
+}
+
+export function compareTranscript(source: string, transcript: string): RoundTripReport {
+  const spans = wordSpans(source);
+  const sourceWords = spans.map(span => source.slice(span.start, span.end));
+  const heardWords = wordSpans(transcript).map(span => transcript.slice(span.start, span.end));
+  const sourceTokens = keyTokens(sourceWords);
+  const heardTokens = keyTokens(heardWords);
+
+  // A source word is heard correctly only when every one of its tokens is
+  const wrong = new Set<number>();
+  const heardFor = sourceWords.map(() => new Set<number>());
+  const extras: { after: number; word: number }[] = [];
+  let i = 0;
+  let j = 0;
+  for (const step of align(sourceTokens, heardTokens)) {
+    if (step === 'insert') {
+      const previousWord = i > 0 ? sourceTokens[i - 1].word : -1;
+      // Heard words that land inside a source word belong to it
+      if (i > 0 && i < sourceTokens.length && sourceTokens[i].word === previousWord) {
+        wrong.add(previousWord);
+        heardFor[previousWord].add(heardTokens[j].word);
+      } else {
+        extras.push({ after: previousWord, word: heardTokens[j].word });
+      }
+      j++;
+      continue;
+    }
+    const word = sourceTokens[i].word;
+    if (step !== 'same') wrong.add(word);
+    if (step !== 'delete') heardFor[word].add(heardTokens[j].word);
+    i++;
+    if (step !== 'delete') j++;
+  }
+
+  const words: WordComparison[] = [];
+  const pushExtras = (after: number) => {
+    for (const extra of extras.filter(item => item.after === after)) {
+      words.push({ verdict: 'extra', heard: heardWords[extra.word] });
+    }
+  };
+  pushExtras(-1);
+  const flagged = new Map<string, FlaggedWord>();
+  sourceWords.forEach((word, index) => {
+    const heardIndexes = [...heardFor[index]].sort((a, b) => a - b);
+    const heard = heardIndexes.map(heardIndex => heardWords[heardIndex]).join(' ');
+    const verdict: WordVerdict = !wrong.has(index) ? 'match' : heard ? 'misheard' : 'missing';
+    words.push({ verdict, word, start: spans[index].start, ...(heard && verdict !== 'match' && { heard }) });
+    pushExtras(index);
+
+    if (verdict === 'match') return;
+    const key = word.toLowerCase();
+    const existing = flagged.get(key);
+    if (existing) {
+      existing.count++;
+      existing.heard ??= heard || null;
+    } else {
+      flagged.set(key, { word, start: spans[index].start, heard: heard || null, count: 1 });
+    }
+  });
+
+  const matched = words.filter(word => word.verdict === 'match').length;
+  return {
+    transcript,
+    words,
+    accuracy: sourceWords.length ? matched / sourceWords.length : 1,
+    flagged: [...flagged.values()]
+  };
+}
@@ -0,0 +1,98 @@
+// Dialogue scripts: "ALICE: Hello" / "BOB: Hi" with continuation lines and
+// (stage directions) that are not spoken.
+
+import type { EngineVoice } from '../engines';
+
+export interface ScriptTurn {
+  speaker: string;
+  text: string;
+  /** One-based line where the turn starts */
+  line: number;
+}
+
+export interface CastMember {
+  voiceId: string;
+  pitch: number;
+  speed: number;
+}
+
+export type Cast = Record<string, CastMember>;
+
+export interface CastFile {
+  version: 1;
+  turnGap: number;
+  cast: Cast;
+}
+
+export const NARRATOR = 'NARRATOR';
+
+const SPEAKER_LINE = /^\s*([A-Z][\w .'-]{0,29}?)\s*:\s*(.*)$/;
+
+// Pitch offsets give speakers sharing a voice some contrast
+const PITCH_VARIANTS = [1.0, 1.2, 0.85, 1.1, 0.95, 1.3];
+
+const cleanLine = (line: string) => line.replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+
+export function parseScript(source: string): ScriptTurn[] {
+  const turns: ScriptTurn[] = [];
+
+  source.split('\n').forEach((raw, index) => {
+    const match = SPEAKER_LINE.exec(raw);
+    if (match) {
+      turns.push({ speaker: match[1].trim().toUpperCase(), text: cleanLine(match[2]), line: index + 1 });
+      return;
+    }
+
+    const text = cleanLine(raw);
+    if (!text) return;
+    const last = turns[turns.length - 1];
+    if (last) {
+      last.text = last.text ? `${last.text} ${text}` : text;
+    } else {
+      // Lines before the first label belong to the narrator
+      turns.push({ speaker: NARRATOR, text, line: index + 1 });
+    }
+  });
+
+  return turns.filter(turn => turn.text);
+}
+
+export function listSpeakers(turns: ScriptTurn[]): string[] {
+  return Array.from(new Set(turns.map(turn => turn.speaker)));
+}
+
+/** Deal voices out round-robin so each new speaker sounds different */
+export function defaultCastMember(speakerIndex: number, voices: EngineVoice[]): CastMember {
+  const voice = voices.length ? voices[speakerIndex % voices.length] : undefined;
+  const round = voices.length ? Math.floor(speakerIndex / voices.length) : speakerIndex;
+  return {
+    voiceId: voice?.id ?? '',
+    pitch: PITCH_VARIANTS[round % PITCH_VARIANTS.length],
+    speed: 1.0
+  };
+}
+
+/** Fill in defaults for speakers without an assignment */
+export function resolveCast(speakers: string[], cast: Cast, voices: EngineVoice[]): Cast {
+  return Object.fromEntries(speakers.map((speaker, index) => [
+    speaker,
+    cast[speaker] ?? defaultCastMember(index, voices)
+  ]));
+}
+
+export function parseCastFile(json: string): CastFile {
+  const data = JSON.parse(json) as Partial<CastFile>;
+  if (data.version !== 1 || typeof data.cast !== 'object' || data.cast === null) {
+    throw new Error('Not a cast file');
+  }
+
+  const cast: Cast = {};
+  for (const [speaker, member] of Object.entries(data.cast)) {
+    if (typeof member?.voiceId !== 'string' || typeof member.pitch !== 'number' || typeof member.speed !== 'number') {
+      throw new Error(`Invalid cast entry for ${speaker}`);
+    }
+    cast[speaker.toUpperCase()] = { voiceId: member.voiceId, pitch: member.pitch, speed: member.speed };
+  }
+
+  return { version: 1, turnGap: typeof data.turnGap === 'number' ? data.turnGap : 0.5, cast };
+}
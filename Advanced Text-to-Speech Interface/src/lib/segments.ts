@@ -0,0 +1,35 @@
+// Word and sentence spans with their character offsets in the source text.
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+const SENTENCE_PATTERN = /[^.!?…\n]+(?:[.!?…]+["')\]]*|$)/gm;
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+
+/** Trim whitespace off a span without losing its offsets */
+export function trimSpan(text: string, start: number, end: number): TextSpan | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+export function sentenceSpans(text: string, within: TextSpan = { start: 0, end: text.length }): TextSpan[] {
+  const body = text.slice(within.start, within.end);
+  const spans: TextSpan[] = [];
+  for (const match of body.matchAll(SENTENCE_PATTERN)) {
+    const start = within.start + (match.index ?? 0);
+    const span = trimSpan(text, start, start + match[0].length);
+    if (span) spans.push(span);
+  }
+  return spans;
+}
+
+export function wordSpans(text: string, within: TextSpan = { start: 0, end: text.length }): TextSpan[] {
+  const body = text.slice(within.start, within.end);
+  return Array.from(body.matchAll(WORD_PATTERN), (match) => {
+    const start = within.start + (match.index ?? 0);
+    return { start, end: start + match[0].length };
+  });
+}
@@ -0,0 +1,47 @@
+// Settings shared by the editor, history, presets and share links.
+
+import type { SynthesisOptions } from '../engines';
+
+export type InputMode = 'standard' | 'long' | 'ssml' | 'script';
+
+export const INPUT_MODES: { id: InputMode; label: string }[] = [
+  { id: 'standard', label: 'Standard' },
+  { id: 'long', label: 'Long text' },
+  { id: 'ssml', label: 'SSML' },
+  { id: 'script', label: 'Dialogue' }
+];
+
+export const isInputMode = (value: unknown): value is InputMode =>
+  INPUT_MODES.some(mode => mode.id === value);
+
+export interface VoiceSettings {
+  pitch: number;
+  speed: number;
+  temperature: number;
+}
+
+export const isVoiceSettings = (value: unknown): value is VoiceSettings => {
+  const settings = value as VoiceSettings;
+  return Number.isFinite(settings?.pitch) && Number.isFinite(settings.speed) && Number.isFinite(settings.temperature);
+};
+
+/** The editor's slider ranges; settings from links are kept within them */
+export const VOICE_SETTING_RANGES: Record<keyof VoiceSettings, { min: number; max: number }> = {
+  pitch: { min: 0.5, max: 2 },
+  speed: { min: 0.5, max: 2 },
+  temperature: { min: 0, max: 1 }
+};
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  pitch: 1.0,
+  speed: 1.0,
+  temperature: 0.7
+};
+
+/** Engine options for the settings; variation is applied per phrase by the prosody planner */
+export const toSynthesisOptions = (settings: VoiceSettings, voiceId?: string): SynthesisOptions => ({
+  voiceId,
+  pitch: settings.pitch,
+  rate: settings.speed,
+  volume: 1.0
+});
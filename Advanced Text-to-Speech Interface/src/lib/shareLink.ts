@@ -0,0 +1,82 @@
+// Share links carry the editor state in the URL fragment, so nothing is sent
+// to a server and the link restores text, engine, voice, settings and seed.
+
+import { isSeed } from './random';
+import { VOICE_SETTING_RANGES, isInputMode, isVoiceSettings } from './settings';
+import type { InputMode, VoiceSettings } from './settings';
+import type { VoiceReference } from './voices';
+
+export interface SharedState {
+  text: string;
+  inputMode: InputMode;
+  engineId: string;
+  voice: VoiceReference | null;
+  settings: VoiceSettings;
+  /** Variation seed of the shared take; links made before seeds existed have none */
+  seed?: number;
+}
+
+const PARAM = 'share';
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+/** Longer texts make URLs that browsers and chat apps truncate */
+export const MAX_SHARE_TEXT = 4000;
+
+function toBase64Url(json: string): string {
+  const bytes = new TextEncoder().encode(json);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(data: string): string {
+  const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function createShareUrl(state: SharedState, location: Location = window.location): string {
+  if (state.text.length > MAX_SHARE_TEXT) {
+    throw new Error(`Text is too long to share by link (${MAX_SHARE_TEXT.toLocaleString()} characters max)`);
+  }
+  const url = new URL(location.href);
+  url.hash = `${PARAM}=${toBase64Url(JSON.stringify({ v: 1, ...state }))}`;
+  return url.toString();
+}
+
+/** Read shared state from a URL fragment; malformed links are ignored */
+export function readShareHash(hash: string): SharedState | null {
+  const match = new URLSearchParams(hash.replace(/^#/, '')).get(PARAM);
+  if (!match) return null;
+  try {
+    const data = JSON.parse(fromBase64Url(match));
+    const settings = data.settings;
+    if (
+      data.v !== 1 ||
+      typeof data.text !== 'string' ||
+      !isInputMode(data.inputMode) ||
+      typeof data.engineId !== 'string' ||
+      !isVoiceSettings(settings)
+    ) {
+      return null;
+    }
+    const voice = typeof data.voice?.name === 'string'
+      ? { id: String(data.voice.id ?? data.voice.name), name: data.voice.name, lang: String(data.voice.lang ?? '') }
+      : null;
+    return {
+      text: data.text,
+      inputMode: data.inputMode,
+      engineId: data.engineId,
+      voice,
+      // Within the editor's slider ranges, whatever the link was edited to say
+      settings: {
+        pitch: clamp(settings.pitch, VOICE_SETTING_RANGES.pitch),
+        speed: clamp(settings.speed, VOICE_SETTING_RANGES.speed),
+        temperature: clamp(settings.temperature, VOICE_SETTING_RANGES.temperature)
+      },
+      seed: isSeed(data.seed) ? data.seed : undefined
+    };
+  } catch {
+    return null;
+  }
+}
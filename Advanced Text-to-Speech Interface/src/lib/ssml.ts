@@ -0,0 +1,331 @@
+// Parser for the subset of SSML the app supports. Markup is reduced to a flat list
+// of segments so engines without native SSML can speak it as a sequence of
+// utterances, each with its own voice, prosody and trailing pause.
+
+import type { SynthesisOptions } from '../engines';
+import type { VoicedSegment } from './chunker';
+
+export interface SsmlSegment {
+  text: string;
+  voiceId?: string;
+  /** Multipliers relative to the base voice settings */
+  pitch: number;
+  rate: number;
+  volume: number;
+  /** Silence after the segment, in seconds */
+  pauseAfter: number;
+}
+
+export class SsmlSyntaxError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number, readonly offset: number) {
+    super(message);
+    this.name = 'SsmlSyntaxError';
+  }
+}
+
+interface Voicing {
+  voiceId?: string;
+  pitch: number;
+  rate: number;
+  volume: number;
+}
+
+interface Frame {
+  tag: string;
+  offset: number;
+  voicing: Voicing;
+  sayAs?: string;
+}
+
+const SUPPORTED_TAGS = new Set(['speak', 'break', 'prosody', 'emphasis', 'say-as', 'voice', 'p', 's', 'sub']);
+
+const RATE_KEYWORDS: Record<string, number> = { 'x-slow': 0.5, slow: 0.75, medium: 1, fast: 1.25, 'x-fast': 1.6, default: 1 };
+const PITCH_KEYWORDS: Record<string, number> = { 'x-low': 0.6, low: 0.8, medium: 1, high: 1.2, 'x-high': 1.4, default: 1 };
+const VOLUME_KEYWORDS: Record<string, number> = { silent: 0, 'x-soft': 0.25, soft: 0.5, medium: 0.75, loud: 1, 'x-loud': 1, default: 1 };
+const BREAK_STRENGTHS: Record<string, number> = { none: 0, 'x-weak': 0.1, weak: 0.2, medium: 0.4, strong: 0.7, 'x-strong': 1.2 };
+const EMPHASIS_LEVELS: Record<string, Omit<Voicing, 'voiceId'>> = {
+  strong: { pitch: 1.15, rate: 0.85, volume: 1 },
+  moderate: { pitch: 1.08, rate: 0.92, volume: 1 },
+  none: { pitch: 1, rate: 1, volume: 1 },
+  reduced: { pitch: 0.95, rate: 1.05, volume: 0.8 }
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Own keys only, so names like "constructor" or "toString" are not found on Object.prototype
+const lookup = <T>(table: Record<string, T>, key: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+
+const DIGIT_NAMES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+function locate(source: string, offset: number) {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return { line, column };
+}
+
+function fail(source: string, offset: number, message: string): never {
+  const { line, column } = locate(source, offset);
+  throw new SsmlSyntaxError(message, line, column, offset);
+}
+
+// Relative values: "+10%", "-20%", "120%", "+2st", "-6dB", "1.5", or a keyword
+function parseRelative(value: string, keywords: Record<string, number>, kind: 'rate' | 'pitch' | 'volume'): number | null {
+  const trimmed = value.trim().toLowerCase();
+  const keyword = lookup(keywords, trimmed);
+  if (keyword !== undefined) return keyword;
+
+  const match = /^([+-]?)(\d+(?:\.\d+)?)(%|st|db|hz)?$/.exec(trimmed);
+  if (!match) return null;
+  const [, sign, digits, unit] = match;
+  const amount = Number(digits) * (sign === '-' ? -1 : 1);
+
+  switch (unit) {
+    case '%':
+      return sign ? 1 + amount / 100 : amount / 100;
+    case 'st':
+      return kind === 'pitch' ? 2 ** (amount / 12) : null;
+    case 'db':
+      return kind === 'volume' ? 10 ** (amount / 20) : null;
+    case 'hz':
+      // Relative to a nominal 200 Hz speaking pitch
+      return kind === 'pitch' ? (sign ? 1 + amount / 200 : amount / 200) : null;
+    default:
+      return sign ? null : amount;
+  }
+}
+
+function parseDuration(value: string): number | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s)\s*$/i.exec(value);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  return match[2].toLowerCase() === 'ms' ? amount / 1000 : amount;
+}
+
+function decodeEntities(source: string, text: string, offset: number): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);|&/gi, (whole, name: string | undefined, index: number) => {
+    if (!name) fail(source, offset + index, 'Unescaped "&"; use &amp;');
+    if (name.startsWith('#')) {
+      const hex = name[1].toLowerCase() === 'x';
+      const digits = name.slice(hex ? 2 : 1);
+      const code = hex ? parseInt(digits, 16) : /^\d+$/.test(digits) ? parseInt(digits, 10) : NaN;
+      // XML allows any Unicode character except NUL and the surrogate halves
+      if (!(code > 0 && code <= 0x10ffff) || (code >= 0xd800 && code <= 0xdfff)) {
+        fail(source, offset + index, `Invalid character reference ${whole}`);
+      }
+      return String.fromCodePoint(code);
+    }
+    return lookup(ENTITIES, name) ?? fail(source, offset + index, `Unknown entity ${whole}`);
+  });
+}
+
+function interpret(text: string, interpretAs: string): string {
+  switch (interpretAs) {
+    case 'characters':
+    case 'spell-out':
+      return text.replace(/\s+/g, '').split('').join(' ');
+    case 'digits':
+      return text.replace(/\D+/g, '').split('').map(digit => DIGIT_NAMES[Number(digit)]).join(' ');
+    case 'telephone':
+      return text.replace(/[^\d]+/g, ' ').trim().split('').filter(c => c !== ' ').join(' ');
+    case 'ordinal': {
+      const n = Number(text.trim());
+      if (!Number.isInteger(n)) return text;
+      const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+      return `${n}${suffix}`;
+    }
+    default:
+      return text;
+  }
+}
+
+/** True when the input looks like SSML rather than plain text */
+export const looksLikeSsml = (text: string) => /^\s*<speak[\s>]/.test(text);
+
+export function parseSsml(source: string): SsmlSegment[] {
+  const segments: SsmlSegment[] = [];
+  const root: Voicing = { pitch: 1, rate: 1, volume: 1 };
+  const stack: Frame[] = [];
+  let sawSpeak = false;
+  let closedSpeak = false;
+  let cursor = 0;
+
+  const current = () => stack[stack.length - 1];
+  const voicing = () => current()?.voicing ?? root;
+
+  const addPause = (seconds: number) => {
+    const last = segments[segments.length - 1];
+    if (last) {
+      last.pauseAfter += seconds;
+    } else {
+      segments.push({ text: '', ...voicing(), pauseAfter: seconds });
+    }
+  };
+
+  const addText = (raw: string, offset: number) => {
+    if (!raw.trim()) {
+      // Whitespace between elements still separates words
+      const last = segments[segments.length - 1];
+      if (last && raw && !last.text.endsWith(' ')) last.text += ' ';
+      return;
+    }
+    if (closedSpeak || (sawSpeak && stack.length === 0)) fail(source, offset, 'Text outside of <speak>');
+
+    let text = decodeEntities(source, raw, offset).replace(/\s+/g, ' ');
+    const sayAs = stack.slice().reverse().find(f => f.sayAs)?.sayAs;
+    if (sayAs) text = interpret(text, sayAs);
+
+    const v = voicing();
+    const last = segments[segments.length - 1];
+    const sameVoicing = last && last.pauseAfter === 0 && last.voiceId === v.voiceId &&
+      last.pitch === v.pitch && last.rate === v.rate && last.volume === v.volume;
+    if (sameVoicing) {
+      last.text += text;
+    } else {
+      segments.push({ text: text.trimStart(), ...v, pauseAfter: 0 });
+    }
+  };
+
+  while (cursor < source.length) {
+    const open = source.indexOf('<', cursor);
+    if (open === -1) {
+      addText(source.slice(cursor), cursor);
+      break;
+    }
+    if (open > cursor) addText(source.slice(cursor, open), cursor);
+
+    // Comments and XML declarations are skipped
+    if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open);
+      if (end === -1) fail(source, open, 'Unclosed comment');
+      cursor = end + 3;
+      continue;
+    }
+    if (source.startsWith('<?', open)) {
+      const end = source.indexOf('?>', open);
+      if (end === -1) fail(source, open, 'Unclosed processing instruction');
+      cursor = end + 2;
+      continue;
+    }
+
+    const close = source.indexOf('>', open);
+    if (close === -1) fail(source, open, 'Unclosed tag: missing ">"');
+    const inner = source.slice(open + 1, close);
+    cursor = close + 1;
+
+    // Closing tag
+    if (inner.startsWith('/')) {
+      const name = inner.slice(1).trim();
+      const frame = current();
+      if (!frame) fail(source, open, `Unexpected closing tag </${name}>`);
+      if (frame.tag !== name) fail(source, open, `Expected </${frame.tag}> but found </${name}>`);
+      stack.pop();
+      if (name === 'p') addPause(BREAK_STRENGTHS.strong);
+      if (name === 's') addPause(BREAK_STRENGTHS.medium);
+      if (name === 'speak') closedSpeak = true;
+      continue;
+    }
+
+    const selfClosing = inner.endsWith('/');
+    const body = selfClosing ? inner.slice(0, -1) : inner;
+    const nameMatch = /^([a-zA-Z][\w:-]*)/.exec(body);
+    if (!nameMatch) fail(source, open, 'Malformed tag');
+    const name = nameMatch[1];
+    if (!SUPPORTED_TAGS.has(name)) fail(source, open, `Unsupported element <${name}>`);
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /\s+([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+    let attributeCursor = name.length;
+    attributePattern.lastIndex = attributeCursor;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(body))) {
+      attributes[attribute[1]] = attribute[2] ?? attribute[3];
+      attributeCursor = attributePattern.lastIndex;
+    }
+    if (body.slice(attributeCursor).trim()) {
+      fail(source, open + 1 + attributeCursor, `Malformed attribute in <${name}>`);
+    }
+
+    if (name === 'speak') {
+      if (sawSpeak || stack.length > 0) fail(source, open, '<speak> must be the single root element');
+      sawSpeak = true;
+    } else if (closedSpeak) {
+      fail(source, open, `<${name}> appears after </speak>`);
+    }
+
+    const next: Voicing = { ...voicing() };
+    let sayAs: string | undefined;
+    const badValue = (attr: string) => fail(source, open, `Invalid ${attr}="${attributes[attr]}" on <${name}>`);
+
+    switch (name) {
+      case 'break': {
+        let seconds = BREAK_STRENGTHS.medium;
+        if (attributes.time !== undefined) {
+          seconds = parseDuration(attributes.time) ?? badValue('time');
+        } else if (attributes.strength !== undefined) {
+          seconds = lookup(BREAK_STRENGTHS, attributes.strength) ?? badValue('strength');
+        }
+        addPause(seconds);
+        if (!selfClosing) fail(source, open, '<break> must be self-closing: <break/>');
+        continue;
+      }
+      case 'prosody':
+        if (attributes.rate !== undefined) next.rate *= parseRelative(attributes.rate, RATE_KEYWORDS, 'rate') ?? badValue('rate');
+        if (attributes.pitch !== undefined) next.pitch *= parseRelative(attributes.pitch, PITCH_KEYWORDS, 'pitch') ?? badValue('pitch');
+        if (attributes.volume !== undefined) next.volume *= parseRelative(attributes.volume, VOLUME_KEYWORDS, 'volume') ?? badValue('volume');
+        break;
+      case 'emphasis': {
+        const level = lookup(EMPHASIS_LEVELS, attributes.level ?? 'moderate') ?? badValue('level');
+        next.pitch *= level.pitch;
+        next.rate *= level.rate;
+        next.volume *= level.volume;
+        break;
+      }
+      case 'say-as':
+        sayAs = attributes['interpret-as'];
+        if (!sayAs) fail(source, open, '<say-as> requires an interpret-as attribute');
+        break;
+      case 'voice':
+        if (!attributes.name) fail(source, open, '<voice> requires a name attribute');
+        next.voiceId = attributes.name;
+        break;
+      case 'sub':
+        if (attributes.alias === undefined) fail(source, open, '<sub> requires an alias attribute');
+        if (selfClosing) fail(source, open, '<sub> must wrap the text it replaces');
+        {
+          // Speak the alias instead of the wrapped text
+          const end = source.indexOf('</sub>', cursor);
+          if (end === -1) fail(source, open, 'Unclosed <sub>');
+          stack.push({ tag: name, offset: open, voicing: next });
+          addText(attributes.alias, open);
+          stack.pop();
+          cursor = end + '</sub>'.length;
+        }
+        continue;
+    }
+
+    if (!selfClosing) stack.push({ tag: name, offset: open, voicing: next, sayAs });
+  }
+
+  const unclosed = current();
+  if (unclosed) fail(source, unclosed.offset, `Unclosed <${unclosed.tag}>`);
+
+  return segments
+    .map(segment => ({ ...segment, text: segment.text.trim() }))
+    .filter(segment => segment.text || segment.pauseAfter > 0);
+}
+
+/** Resolve segment multipliers against the base options so the speech queue can play them */
+export function ssmlToVoicedSegments(segments: SsmlSegment[], base: SynthesisOptions): VoicedSegment[] {
+  return segments.map(segment => ({
+    text: segment.text,
+    pauseAfter: segment.pauseAfter,
+    options: {
+      voiceId: segment.voiceId ?? base.voiceId,
+      pitch: Math.max(0, Math.min(2, base.pitch * segment.pitch)),
+      rate: Math.max(0.1, Math.min(10, base.rate * segment.rate)),
+      volume: Math.max(0, Math.min(1, base.volume * segment.volume))
+    }
+  }));
+}
@@ -0,0 +1,104 @@
+import type { EngineVoice } from '../engines';
+
+/** How a voice is remembered outside the browser that listed it */
+export interface VoiceReference {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+/** Which step of the fallback chain produced the voice */
+export type VoiceMatch = 'exact' | 'name' | 'locale' | 'language' | 'default';
+
+export interface ResolvedVoice {
+  voice: EngineVoice;
+  match: VoiceMatch;
+}
+
+export const toVoiceReference = (voice: EngineVoice): VoiceReference =>
+  ({ id: voice.id, name: voice.name, lang: voice.lang });
+
+export const baseLanguage = (lang: string) => lang.toLowerCase().split(/[-_]/)[0];
+const sameLocale = (a: string, b: string) => a.replace('_', '-').toLowerCase() === b.replace('_', '-').toLowerCase();
+
+/**
+ * Find the closest installed voice. The chain is: same id, same name, same
+ * locale (en-GB), same language (en), then the engine default or first voice.
+ * Within a locale or language, local voices win over network ones.
+ */
+export function resolveVoice(reference: VoiceReference, voices: EngineVoice[]): ResolvedVoice | null {
+  if (voices.length === 0) return null;
+
+  const byId = voices.find(voice => voice.id === reference.id);
+  if (byId) return { voice: byId, match: 'exact' };
+
+  const name = reference.name.toLowerCase();
+  const byName = voices.find(voice => voice.name.toLowerCase() === name);
+  if (byName) return { voice: byName, match: 'name' };
+
+  const preferLocal = (candidates: EngineVoice[]) => candidates.find(voice => voice.localService) ?? candidates[0];
+
+  const byLocale = preferLocal(voices.filter(voice => sameLocale(voice.lang, reference.lang)));
+  if (byLocale) return { voice: byLocale, match: 'locale' };
+
+  const byLanguage = preferLocal(voices.filter(voice => baseLanguage(voice.lang) === baseLanguage(reference.lang)));
+  if (byLanguage) return { voice: byLanguage, match: 'language' };
+
+  return { voice: voices.find(voice => voice.isDefault) ?? voices[0], match: 'default' };
+}
+
+export interface VoiceGroup {
+  /** Normalized locale, e.g. 'en-GB' */
+  locale: string;
+  label: string;
+  voices: EngineVoice[];
+}
+
+const normalizeLocale = (lang: string) => {
+  const [language, region] = lang.replace('_', '-').split('-');
+  return region ? `${language.toLowerCase()}-${region.toUpperCase()}` : language.toLowerCase();
+};
+
+/** Human readable name for a locale, e.g. 'English (United Kingdom)' */
+export function languageLabel(lang: string): string {
+  const [language, region] = normalizeLocale(lang).split('-');
+  if (!language) return 'Unknown language';
+  try {
+    const languageName = new Intl.DisplayNames(undefined, { type: 'language' }).of(language) ?? language;
+    const regionName = region ? new Intl.DisplayNames(undefined, { type: 'region' }).of(region) : null;
+    return regionName ? `${languageName} (${regionName})` : languageName;
+  } catch {
+    return lang;
+  }
+}
+
+/** Voices grouped by language and region, sorted by the group's display name */
+export function groupVoicesByLanguage(voices: EngineVoice[]): VoiceGroup[] {
+  const groups = new Map<string, VoiceGroup>();
+  voices.forEach((voice) => {
+    const locale = normalizeLocale(voice.lang);
+    const group = groups.get(locale) ?? { locale, label: languageLabel(locale), voices: [] };
+    group.voices.push(voice);
+    groups.set(locale, group);
+  });
+  return [...groups.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+const QUALITY_HINTS = ['google', 'natural', 'enhanced', 'premium', 'neural'];
+
+/** Pick the best-sounding voice from a list, favouring the user's own region */
+export function pickPreferredVoice(voices: EngineVoice[], regionHint = navigator.language): EngineVoice | undefined {
+  const score = (voice: EngineVoice) =>
+    (QUALITY_HINTS.some(hint => voice.name.toLowerCase().includes(hint)) ? 2 : 0) +
+    (sameLocale(voice.lang, regionHint) ? 1 : 0) +
+    (voice.isDefault ? 0.5 : 0);
+  return [...voices].sort((a, b) => score(b) - score(a))[0];
+}
+
+/** Best voice for a base language, keeping the current voice when it already fits */
+export function voiceForLanguage(lang: string, voices: EngineVoice[], current?: EngineVoice): EngineVoice | undefined {
+  if (current && baseLanguage(current.lang) === lang) return current;
+  const candidates = voices.filter(voice => baseLanguage(voice.lang) === lang);
+  const region = navigator.languages.find(locale => baseLanguage(locale) === lang);
+  return pickPreferredVoice(candidates, region);
+}
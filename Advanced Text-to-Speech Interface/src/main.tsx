@@ -1,8 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { applyAccessibilitySettings, loadAccessibilitySettings } from './lib/accessibility';
 import './index.css';
 
+// Before the first render, so the page never flashes in the wrong theme or size
+applyAccessibilitySettings(loadAccessibilitySettings());
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,95 @@
+import type { RecognitionCallbacks, RecognitionOptions, SpeechRecognizer } from './types';
+
+// The Web Speech recognition API is not part of the DOM typings yet
+interface WebSpeechRecognition extends EventTarget {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string; message?: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+const recognitionConstructor = (): WebSpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as Record<string, WebSpeechRecognitionConstructor | undefined>;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser',
+  'audio-capture': 'No microphone was found',
+  network: 'The speech recognition service could not be reached'
+};
+
+export function createBrowserRecognizer(): SpeechRecognizer {
+  return {
+    id: 'browser',
+    label: 'Browser Speech Recognition',
+    description: 'The browser\'s own recognizer, listening through the microphone',
+    capabilities: {
+      microphone: true,
+      interimResults: true,
+      offline: false
+    },
+
+    isAvailable: () => recognitionConstructor() !== undefined,
+
+    start(options: RecognitionOptions, callbacks: RecognitionCallbacks = {}) {
+      const Recognition = recognitionConstructor();
+      if (!Recognition) throw new Error('Speech recognition is not supported in this browser');
+
+      let stopped = false;
+      let failed = false;
+      const recognition = new Recognition();
+      recognition.lang = options.lang ?? '';
+      recognition.continuous = options.continuous;
+      recognition.interimResults = true;
+      recognition.maxAlternatives = 1;
+
+      recognition.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          callbacks.onResult?.({
+            transcript: result[0].transcript,
+            isFinal: result.isFinal,
+            confidence: result[0].confidence || undefined
+          });
+        }
+      };
+      recognition.onerror = (event) => {
+        // Silence is not a failure; continuous sessions simply listen again
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        failed = true;
+        callbacks.onError?.(new Error(ERROR_MESSAGES[event.error] ?? `Speech recognition error: ${event.error}`));
+      };
+      recognition.onend = () => {
+        // Browsers end even continuous sessions after a while without speech
+        if (options.continuous && !stopped && !failed) {
+          recognition.start();
+          return;
+        }
+        callbacks.onEnd?.();
+      };
+      recognition.start();
+
+      return {
+        stop() {
+          stopped = true;
+          recognition.stop();
+        },
+        abort() {
+          stopped = true;
+          recognition.abort();
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { createBrowserRecognizer } from './browserRecognizer';
+import { createTranscriptRecognizer } from './transcriptRecognizer';
+import type { SpeechRecognizer } from './types';
+
+export type {
+  RecognitionCallbacks,
+  RecognitionOptions,
+  RecognitionResult,
+  RecognitionSession,
+  RecognizerCapabilities,
+  SpeechRecognizer
+} from './types';
+
+// Recognizers in order of preference; the first available one is the default
+const recognizerFactories: Record<string, () => SpeechRecognizer> = {
+  browser: createBrowserRecognizer,
+  transcript: createTranscriptRecognizer
+};
+
+const instances = new Map<string, SpeechRecognizer>();
+
+export function getRecognizer(id: string): SpeechRecognizer {
+  let recognizer = instances.get(id);
+  if (!recognizer) {
+    const factory = recognizerFactories[id];
+    if (!factory) throw new Error(`Unknown speech recognizer: ${id}`);
+    recognizer = factory();
+    instances.set(id, recognizer);
+  }
+  return recognizer;
+}
+
+export function listRecognizers(): SpeechRecognizer[] {
+  return Object.keys(recognizerFactories).map(getRecognizer);
+}
+
+export function getDefaultRecognizerId(): string {
+  const available = listRecognizers().find(recognizer => recognizer.isAvailable());
+  return (available ?? listRecognizers()[0]).id;
+}
@@ -0,0 +1,41 @@
+import type { RecognitionCallbacks, RecognitionOptions, SpeechRecognizer } from './types';
+
+/**
+ * Offline stand-in for a real recognizer. It does not listen: it "hears"
+ * exactly the text the engine was asked to speak, after normalization and the
+ * pronunciation dictionary. A round trip through it shows what the engine is
+ * told to say differently from what is written, without a microphone or
+ * network, but it cannot catch an engine mispronouncing a word on its own.
+ */
+export function createTranscriptRecognizer(): SpeechRecognizer {
+  return {
+    id: 'transcript',
+    label: 'Offline stand-in',
+    description: 'Transcribes the text the engine is given instead of listening',
+    capabilities: {
+      microphone: false,
+      interimResults: false,
+      offline: true
+    },
+
+    isAvailable: () => true,
+
+    start(options: RecognitionOptions, callbacks: RecognitionCallbacks = {}) {
+      let done = false;
+      const end = (deliver: boolean) => {
+        if (done) return;
+        done = true;
+        setTimeout(() => {
+          if (deliver && options.spokenText?.trim()) {
+            callbacks.onResult?.({ transcript: options.spokenText, isFinal: true, confidence: 1 });
+          }
+          callbacks.onEnd?.();
+        }, 0);
+      };
+      return {
+        stop: () => end(true),
+        abort: () => end(false)
+      };
+    }
+  };
+}
@@ -0,0 +1,56 @@
+// Shared contract for every speech-to-text backend: dictation and the
+// round-trip check both talk to recognizers only through this interface.
+
+export interface RecognizerCapabilities {
+  /** Listens to the microphone; stand-ins that do not cannot be used for dictation */
+  microphone: boolean;
+  /** Reports partial transcripts while the speaker is still talking */
+  interimResults: boolean;
+  /** Works without any network access */
+  offline: boolean;
+}
+
+export interface RecognitionOptions {
+  /** BCP 47 language tag; the recognizer's default when absent */
+  lang?: string;
+  /** Keep listening across pauses until stopped */
+  continuous: boolean;
+  /**
+   * The text about to be spoken to the recognizer. Offline stand-ins
+   * transcribe from it instead of listening.
+   */
+  spokenText?: string;
+}
+
+export interface RecognitionResult {
+  transcript: string;
+  /** False for interim results, which a later result replaces */
+  isFinal: boolean;
+  /** 0 to 1, when the recognizer reports one */
+  confidence?: number;
+}
+
+export interface RecognitionCallbacks {
+  onResult?: (result: RecognitionResult) => void;
+  /** Called once the session is over, after its last result */
+  onEnd?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface RecognitionSession {
+  /** Stop listening and deliver the remaining results */
+  stop(): void;
+  /** Stop listening and drop anything not yet delivered */
+  abort(): void;
+}
+
+export interface SpeechRecognizer {
+  readonly id: string;
+  readonly label: string;
+  readonly description: string;
+  readonly capabilities: RecognizerCapabilities;
+
+  /** Whether the recognizer can run in the current environment */
+  isAvailable(): boolean;
+  start(options: RecognitionOptions, callbacks?: RecognitionCallbacks): RecognitionSession;
+}
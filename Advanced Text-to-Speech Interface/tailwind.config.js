@@ -1,8 +1,26 @@
+// Neutrals and the light accent shades read from CSS variables, so the themes
+// in index.css can swap them; the dark theme keeps Tailwind's own values.
+const themed = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        white: themed('white'),
+        surface: { DEFAULT: themed('surface'), accent: themed('surface-accent') },
+        gray: { 200: themed('gray-200'), 300: themed('gray-300'), 400: themed('gray-400'), 500: themed('gray-500') },
+        slate: { 800: themed('slate-800') },
+        blue: { 200: themed('blue-200'), 300: themed('blue-300'), 400: themed('blue-400') },
+        red: { 200: themed('red-200'), 300: themed('red-300'), 400: themed('red-400') },
+        green: { 300: themed('green-300'), 400: themed('green-400') },
+        orange: { 300: themed('orange-300'), 400: themed('orange-400') },
+        yellow: { 100: themed('yellow-100') },
+        purple: { 400: themed('purple-400') },
+        pink: { 400: themed('pink-400') }
+      },
+    },
   },
   plugins: [],
 };
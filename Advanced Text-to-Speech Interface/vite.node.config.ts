@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// Node build of the headless core, the `tts` command line tool and the
+// local synthesis server
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'src/core/index.ts',
+        tts: 'cli/tts.ts',
+        server: 'server/main.ts'
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.name === 'tts' ? '#!/usr/bin/env node' : '')
+      }
+    }
+  }
+});